@@ -2,9 +2,9 @@ import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-d
 import { ThemeProvider } from '@mui/material/styles';
 import { CssBaseline, Box } from '@mui/material';
 import { Navigation, ErrorBoundary } from './components';
-import { CreatePage, PreviewPage, MyFormsPage } from './pages';
+import { CreatePage, EditPage, PreviewPage, MyFormsPage, ResponsesPage } from './pages';
 import { theme } from './theme';
-import { NotificationProvider, LoadingProvider } from './contexts';
+import { NotificationProvider, LoadingProvider, FormRepositoryProvider } from './contexts';
 
 function App() {
   return (
@@ -13,25 +13,29 @@ function App() {
       <ErrorBoundary>
         <NotificationProvider>
           <LoadingProvider>
-            <Router>
-              <Navigation />
-              <Box 
-                sx={{ 
-                  minHeight: 'calc(100vh - 64px)', // Account for AppBar height
-                  backgroundColor: 'background.default',
-                }}
-              >
-                <Routes>
-                  <Route path="/" element={<Navigate to="/create" replace />} />
-                  <Route path="/create" element={<CreatePage />} />
-                  <Route path="/preview" element={<PreviewPage />} />
-                  <Route path="/preview/:formId" element={<PreviewPage />} />
-                  <Route path="/myforms" element={<MyFormsPage />} />
-                  {/* Catch-all route for 404 handling */}
-                  <Route path="*" element={<Navigate to="/create" replace />} />
-                </Routes>
-              </Box>
-            </Router>
+            <FormRepositoryProvider>
+              <Router>
+                <Navigation />
+                <Box 
+                  sx={{ 
+                    minHeight: 'calc(100vh - 64px)', // Account for AppBar height
+                    backgroundColor: 'background.default',
+                  }}
+                >
+                  <Routes>
+                    <Route path="/" element={<Navigate to="/create" replace />} />
+                    <Route path="/create" element={<CreatePage />} />
+                    <Route path="/edit/:formId" element={<EditPage />} />
+                    <Route path="/preview" element={<PreviewPage />} />
+                    <Route path="/preview/:formId" element={<PreviewPage />} />
+                    <Route path="/myforms" element={<MyFormsPage />} />
+                    <Route path="/forms/:formId/responses" element={<ResponsesPage />} />
+                    {/* Catch-all route for 404 handling */}
+                    <Route path="*" element={<Navigate to="/create" replace />} />
+                  </Routes>
+                </Box>
+              </Router>
+            </FormRepositoryProvider>
           </LoadingProvider>
         </NotificationProvider>
       </ErrorBoundary>
@@ -0,0 +1,225 @@
+import React from 'react';
+import {
+  Box,
+  Typography,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  TextField,
+  IconButton,
+  Alert,
+  Button,
+  Paper,
+  Chip,
+  Stack,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteIcon from '@mui/icons-material/Delete';
+import CompareArrowsIcon from '@mui/icons-material/CompareArrows';
+import type { CrossFieldOperator, CrossFieldRule, FormField } from '../../types';
+import { ValidationEngine } from '../../services';
+
+interface CrossFieldRuleEditorProps {
+  rules: CrossFieldRule[];
+  onChange: (rules: CrossFieldRule[]) => void;
+  fields: FormField[];
+  disabled?: boolean;
+}
+
+const EQUALITY_OPERATORS: CrossFieldOperator[] = ['equals', 'notEquals'];
+const ORDERING_OPERATORS: CrossFieldOperator[] = ['greaterThan', 'greaterThanOrEqual', 'lessThan', 'lessThanOrEqual'];
+
+// Only numbers and dates have an order; anything else can only be compared for equality
+const isOrderable = (field?: FormField) => field?.type === 'number' || field?.type === 'date';
+
+const getOperators = (field?: FormField) =>
+  isOrderable(field) ? [...EQUALITY_OPERATORS, ...ORDERING_OPERATORS] : EQUALITY_OPERATORS;
+
+/**
+ * Fields the rule's field can be compared with: ordering needs another field of the same type
+ */
+const getComparableFields = (fields: FormField[], field: FormField | undefined, operator: CrossFieldOperator) =>
+  fields.filter(other =>
+    other.id !== field?.id && (!ORDERING_OPERATORS.includes(operator) || other.type === field?.type)
+  );
+
+const createRuleId = () => `rule-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+interface CrossFieldRuleRowProps {
+  rule: CrossFieldRule;
+  fields: FormField[];
+  onChange: (rule: CrossFieldRule) => void;
+  onRemove: () => void;
+  disabled?: boolean;
+}
+
+const CrossFieldRuleRow: React.FC<CrossFieldRuleRowProps> = ({ rule, fields, onChange, onRemove, disabled }) => {
+  const field = fields.find(f => f.id === rule.fieldId);
+  const other = fields.find(f => f.id === rule.otherFieldId);
+  const comparableFields = getComparableFields(fields, field, rule.operator);
+  const isDate = field?.type === 'date';
+
+  const handleFieldChange = (fieldId: string) => {
+    const nextField = fields.find(f => f.id === fieldId);
+    const operator = getOperators(nextField).includes(rule.operator) ? rule.operator : 'equals';
+    const keepsOther = getComparableFields(fields, nextField, operator).some(f => f.id === rule.otherFieldId);
+    onChange({ ...rule, fieldId, operator, otherFieldId: keepsOther ? rule.otherFieldId : '' });
+  };
+
+  const handleOperatorChange = (operator: CrossFieldOperator) => {
+    const keepsOther = getComparableFields(fields, field, operator).some(f => f.id === rule.otherFieldId);
+    onChange({ ...rule, operator, otherFieldId: keepsOther ? rule.otherFieldId : '' });
+  };
+
+  return (
+    <Paper variant="outlined" sx={{ p: 1.5, display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+      <Box sx={{ display: 'flex', gap: 1, alignItems: 'flex-start', flexWrap: 'wrap' }}>
+        <FormControl size="small" sx={{ minWidth: 160, flex: 1 }}>
+          <InputLabel>Field</InputLabel>
+          <Select
+            value={field ? rule.fieldId : ''}
+            label="Field"
+            onChange={(e) => handleFieldChange(e.target.value)}
+            error={!field}
+            disabled={disabled}
+          >
+            {fields.map(f => (
+              <MenuItem key={f.id} value={f.id}>
+                {f.label} ({f.type})
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+
+        <FormControl size="small" sx={{ minWidth: 150 }}>
+          <InputLabel>Operator</InputLabel>
+          <Select
+            value={rule.operator}
+            label="Operator"
+            onChange={(e) => handleOperatorChange(e.target.value as CrossFieldOperator)}
+            disabled={disabled}
+          >
+            {getOperators(field).map(operator => (
+              <MenuItem key={operator} value={operator}>
+                {ValidationEngine.getCrossFieldOperatorLabel(operator, isDate)}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+
+        <FormControl size="small" sx={{ minWidth: 160, flex: 1 }}>
+          <InputLabel>Other Field</InputLabel>
+          <Select
+            value={other && comparableFields.includes(other) ? rule.otherFieldId : ''}
+            label="Other Field"
+            onChange={(e) => onChange({ ...rule, otherFieldId: e.target.value })}
+            error={!other}
+            disabled={disabled}
+          >
+            {comparableFields.map(f => (
+              <MenuItem key={f.id} value={f.id}>
+                {f.label} ({f.type})
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+
+        <IconButton onClick={onRemove} color="error" size="small" sx={{ mt: 0.5 }} disabled={disabled}>
+          <DeleteIcon fontSize="small" />
+        </IconButton>
+      </Box>
+
+      <TextField
+        fullWidth
+        size="small"
+        label="Error Message (optional)"
+        value={rule.message}
+        onChange={(e) => onChange({ ...rule, message: e.target.value })}
+        placeholder={field && other
+          ? ValidationEngine.getCrossFieldRuleMessage(rule.operator, field.label, other.label, isDate)
+          : ''}
+        helperText={`Shown on ${field ? `"${field.label}"` : 'the field'} when the rule fails`}
+        disabled={disabled}
+      />
+    </Paper>
+  );
+};
+
+const CrossFieldRuleEditor: React.FC<CrossFieldRuleEditorProps> = ({
+  rules,
+  onChange,
+  fields,
+  disabled = false,
+}) => {
+  const handleAddRule = () => {
+    // Start from the last field, which is usually the confirmation or the end of a range
+    const field = fields[fields.length - 1];
+    const other = getComparableFields(fields, field, 'equals').slice(-1)[0];
+    onChange([
+      ...rules,
+      { id: createRuleId(), fieldId: field?.id || '', operator: 'equals', otherFieldId: other?.id || '', message: '' },
+    ]);
+  };
+
+  const updateRule = (index: number, rule: CrossFieldRule) => {
+    const updated = [...rules];
+    updated[index] = rule;
+    onChange(updated);
+  };
+
+  const removeRule = (index: number) => {
+    onChange(rules.filter((_, i) => i !== index));
+  };
+
+  return (
+    <Paper
+      elevation={0}
+      sx={{
+        mt: 3,
+        p: 2,
+        border: '1px solid',
+        borderColor: 'divider',
+        borderRadius: 2,
+      }}
+    >
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+        <CompareArrowsIcon color="action" />
+        <Typography variant="subtitle1" sx={{ fontWeight: 600, flex: 1 }}>
+          Cross-Field Rules
+        </Typography>
+        {rules.length > 0 && <Chip label={rules.length} size="small" />}
+      </Box>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Compare two fields, e.g. "Confirm Email matches Email" or "End Date is after Start Date".
+        Rules are checked once both fields are shown.
+      </Typography>
+
+      {fields.length < 2 ? (
+        <Alert severity="info">
+          Add at least two fields to compare them.
+        </Alert>
+      ) : (
+        <Stack spacing={1.5}>
+          {rules.map((rule, index) => (
+            <CrossFieldRuleRow
+              key={rule.id}
+              rule={rule}
+              fields={fields}
+              onChange={(updated) => updateRule(index, updated)}
+              onRemove={() => removeRule(index)}
+              disabled={disabled}
+            />
+          ))}
+          <Box>
+            <Button size="small" startIcon={<AddIcon />} onClick={handleAddRule} disabled={disabled}>
+              Add Rule
+            </Button>
+          </Box>
+        </Stack>
+      )}
+    </Paper>
+  );
+};
+
+export default CrossFieldRuleEditor;
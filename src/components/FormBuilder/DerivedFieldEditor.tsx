@@ -20,6 +20,7 @@ import AddIcon from '@mui/icons-material/Add';
 import DeleteIcon from '@mui/icons-material/Delete';
 import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
 import type { DerivedFieldConfig, FormField } from '../../types';
+import { DerivedFieldCalculator } from '../../services';
 
 interface DerivedFieldEditorProps {
   derivedConfig?: DerivedFieldConfig;
@@ -100,13 +101,19 @@ const DerivedFieldEditor: React.FC<DerivedFieldEditorProps> = ({
     return field ? field.label : fieldId;
   };
 
+  const variableNames = DerivedFieldCalculator.getVariableNames(parentFields, availableFields);
+
   const generateVariableNames = () => {
-    return parentFields.map(fieldId => {
-      const field = availableFields.find(f => f.id === fieldId);
-      return field ? `${field.label.toLowerCase().replace(/\s+/g, '_')}` : fieldId;
-    });
+    return parentFields.map(fieldId => variableNames[fieldId][0] || fieldId);
   };
 
+  const syntaxCheck = computationLogic.trim()
+    ? DerivedFieldCalculator.validateExpressionSyntax(
+        computationLogic,
+        Object.values(variableNames).flat()
+      )
+    : { isValid: true };
+
   const getExampleExpressions = () => {
     if (parentFields.length === 0) return [];
     
@@ -124,6 +131,16 @@ const DerivedFieldEditor: React.FC<DerivedFieldEditorProps> = ({
       examples.push(`${variables[0]} > 100 ? 'High' : 'Low'`);
       examples.push(`${variables[0]}.toUpperCase()`);
     }
+
+    const dateFieldIndex = parentFields.findIndex(
+      fieldId => availableFields.find(f => f.id === fieldId)?.type === 'date'
+    );
+    if (dateFieldIndex !== -1) {
+      const dateVariable = variables[dateFieldIndex];
+      examples.push(`age(${dateVariable})`);
+      examples.push(`daysBetween(${dateVariable}, today())`);
+      examples.push(`formatDate(addDays(${dateVariable}, 30), 'D MMM YYYY')`);
+    }
     
     return examples;
   };
@@ -213,25 +230,63 @@ const DerivedFieldEditor: React.FC<DerivedFieldEditorProps> = ({
                   Computation Logic
                 </Typography>
                 <Typography variant="caption" color="text.secondary" display="block" sx={{ mb: 1 }}>
-                  Enter a JavaScript expression to compute the field value
+                  Enter an expression to compute the field value. Supports arithmetic, comparisons,
+                  {' condition ? a : b'}, text joining with + and the functions listed below.
                 </Typography>
                 
                 <TextField
                   fullWidth
                   multiline
                   rows={3}
-                  label="JavaScript Expression"
+                  label="Expression"
                   value={computationLogic}
                   onChange={(e) => handleComputationLogicChange(e.target.value)}
                   placeholder="e.g., field1 + field2"
-                  helperText="Use parent field names as variables in your expression"
+                  error={!syntaxCheck.isValid}
+                  helperText={syntaxCheck.error || 'Use parent field names as variables in your expression'}
+                  inputProps={{ style: { fontFamily: 'monospace' } }}
                 />
 
+                {!syntaxCheck.isValid && syntaxCheck.position && (
+                  <Typography
+                    variant="caption"
+                    component="pre"
+                    sx={{
+                      fontFamily: 'monospace',
+                      whiteSpace: 'pre-wrap',
+                      wordBreak: 'break-all',
+                      backgroundColor: 'grey.100',
+                      p: 1,
+                      mt: 1,
+                      borderRadius: 0.5,
+                    }}
+                  >
+                    {computationLogic.slice(0, syntaxCheck.position.start)}
+                    <Box
+                      component="span"
+                      sx={{
+                        color: 'error.main',
+                        fontWeight: 'bold',
+                        textDecoration: 'underline wavy',
+                      }}
+                    >
+                      {/* Keep the marker visible when the error is at the end of the expression */}
+                      {computationLogic.slice(syntaxCheck.position.start, syntaxCheck.position.end) || '\u00a0'}
+                    </Box>
+                    {computationLogic.slice(syntaxCheck.position.end)}
+                  </Typography>
+                )}
+
                 {parentFields.length > 0 && (
                   <Box sx={{ mt: 2 }}>
                     <Typography variant="caption" color="text.secondary" display="block">
                       Available variables: {generateVariableNames().join(', ')}
                     </Typography>
+                    {Object.entries(DerivedFieldCalculator.getAvailableFunctions()).map(([category, functions]) => (
+                      <Typography key={category} variant="caption" color="text.secondary" display="block">
+                        {category} functions: {functions.join(', ')}
+                      </Typography>
+                    ))}
                     
                     {getExampleExpressions().length > 0 && (
                       <Box sx={{ mt: 1 }}>
@@ -252,7 +307,7 @@ const DerivedFieldEditor: React.FC<DerivedFieldEditorProps> = ({
                               cursor: 'pointer',
                               '&:hover': { backgroundColor: 'grey.200' }
                             }}
-                            onClick={() => setComputationLogic(example)}
+                            onClick={() => handleComputationLogicChange(example)}
                           >
                             {example}
                           </Typography>
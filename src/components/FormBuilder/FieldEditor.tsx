@@ -11,15 +11,19 @@ import {
   FormControlLabel,
   Switch,
   Typography,
+  Button,
+  Fade,
+  Zoom,
   Chip,
   IconButton,
-  Button,
 } from '@mui/material';
-import AddIcon from '@mui/icons-material/Add';
-import DeleteIcon from '@mui/icons-material/Delete';
+import { Save, Cancel, Add, Delete } from '@mui/icons-material';
 import type { FormField } from '../../types';
+import { FeedbackButton } from '../common';
+import { useNotification } from '../../contexts';
 import ValidationRuleEditor from './ValidationRuleEditor';
 import DerivedFieldEditor from './DerivedFieldEditor';
+import VisibilityConditionEditor from './VisibilityConditionEditor';
 
 interface FieldEditorProps {
   field?: FormField;
@@ -39,6 +43,7 @@ const FIELD_TYPES = [
 ] as const;
 
 const FieldEditor: React.FC<FieldEditorProps> = ({ field, onSave, onCancel, availableFields = [] }) => {
+  const { showSuccess, showError } = useNotification();
   const [fieldData, setFieldData] = useState<FormField>(() => ({
     id: field?.id || `field-${Date.now()}`,
     type: field?.type || 'text',
@@ -48,15 +53,18 @@ const FieldEditor: React.FC<FieldEditorProps> = ({ field, onSave, onCancel, avai
     options: field?.options || [],
     validation: field?.validation || [],
     derivedFrom: field?.derivedFrom,
+    visibleWhen: field?.visibleWhen,
+    pageId: field?.pageId,
   }));
-
+  const [hasChanges, setHasChanges] = useState(false);
   const [newOption, setNewOption] = useState('');
 
-  const handleFieldChange = (key: keyof FormField, value: any) => {
+  const handleFieldChange = <K extends keyof FormField>(key: K, value: FormField[K]) => {
     setFieldData(prev => ({
       ...prev,
       [key]: value,
     }));
+    setHasChanges(true);
   };
 
   const handleAddOption = () => {
@@ -66,6 +74,7 @@ const FieldEditor: React.FC<FieldEditorProps> = ({ field, onSave, onCancel, avai
         options: [...(prev.options || []), newOption.trim()],
       }));
       setNewOption('');
+      setHasChanges(true);
     }
   };
 
@@ -74,16 +83,40 @@ const FieldEditor: React.FC<FieldEditorProps> = ({ field, onSave, onCancel, avai
       ...prev,
       options: prev.options?.filter((_, i) => i !== index) || [],
     }));
+    setHasChanges(true);
   };
 
-  const handleSave = () => {
+  const needsOptions = fieldData.type === 'select' || fieldData.type === 'radio' || fieldData.type === 'checkbox';
+
+  const handleSave = async () => {
     if (!fieldData.label.trim()) {
-      return; // Basic validation - label is required
+      showError('Field label is required');
+      return;
+    }
+    
+    if (needsOptions && (!fieldData.options || fieldData.options.length === 0)) {
+      showError(`At least one option is required for ${fieldData.type} fields`);
+      return;
+    }
+    
+    try {
+      // Simulate async operation for better UX
+      await new Promise(resolve => setTimeout(resolve, 300));
+      onSave(fieldData);
+      showSuccess(field ? 'Field updated successfully!' : 'Field added successfully!');
+      setHasChanges(false);
+    } catch {
+      showError('Failed to save field. Please try again.');
     }
-    onSave(fieldData);
   };
 
-  const needsOptions = fieldData.type === 'select' || fieldData.type === 'radio';
+  const handleCancel = () => {
+    if (hasChanges) {
+      // Could add confirmation dialog here in the future
+      setHasChanges(false);
+    }
+    onCancel();
+  };
 
   return (
     <Card sx={{ mb: 2 }}>
@@ -94,108 +127,207 @@ const FieldEditor: React.FC<FieldEditorProps> = ({ field, onSave, onCancel, avai
 
         <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
           {/* Field Type Selection */}
-          <FormControl fullWidth>
-            <InputLabel>Field Type</InputLabel>
-            <Select
-              value={fieldData.type}
-              label="Field Type"
-              onChange={(e) => handleFieldChange('type', e.target.value)}
+          <Zoom in timeout={200}>
+            <FormControl 
+              fullWidth
+              sx={{
+                '& .MuiOutlinedInput-root': {
+                  transition: 'all 0.2s ease-in-out',
+                  '&:hover': {
+                    boxShadow: 1,
+                  },
+                  '&.Mui-focused': {
+                    boxShadow: 2,
+                  },
+                },
+              }}
             >
-              {FIELD_TYPES.map((type) => (
-                <MenuItem key={type.value} value={type.value}>
-                  {type.label}
-                </MenuItem>
-              ))}
-            </Select>
-          </FormControl>
+              <InputLabel>Field Type</InputLabel>
+              <Select
+                value={fieldData.type}
+                label="Field Type"
+                onChange={(e) => handleFieldChange('type', e.target.value)}
+              >
+                {FIELD_TYPES.map((type) => (
+                  <MenuItem 
+                    key={type.value} 
+                    value={type.value}
+                    sx={{
+                      transition: 'all 0.15s ease-in-out',
+                      '&:hover': {
+                        backgroundColor: 'action.hover',
+                        transform: 'translateX(4px)',
+                      },
+                    }}
+                  >
+                    {type.label}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Zoom>
 
           {/* Field Label */}
-          <TextField
-            fullWidth
-            label="Field Label"
-            value={fieldData.label}
-            onChange={(e) => handleFieldChange('label', e.target.value)}
-            required
-            error={!fieldData.label.trim()}
-            helperText={!fieldData.label.trim() ? 'Label is required' : ''}
-          />
-
-          {/* Required Toggle */}
-          <FormControlLabel
-            control={
-              <Switch
-                checked={fieldData.required}
-                onChange={(e) => handleFieldChange('required', e.target.checked)}
-              />
-            }
-            label="Required Field"
-          />
-
-          {/* Default Value */}
-          {fieldData.type !== 'checkbox' && (
+          <Zoom in timeout={300}>
             <TextField
               fullWidth
-              label="Default Value"
-              value={fieldData.defaultValue || ''}
-              onChange={(e) => handleFieldChange('defaultValue', e.target.value)}
-              type={fieldData.type === 'number' ? 'number' : 'text'}
-              multiline={fieldData.type === 'textarea'}
-              rows={fieldData.type === 'textarea' ? 3 : 1}
+              label="Field Label"
+              value={fieldData.label}
+              onChange={(e) => handleFieldChange('label', e.target.value)}
+              required
+              error={!fieldData.label.trim()}
+              helperText={!fieldData.label.trim() ? 'Label is required' : ''}
+              sx={{
+                '& .MuiOutlinedInput-root': {
+                  transition: 'all 0.2s ease-in-out',
+                  '&:hover': {
+                    boxShadow: 1,
+                  },
+                  '&.Mui-focused': {
+                    boxShadow: 2,
+                  },
+                },
+                '& .MuiInputLabel-root': {
+                  transition: 'all 0.2s ease-in-out',
+                },
+              }}
             />
-          )}
+          </Zoom>
 
-          {/* Checkbox Default Value */}
-          {fieldData.type === 'checkbox' && (
+          {/* Required Toggle */}
+          <Zoom in timeout={400}>
             <FormControlLabel
               control={
                 <Switch
-                  checked={Boolean(fieldData.defaultValue)}
-                  onChange={(e) => handleFieldChange('defaultValue', e.target.checked)}
+                  checked={fieldData.required}
+                  onChange={(e) => handleFieldChange('required', e.target.checked)}
+                  sx={{
+                    '& .MuiSwitch-switchBase': {
+                      transition: 'all 0.2s ease-in-out',
+                      '&:hover': {
+                        backgroundColor: 'action.hover',
+                      },
+                    },
+                    '& .MuiSwitch-thumb': {
+                      transition: 'all 0.2s ease-in-out',
+                    },
+                  }}
                 />
               }
-              label="Default Checked"
+              label="Required Field"
+              sx={{
+                '& .MuiFormControlLabel-label': {
+                  transition: 'color 0.2s ease-in-out',
+                },
+                '&:hover .MuiFormControlLabel-label': {
+                  color: 'primary.main',
+                },
+              }}
             />
+          </Zoom>
+
+          {/* Default Value */}
+          {fieldData.type !== 'checkbox' && !fieldData.derivedFrom && (
+            <Zoom in timeout={450}>
+              <TextField
+                fullWidth
+                select={fieldData.type === 'select' || fieldData.type === 'radio'}
+                label="Default Value"
+                value={fieldData.defaultValue ?? ''}
+                onChange={(e) => handleFieldChange('defaultValue', e.target.value)}
+                type={fieldData.type === 'number' || fieldData.type === 'date' ? fieldData.type : 'text'}
+                multiline={fieldData.type === 'textarea'}
+                rows={fieldData.type === 'textarea' ? 3 : undefined}
+                InputLabelProps={fieldData.type === 'date' ? { shrink: true } : undefined}
+              >
+                <MenuItem value="">
+                  <em>None</em>
+                </MenuItem>
+                {fieldData.options?.map(option => (
+                  <MenuItem key={option} value={option}>
+                    {option}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Zoom>
           )}
 
           {/* Options for Select and Radio */}
           {needsOptions && (
-            <Box>
-              <Typography variant="subtitle2" gutterBottom>
-                Options
-              </Typography>
-              <Box sx={{ display: 'flex', gap: 1, mb: 1 }}>
-                <TextField
-                  size="small"
-                  label="Add Option"
-                  value={newOption}
-                  onChange={(e) => setNewOption(e.target.value)}
-                  onKeyPress={(e) => {
-                    if (e.key === 'Enter') {
-                      e.preventDefault();
-                      handleAddOption();
-                    }
-                  }}
-                />
-                <IconButton onClick={handleAddOption} color="primary">
-                  <AddIcon />
-                </IconButton>
-              </Box>
-              <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
-                {fieldData.options?.map((option, index) => (
-                  <Chip
-                    key={index}
-                    label={option}
-                    onDelete={() => handleRemoveOption(index)}
-                    deleteIcon={<DeleteIcon />}
+            <Zoom in timeout={500}>
+              <Box>
+                <Typography variant="subtitle2" gutterBottom sx={{ fontWeight: 600 }}>
+                  Options
+                </Typography>
+                <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+                  <TextField
+                    size="small"
+                    label="Add Option"
+                    value={newOption}
+                    onChange={(e) => setNewOption(e.target.value)}
+                    onKeyPress={(e) => {
+                      if (e.key === 'Enter') {
+                        e.preventDefault();
+                        handleAddOption();
+                      }
+                    }}
+                    sx={{
+                      flex: 1,
+                      '& .MuiOutlinedInput-root': {
+                        transition: 'all 0.2s ease-in-out',
+                        '&:hover': {
+                          boxShadow: 1,
+                        },
+                        '&.Mui-focused': {
+                          boxShadow: 2,
+                        },
+                      },
+                    }}
                   />
-                ))}
+                  <IconButton 
+                    onClick={handleAddOption} 
+                    color="primary"
+                    disabled={!newOption.trim()}
+                    sx={{
+                      transition: 'all 0.2s ease-in-out',
+                      '&:hover': {
+                        transform: 'scale(1.1)',
+                        boxShadow: 2,
+                      },
+                    }}
+                  >
+                    <Add />
+                  </IconButton>
+                </Box>
+                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, minHeight: '40px' }}>
+                  {fieldData.options?.map((option, index) => (
+                    <Chip
+                      key={index}
+                      label={option}
+                      onDelete={() => handleRemoveOption(index)}
+                      deleteIcon={<Delete />}
+                      sx={{
+                        transition: 'all 0.2s ease-in-out',
+                        '&:hover': {
+                          transform: 'translateY(-1px)',
+                          boxShadow: 2,
+                        },
+                      }}
+                    />
+                  ))}
+                  {(!fieldData.options || fieldData.options.length === 0) && (
+                    <Typography variant="body2" color="text.secondary" sx={{ py: 1 }}>
+                      No options added yet. Add options above.
+                    </Typography>
+                  )}
+                </Box>
+                {needsOptions && (!fieldData.options || fieldData.options.length === 0) && (
+                  <Typography variant="caption" color="error" sx={{ mt: 1, display: 'block' }}>
+                    At least one option is required for {fieldData.type} fields
+                  </Typography>
+                )}
               </Box>
-              {needsOptions && (!fieldData.options || fieldData.options.length === 0) && (
-                <Typography variant="caption" color="error">
-                  At least one option is required for {fieldData.type} fields
-                </Typography>
-              )}
-            </Box>
+            </Zoom>
           )}
 
           {/* Validation Rules */}
@@ -203,6 +335,8 @@ const FieldEditor: React.FC<FieldEditorProps> = ({ field, onSave, onCancel, avai
             validationRules={fieldData.validation || []}
             onChange={(rules) => handleFieldChange('validation', rules)}
             fieldType={fieldData.type}
+            availableFields={availableFields}
+            currentFieldId={fieldData.id}
           />
 
           {/* Derived Field Configuration */}
@@ -213,22 +347,50 @@ const FieldEditor: React.FC<FieldEditorProps> = ({ field, onSave, onCancel, avai
             currentFieldId={fieldData.id}
           />
 
+          {/* Conditional Visibility */}
+          <VisibilityConditionEditor
+            condition={fieldData.visibleWhen}
+            onChange={(condition) => handleFieldChange('visibleWhen', condition)}
+            availableFields={availableFields}
+            currentFieldId={fieldData.id}
+          />
+
           {/* Action Buttons */}
-          <Box sx={{ display: 'flex', gap: 1, justifyContent: 'flex-end', mt: 2 }}>
-            <Button variant="outlined" onClick={onCancel}>
-              Cancel
-            </Button>
-            <Button
-              variant="contained"
-              onClick={handleSave}
-              disabled={
-                !fieldData.label.trim() ||
-                (needsOptions && (!fieldData.options || fieldData.options.length === 0))
-              }
-            >
-              {field ? 'Update Field' : 'Add Field'}
-            </Button>
-          </Box>
+          <Fade in timeout={300}>
+            <Box sx={{ display: 'flex', gap: 1, justifyContent: 'flex-end', mt: 2 }}>
+              <Button 
+                variant="outlined" 
+                onClick={handleCancel}
+                startIcon={<Cancel />}
+                sx={{
+                  transition: 'all 0.2s ease-in-out',
+                  '&:hover': {
+                    transform: 'translateY(-1px)',
+                    boxShadow: 2,
+                  },
+                }}
+              >
+                Cancel
+              </Button>
+              <FeedbackButton
+                variant="contained"
+                onClick={handleSave}
+                disabled={!fieldData.label.trim()}
+                startIcon={<Save />}
+                loadingText={field ? 'Updating...' : 'Adding...'}
+                successText={field ? 'Updated!' : 'Added!'}
+                sx={{
+                  transition: 'all 0.2s ease-in-out',
+                  '&:hover': {
+                    transform: 'translateY(-1px)',
+                    boxShadow: 4,
+                  },
+                }}
+              >
+                {field ? 'Update Field' : 'Add Field'}
+              </FeedbackButton>
+            </Box>
+          </Fade>
         </Box>
       </CardContent>
     </Card>
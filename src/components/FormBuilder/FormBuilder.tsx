@@ -1,4 +1,5 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import {
   Typography,
   Box,
@@ -19,6 +20,8 @@ import {
   useMediaQuery,
   Stack,
   Paper,
+  Tooltip,
+  Alert,
 } from '@mui/material';
 import AddIcon from '@mui/icons-material/Add';
 import EditIcon from '@mui/icons-material/Edit';
@@ -26,6 +29,11 @@ import DeleteIcon from '@mui/icons-material/Delete';
 import DragIndicatorIcon from '@mui/icons-material/DragIndicator';
 import SaveIcon from '@mui/icons-material/Save';
 import Visibility from '@mui/icons-material/Visibility';
+import FileCopyIcon from '@mui/icons-material/FileCopy';
+import ContentCopyIcon from '@mui/icons-material/ContentCopy';
+import NoteAddIcon from '@mui/icons-material/NoteAdd';
+import UndoIcon from '@mui/icons-material/Undo';
+import RedoIcon from '@mui/icons-material/Redo';
 import {
   DndContext,
   closestCenter,
@@ -33,6 +41,7 @@ import {
   PointerSensor,
   useSensor,
   useSensors,
+  useDroppable,
   type DragEndEvent,
 } from '@dnd-kit/core';
 import {
@@ -45,12 +54,21 @@ import {
   useSortable,
 } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
-import type { FormField, FormSchema } from '../../types';
-import { LocalStorageService } from '../../services';
+import type { CrossFieldRule, FormDraft, FormField, FormPage, FormSchema } from '../../types';
+import {
+  DerivedFieldCalculator,
+  DraftStorageService,
+  FormCloneService,
+  FormPageService,
+  FormSchemaValidator,
+  type SchemaProblem,
+} from '../../services';
 import { ResponsiveLayout, FeedbackButton } from '../common';
-import { useNotification, useLoading } from '../../contexts';
+import { useNotification, useLoading, useFormRepository } from '../../contexts';
 import { ErrorHandler } from '../../utils/errorHandler';
-import SimpleFieldEditor from './SimpleFieldEditor';
+import { useUndoableState, useFormSync } from '../../hooks';
+import FieldEditor from './FieldEditor';
+import CrossFieldRuleEditor from './CrossFieldRuleEditor';
 
 // Sortable Field Item Component
 interface SortableFieldItemProps {
@@ -127,6 +145,9 @@ const SortableFieldItem: React.FC<SortableFieldItemProps> = ({
             {field.derivedFrom && (
               <Chip label="Derived" size="small" color="secondary" />
             )}
+            {field.visibleWhen && (
+              <Chip label="Conditional" size="small" color="info" variant="outlined" />
+            )}
           </Box>
         }
         secondary={
@@ -165,28 +186,335 @@ const SortableFieldItem: React.FC<SortableFieldItemProps> = ({
   );
 };
 
-const FormBuilder: React.FC = () => {
+interface FormBuilderProps {
+  initialSchema?: FormSchema;
+  // Draft to restore straight away, e.g. when continuing a draft from My Forms
+  restoreDraftId?: string;
+}
+
+// Delay between the last change and the draft being written to storage
+const AUTOSAVE_DELAY_MS = 1000;
+
+const formatDraftTime = (date: Date): string => {
+  const isToday = new Date(date).toDateString() === new Date().toDateString();
+  return new Intl.DateTimeFormat('en-US', isToday
+    ? { hour: '2-digit', minute: '2-digit' }
+    : { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' }
+  ).format(new Date(date));
+};
+
+/**
+ * Read the draft requested to be restored straight away, if it belongs to the form being opened
+ */
+const findRequestedDraft = (restoreDraftId?: string, initialSchema?: FormSchema): FormDraft | null => {
+  if (!restoreDraftId) {
+    return null;
+  }
+  try {
+    const draft = DraftStorageService.getDraft(restoreDraftId);
+    return draft && (!initialSchema || draft.formId === initialSchema.id) ? draft : null;
+  } catch (error) {
+    console.error('Error restoring draft:', error);
+    return null;
+  }
+};
+
+/**
+ * Find a stored draft worth offering for the form being opened
+ */
+const findDraftToRestore = (initialSchema?: FormSchema): FormDraft | null => {
+  try {
+    if (initialSchema) {
+      const draft = DraftStorageService.getDraft(initialSchema.id);
+      const lastSaved = new Date(initialSchema.updatedAt || initialSchema.createdAt).getTime();
+      return draft &&
+        draft.savedAt.getTime() > lastSaved &&
+        getSchemaSnapshot(draft.schema) !== getSchemaSnapshot(initialSchema)
+        ? draft
+        : null;
+    }
+    // A fresh builder offers the latest draft of a form that was never saved
+    return DraftStorageService.getDrafts().find(draft => draft.isNewForm) || null;
+  } catch (error) {
+    console.error('Error loading drafts:', error);
+    return null;
+  }
+};
+
+const createEmptySchema = (): FormSchema => ({
+  id: `form-${Date.now()}`,
+  name: '',
+  createdAt: new Date(),
+  fields: [],
+});
+
+/**
+ * Serialize the user-editable parts of a schema so unsaved changes can be detected
+ */
+const getSchemaSnapshot = (schema: FormSchema): string =>
+  JSON.stringify({ name: schema.name, fields: schema.fields, pages: schema.pages, crossFieldRules: schema.crossFieldRules });
+
+// Droppable id prefix for page containers, so fields can be dropped onto empty pages
+const PAGE_DROP_PREFIX = 'page-drop:';
+
+// Page Section Component
+interface PageSectionProps {
+  page: FormPage;
+  index: number;
+  fieldCount: number;
+  canRemove: boolean;
+  isEditing: boolean;
+  onChange: (page: FormPage) => void;
+  onRemove: (page: FormPage) => void;
+  onAddField: (pageId: string) => void;
+  children: React.ReactNode;
+}
+
+const PageSection: React.FC<PageSectionProps> = ({
+  page,
+  index,
+  fieldCount,
+  canRemove,
+  isEditing,
+  onChange,
+  onRemove,
+  onAddField,
+  children,
+}) => {
+  // Non-empty pages accept drops through their field items instead
+  const { setNodeRef, isOver } = useDroppable({
+    id: `${PAGE_DROP_PREFIX}${page.id}`,
+    disabled: fieldCount > 0,
+  });
+
+  return (
+    <Card elevation={2}>
+      <Box
+        sx={{
+          display: 'flex',
+          alignItems: 'flex-start',
+          gap: 1,
+          px: 2,
+          pt: 2,
+          pb: 1,
+          borderBottom: '1px solid',
+          borderColor: 'divider',
+        }}
+      >
+        <Chip label={`Page ${index + 1}`} size="small" color="primary" sx={{ mt: 0.5 }} />
+        <Box sx={{ flex: 1, display: 'flex', flexDirection: 'column', gap: 0.5 }}>
+          <TextField
+            variant="standard"
+            placeholder="Page title"
+            value={page.title}
+            onChange={(e) => onChange({ ...page, title: e.target.value })}
+            disabled={isEditing}
+            fullWidth
+            inputProps={{ 'aria-label': `Title of page ${index + 1}` }}
+          />
+          <TextField
+            variant="standard"
+            placeholder="Description (optional)"
+            value={page.description || ''}
+            onChange={(e) => onChange({ ...page, description: e.target.value || undefined })}
+            disabled={isEditing}
+            fullWidth
+            size="small"
+            inputProps={{ 'aria-label': `Description of page ${index + 1}` }}
+          />
+        </Box>
+        <Tooltip title="Add field to this page">
+          <span>
+            <IconButton onClick={() => onAddField(page.id)} disabled={isEditing} color="primary">
+              <AddIcon />
+            </IconButton>
+          </span>
+        </Tooltip>
+        {canRemove && (
+          <Tooltip title="Remove page (fields move to the previous page)">
+            <span>
+              <IconButton onClick={() => onRemove(page)} disabled={isEditing} color="error">
+                <DeleteIcon />
+              </IconButton>
+            </span>
+          </Tooltip>
+        )}
+      </Box>
+      {fieldCount === 0 ? (
+        <Box
+          ref={setNodeRef}
+          sx={{
+            p: 3,
+            textAlign: 'center',
+            backgroundColor: isOver ? 'action.hover' : 'transparent',
+            transition: 'background-color 0.2s ease-in-out',
+          }}
+        >
+          <Typography variant="body2" color="text.secondary">
+            Drag fields here or add a new one
+          </Typography>
+        </Box>
+      ) : children}
+    </Card>
+  );
+};
+
+const FormBuilder: React.FC<FormBuilderProps> = ({ initialSchema, restoreDraftId }) => {
   const theme = useTheme();
+  const navigate = useNavigate();
   const isMobile = useMediaQuery(theme.breakpoints.down('md'));
   const { showSuccess, showError } = useNotification();
   const { withLoading } = useLoading();
+  const formRepository = useFormRepository();
 
-  const [formSchema, setFormSchema] = useState<FormSchema>({
-    id: `form-${Date.now()}`,
-    name: '',
-    createdAt: new Date(),
-    fields: [],
-  });
+  // Drafts are only looked up when the builder is opened
+  const [restoredDraft] = useState(() => findRequestedDraft(restoreDraftId, initialSchema));
+
+  const {
+    state: formSchema,
+    setState: setFormSchema,
+    undo,
+    redo,
+    reset: resetHistory,
+    canUndo,
+    canRedo,
+  } = useUndoableState<FormSchema>(() => restoredDraft?.schema || initialSchema || createEmptySchema());
+
+  // Snapshot of the last loaded/saved schema, used to track unsaved changes
+  const [savedSnapshot, setSavedSnapshot] = useState(() => getSchemaSnapshot(initialSchema || createEmptySchema()));
+  const [isPersisted, setIsPersisted] = useState(Boolean(initialSchema));
+  const hasUnsavedChanges = getSchemaSnapshot(formSchema) !== savedSnapshot;
+
+  // Autosaved drafts
+  const [pendingDraft, setPendingDraft] = useState<FormDraft | null>(() =>
+    restoredDraft ? null : findDraftToRestore(initialSchema)
+  );
+  const [draftSavedAt, setDraftSavedAt] = useState<Date | null>(() => restoredDraft?.savedAt ?? null);
 
   const [isEditing, setIsEditing] = useState(false);
   const [editingField, setEditingField] = useState<FormField | undefined>();
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [fieldToDelete, setFieldToDelete] = useState<FormField | null>(null);
+  const [targetPageId, setTargetPageId] = useState<string | undefined>();
 
   // Save form state
   const [saveDialogOpen, setSaveDialogOpen] = useState(false);
   const [formName, setFormName] = useState('');
   const [formNameError, setFormNameError] = useState('');
+  const [schemaWarnings, setSchemaWarnings] = useState<SchemaProblem[]>([]);
+
+  // Saved copy of this form as changed by another tab; null schema means it was deleted there
+  const [remoteChange, setRemoteChange] = useState<{ schema: FormSchema | null } | null>(null);
+
+  // Autosave unsaved changes as a draft once editing pauses
+  useEffect(() => {
+    // Keep an offered draft of this same form until the user decides on it
+    if (pendingDraft?.formId === formSchema.id) return;
+
+    if (!hasUnsavedChanges) {
+      // Back to the saved state (e.g. after undo), so the draft is no longer needed
+      if (draftSavedAt) {
+        try {
+          DraftStorageService.deleteDraft(formSchema.id);
+        } catch (error) {
+          console.error('Error removing draft:', error);
+        }
+        setDraftSavedAt(null);
+      }
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      try {
+        const draft = DraftStorageService.saveDraft(formSchema, !isPersisted);
+        setDraftSavedAt(draft.savedAt);
+      } catch (error) {
+        console.error('Error autosaving draft:', error);
+      }
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [formSchema, hasUnsavedChanges, isPersisted, pendingDraft, draftSavedAt]);
+
+  // Warn when the form being edited is saved or deleted in another tab
+  useFormSync(async change => {
+    if (!isPersisted || (change.formId && change.formId !== formSchema.id)) return;
+    try {
+      const saved = await formRepository.getForm(formSchema.id);
+      if (!saved) {
+        setRemoteChange({ schema: null });
+      } else if ((saved.version || 1) !== (formSchema.version || 1) || getSchemaSnapshot(saved) !== savedSnapshot) {
+        setRemoteChange({ schema: saved });
+      }
+    } catch (error) {
+      console.error('Error checking for changes from another tab:', error);
+    }
+  });
+
+  const handleLoadRemoteChange = () => {
+    if (!remoteChange?.schema) return;
+    resetHistory(remoteChange.schema);
+    setSavedSnapshot(getSchemaSnapshot(remoteChange.schema));
+    setRemoteChange(null);
+    showSuccess('Loaded the latest saved version');
+  };
+
+  const handleRestoreDraft = () => {
+    if (!pendingDraft) return;
+    resetHistory(pendingDraft.schema);
+    setDraftSavedAt(pendingDraft.savedAt);
+    setPendingDraft(null);
+    showSuccess('Draft restored');
+  };
+
+  const handleDiscardDraft = () => {
+    if (!pendingDraft) return;
+    try {
+      DraftStorageService.deleteDraft(pendingDraft.formId);
+    } catch (error) {
+      showError(ErrorHandler.getDetailedMessage(error));
+    }
+    setPendingDraft(null);
+  };
+
+  // Warn before leaving the page with unsaved changes
+  useEffect(() => {
+    if (!hasUnsavedChanges) return;
+
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = '';
+    };
+
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [hasUnsavedChanges]);
+
+  // Undo/redo shortcuts; text inputs keep their native undo behaviour
+  useEffect(() => {
+    if (isEditing || deleteDialogOpen || saveDialogOpen) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) {
+        return;
+      }
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isEditing, deleteDialogOpen, saveDialogOpen, undo, redo]);
 
   // Drag and drop sensors
   const sensors = useSensors(
@@ -196,8 +524,9 @@ const FormBuilder: React.FC = () => {
     })
   );
 
-  const handleAddField = () => {
+  const handleAddField = (pageId?: string) => {
     setEditingField(undefined);
+    setTargetPageId(pageId);
     setIsEditing(true);
   };
 
@@ -210,15 +539,24 @@ const FormBuilder: React.FC = () => {
     setFormSchema(prev => {
       const existingIndex = prev.fields.findIndex(f => f.id === field.id);
       if (existingIndex >= 0) {
-        // Update existing field
+        // Update existing field, keeping it on its page
+        const previous = prev.fields[existingIndex];
         const updatedFields = [...prev.fields];
-        updatedFields[existingIndex] = field;
-        return { ...prev, fields: updatedFields };
+        updatedFields[existingIndex] = { ...field, pageId: previous.pageId };
+        // Expressions reference parents by label, so follow a renamed label
+        return {
+          ...prev,
+          fields: DerivedFieldCalculator.renameLabelReferences(updatedFields, field.id, previous.label),
+        };
       } else {
-        // Add new field
-        return { ...prev, fields: [...prev.fields, field] };
+        // Add new field to the requested page, or the last page of a multi-page form
+        const pageId = prev.pages && prev.pages.length > 0
+          ? targetPageId || prev.pages[prev.pages.length - 1].id
+          : undefined;
+        return { ...prev, fields: [...prev.fields, { ...field, pageId }] };
       }
     });
+    setTargetPageId(undefined);
     setIsEditing(false);
     setEditingField(undefined);
   };
@@ -238,6 +576,10 @@ const FormBuilder: React.FC = () => {
       setFormSchema(prev => ({
         ...prev,
         fields: prev.fields.filter(f => f.id !== fieldToDelete.id),
+        // Cross-field rules cannot work without both of their fields
+        crossFieldRules: prev.crossFieldRules?.filter(rule =>
+          rule.fieldId !== fieldToDelete.id && rule.otherFieldId !== fieldToDelete.id
+        ),
       }));
     }
     setDeleteDialogOpen(false);
@@ -255,16 +597,63 @@ const FormBuilder: React.FC = () => {
     if (over && active.id !== over.id) {
       setFormSchema(prev => {
         const oldIndex = prev.fields.findIndex(field => field.id === active.id);
-        const newIndex = prev.fields.findIndex(field => field.id === over.id);
+        if (oldIndex < 0) return prev;
+
+        // Dropped onto an empty page: move the field there
+        const overId = String(over.id);
+        if (overId.startsWith(PAGE_DROP_PREFIX)) {
+          const pageId = overId.slice(PAGE_DROP_PREFIX.length);
+          const movedField = { ...prev.fields[oldIndex], pageId };
+          return {
+            ...prev,
+            fields: [...prev.fields.filter((_, i) => i !== oldIndex), movedField],
+          };
+        }
+
+        const newIndex = prev.fields.findIndex(field => field.id === overId);
+        if (newIndex < 0) return prev;
 
+        // Dropping onto a field of another page moves the field to that page
+        const pageId = prev.pages ? FormPageService.getFieldPageId(prev, overId) : undefined;
         return {
           ...prev,
-          fields: arrayMove(prev.fields, oldIndex, newIndex),
+          fields: arrayMove(prev.fields, oldIndex, newIndex).map(field =>
+            field.id === active.id && prev.pages ? { ...field, pageId } : field
+          ),
         };
       });
     }
   };
 
+  // Page handlers
+  const handleAddPage = () => {
+    setFormSchema(prev => {
+      const withPages = FormPageService.enablePages(prev);
+      const pages = withPages.pages || [];
+      return {
+        ...withPages,
+        pages: [...pages, FormPageService.createPage(`Page ${pages.length + 1}`)],
+      };
+    });
+  };
+
+  const handlePageChange = (page: FormPage) => {
+    setFormSchema(prev => ({
+      ...prev,
+      pages: prev.pages?.map(p => p.id === page.id ? page : p),
+    }), `page-${page.id}`);
+  };
+
+  const handleRemovePage = (page: FormPage) => {
+    setFormSchema(prev => FormPageService.removePage(prev, page.id));
+  };
+
+  const handleCrossFieldRulesChange = (crossFieldRules: CrossFieldRule[]) => {
+    setFormSchema(prev => ({ ...prev, crossFieldRules }), 'cross-field-rules');
+  };
+
+  const hasPages = Boolean(formSchema.pages && formSchema.pages.length > 0);
+
   const getFieldTypeLabel = (type: FormField['type']) => {
     const typeLabels = {
       text: 'Text',
@@ -285,11 +674,23 @@ const FormBuilder: React.FC = () => {
       return;
     }
 
+    const problems = FormSchemaValidator.validate(formSchema);
+    const schemaErrors = FormSchemaValidator.getErrors(problems);
+    if (schemaErrors.length > 0) {
+      showError(`This form cannot be saved: ${schemaErrors.map(problem => problem.message).join('; ')}`);
+      return;
+    }
+    setSchemaWarnings(FormSchemaValidator.getWarnings(problems));
+
     setFormName(formSchema.name || '');
     setFormNameError('');
     setSaveDialogOpen(true);
   };
 
+  const handlePreviewForm = () => {
+    window.open(isPersisted ? `/preview/${formSchema.id}` : '/preview', '_blank');
+  };
+
   const handleSaveDialogClose = () => {
     setSaveDialogOpen(false);
     setFormName('');
@@ -306,7 +707,34 @@ const FormBuilder: React.FC = () => {
     }
   };
 
-  const handleConfirmSave = async () => {
+  /**
+   * Save a copy of the form as it is in the builder, unsaved changes included, and open it.
+   * The original keeps its saved version and autosaved draft.
+   */
+  const handleDuplicateForm = async () => {
+    try {
+      const [saved, forms] = await Promise.all([
+        formRepository.getForm(formSchema.id),
+        formRepository.getForms(),
+      ]);
+      const copy = FormCloneService.duplicate(
+        { ...formSchema, folder: saved?.folder, tags: saved?.tags },
+        FormCloneService.getCopyName(formSchema.name, forms.map(form => form.name))
+      );
+      await formRepository.saveForm(copy);
+      if (hasUnsavedChanges) {
+        // Keep the original's latest edits even if the autosave timer has not fired yet
+        DraftStorageService.saveDraft(formSchema, false);
+      }
+      navigate(`/edit/${copy.id}`);
+      showSuccess(`Created "${copy.name}"`);
+    } catch (error) {
+      console.error('Error duplicating form:', error);
+      showError(ErrorHandler.getDetailedMessage(error));
+    }
+  };
+
+  const handleConfirmSave = async (saveAsCopy = false) => {
     const trimmedName = formName.trim();
 
     // Validate form name
@@ -330,25 +758,48 @@ const FormBuilder: React.FC = () => {
         // Add a small delay for better UX
         await new Promise(resolve => setTimeout(resolve, 800));
 
-        const schemaToSave: FormSchema = {
-          ...formSchema,
-          name: trimmedName,
-          createdAt: new Date(),
-        };
+        // Folders and tags are managed from My Forms, so keep what is saved there now
+        const saved = isPersisted ? await formRepository.getForm(formSchema.id) : null;
+        const organization = saved ? { folder: saved.folder, tags: saved.tags } : {};
 
-        LocalStorageService.saveForm(schemaToSave);
+        const now = new Date();
+        const schemaToSave: FormSchema = saveAsCopy
+          ? FormCloneService.duplicate({ ...formSchema, ...organization }, trimmedName)
+          : {
+            ...formSchema,
+            ...organization,
+            name: trimmedName,
+            // Keep the original creation date when saving back an existing form
+            createdAt: isPersisted ? formSchema.createdAt : now,
+            updatedAt: now,
+            version: isPersisted ? (formSchema.version || 1) + 1 : 1,
+          };
 
-        // Update the current form schema with the saved name
-        setFormSchema(schemaToSave);
+        await formRepository.saveForm(schemaToSave);
+        DraftStorageService.deleteDraft(formSchema.id);
+        setDraftSavedAt(null);
 
         // Close dialog first for better UX
         setSaveDialogOpen(false);
         setFormName('');
         setFormNameError('');
 
+        if (saveAsCopy) {
+          // The copy is edited from its own route; the original stays untouched
+          navigate(`/edit/${schemaToSave.id}`);
+        } else {
+          // Update the current form schema with the saved name; saving starts a fresh history
+          resetHistory(schemaToSave);
+          setSavedSnapshot(getSchemaSnapshot(schemaToSave));
+          setIsPersisted(true);
+          setRemoteChange(null);
+        }
+
         // Show success message after dialog closes
         setTimeout(() => {
-          showSuccess(`Form "${trimmedName}" saved successfully!`);
+          showSuccess(saveAsCopy
+            ? `Copy "${trimmedName}" saved successfully!`
+            : `Form "${trimmedName}" saved successfully!`);
         }, 100);
       }, `Saving "${trimmedName}"...`);
 
@@ -371,9 +822,58 @@ const FormBuilder: React.FC = () => {
             color: 'text.primary',
           }}
         >
-          Form Builder
+          {isPersisted ? 'Edit Form' : 'Form Builder'}
+          {hasUnsavedChanges && (
+            <Chip
+              label="Unsaved changes"
+              size="small"
+              color="warning"
+              variant="outlined"
+              sx={{ ml: 2, verticalAlign: 'middle' }}
+            />
+          )}
+          {hasUnsavedChanges && draftSavedAt && (
+            <Typography
+              component="span"
+              variant="caption"
+              color="text.secondary"
+              sx={{ ml: 1, verticalAlign: 'middle' }}
+            >
+              Draft saved {formatDraftTime(draftSavedAt)}
+            </Typography>
+          )}
         </Typography>
 
+        <Stack direction="row" spacing={0.5} sx={{ ml: 'auto', mr: isMobile ? 1 : 0 }}>
+          <Tooltip title="Undo (Ctrl+Z)">
+            <span>
+              <IconButton onClick={undo} disabled={isEditing || !canUndo} aria-label="Undo">
+                <UndoIcon />
+              </IconButton>
+            </span>
+          </Tooltip>
+          <Tooltip title="Redo (Ctrl+Shift+Z)">
+            <span>
+              <IconButton onClick={redo} disabled={isEditing || !canRedo} aria-label="Redo">
+                <RedoIcon />
+              </IconButton>
+            </span>
+          </Tooltip>
+          {isPersisted && (
+            <Tooltip title={hasUnsavedChanges ? 'Duplicate form (includes unsaved changes)' : 'Duplicate form'}>
+              <span>
+                <IconButton
+                  onClick={handleDuplicateForm}
+                  disabled={isEditing || formSchema.fields.length === 0}
+                  aria-label="Duplicate form"
+                >
+                  <ContentCopyIcon />
+                </IconButton>
+              </span>
+            </Tooltip>
+          )}
+        </Stack>
+
         {/* Mobile action buttons */}
         {isMobile && (
           <Stack direction="row" spacing={1}>
@@ -391,17 +891,27 @@ const FormBuilder: React.FC = () => {
               variant="outlined"
               size="small"
               startIcon={<Visibility />}
-              onClick={() => window.open('/preview', '_blank')}
+              onClick={handlePreviewForm}
               disabled={isEditing || formSchema.fields.length === 0}
               sx={{ minWidth: 'auto', px: 2 }}
             >
               Preview
             </Button>
+            <Button
+              variant="outlined"
+              size="small"
+              startIcon={<NoteAddIcon />}
+              onClick={handleAddPage}
+              disabled={isEditing}
+              sx={{ minWidth: 'auto', px: 2 }}
+            >
+              Page
+            </Button>
             <Button
               variant="contained"
               size="small"
               startIcon={<AddIcon />}
-              onClick={handleAddField}
+              onClick={() => handleAddField()}
               disabled={isEditing}
               sx={{ minWidth: 'auto', px: 2 }}
             >
@@ -411,6 +921,48 @@ const FormBuilder: React.FC = () => {
         )}
       </Box>
 
+      {pendingDraft && (
+        <Alert
+          severity="info"
+          sx={{ mb: 2 }}
+          action={
+            <Stack direction="row" spacing={1}>
+              <Button color="inherit" size="small" onClick={handleDiscardDraft}>
+                Discard
+              </Button>
+              <Button color="inherit" size="small" variant="outlined" onClick={handleRestoreDraft}>
+                Restore
+              </Button>
+            </Stack>
+          }
+        >
+          You have an unsaved draft{pendingDraft.schema.name ? ` of "${pendingDraft.schema.name}"` : ''} from{' '}
+          {formatDraftTime(pendingDraft.savedAt)} — restore?
+        </Alert>
+      )}
+
+      {remoteChange && (
+        <Alert
+          severity="warning"
+          sx={{ mb: 2 }}
+          onClose={remoteChange.schema ? undefined : () => setRemoteChange(null)}
+          action={remoteChange.schema ? (
+            <Stack direction="row" spacing={1}>
+              <Button color="inherit" size="small" onClick={() => setRemoteChange(null)}>
+                Keep Editing
+              </Button>
+              <Button color="inherit" size="small" variant="outlined" onClick={handleLoadRemoteChange}>
+                {hasUnsavedChanges ? 'Discard Mine & Load' : 'Load Latest'}
+              </Button>
+            </Stack>
+          ) : undefined}
+        >
+          {remoteChange.schema
+            ? 'This form was saved in another tab. Saving here will overwrite those changes.'
+            : 'This form was deleted in another tab. Saving here will create it again.'}
+        </Alert>
+      )}
+
       <Box
         sx={{
           display: 'flex',
@@ -453,15 +1005,23 @@ const FormBuilder: React.FC = () => {
                 <Button
                   variant="outlined"
                   startIcon={<Visibility />}
-                  onClick={() => window.open('/preview', '_blank')}
+                  onClick={handlePreviewForm}
                   disabled={isEditing || formSchema.fields.length === 0}
                 >
                   Preview Form
                 </Button>
+                <Button
+                  variant="outlined"
+                  startIcon={<NoteAddIcon />}
+                  onClick={handleAddPage}
+                  disabled={isEditing}
+                >
+                  Add Page
+                </Button>
                 <Button
                   variant="contained"
                   startIcon={<AddIcon />}
-                  onClick={handleAddField}
+                  onClick={() => handleAddField()}
                   disabled={isEditing}
                 >
                   Add Field
@@ -470,7 +1030,49 @@ const FormBuilder: React.FC = () => {
             )}
           </Box>
 
-          {formSchema.fields.length === 0 ? (
+          {hasPages ? (
+            <DndContext
+              sensors={sensors}
+              collisionDetection={closestCenter}
+              onDragEnd={handleDragEnd}
+            >
+              <Stack spacing={2}>
+                {FormPageService.groupFieldsByPage(formSchema).map((group, pageIndex, groups) => (
+                  <PageSection
+                    key={group.page.id}
+                    page={group.page}
+                    index={pageIndex}
+                    fieldCount={group.fields.length}
+                    canRemove={groups.length > 1}
+                    isEditing={isEditing}
+                    onChange={handlePageChange}
+                    onRemove={handleRemovePage}
+                    onAddField={handleAddField}
+                  >
+                    <SortableContext
+                      items={group.fields.map(field => field.id)}
+                      strategy={verticalListSortingStrategy}
+                    >
+                      <List sx={{ p: 0 }}>
+                        {group.fields.map((field, index) => (
+                          <SortableFieldItem
+                            key={field.id}
+                            field={field}
+                            index={index}
+                            totalFields={group.fields.length}
+                            onEdit={handleEditField}
+                            onDelete={handleDeleteField}
+                            isEditing={isEditing}
+                            getFieldTypeLabel={getFieldTypeLabel}
+                          />
+                        ))}
+                      </List>
+                    </SortableContext>
+                  </PageSection>
+                ))}
+              </Stack>
+            </DndContext>
+          ) : formSchema.fields.length === 0 ? (
             <Paper
               elevation={0}
               sx={{
@@ -518,6 +1120,15 @@ const FormBuilder: React.FC = () => {
               </DndContext>
             </Card>
           )}
+
+          {formSchema.fields.length > 0 && (
+            <CrossFieldRuleEditor
+              rules={formSchema.crossFieldRules || []}
+              onChange={handleCrossFieldRulesChange}
+              fields={formSchema.fields}
+              disabled={isEditing}
+            />
+          )}
         </Box>
 
         {/* Right Panel - Field Editor */}
@@ -527,11 +1138,11 @@ const FormBuilder: React.FC = () => {
           display: isEditing ? 'block' : { xs: 'none', md: 'block' },
         }}>
           {isEditing ? (
-            <SimpleFieldEditor
+            <FieldEditor
               field={editingField}
               onSave={handleSaveField}
               onCancel={handleCancelEdit}
-              availableFields={formSchema.fields}
+              availableFields={formSchema.fields.filter(f => f.id !== editingField?.id)}
             />
           ) : (
             <Paper
@@ -596,8 +1207,24 @@ const FormBuilder: React.FC = () => {
         </DialogTitle>
         <DialogContent>
           <DialogContentText sx={{ mb: 2 }}>
-            Enter a name for your form. This will help you identify it later.
+            {isPersisted
+              ? 'Save your changes to this form, or save them as a new copy and leave the original unchanged.'
+              : 'Enter a name for your form. This will help you identify it later.'}
           </DialogContentText>
+          {schemaWarnings.length > 0 && (
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              <Typography variant="body2" sx={{ fontWeight: 500 }}>
+                The form can be saved, but some settings will be ignored:
+              </Typography>
+              <Box component="ul" sx={{ m: 0, pl: 2.5 }}>
+                {schemaWarnings.map(problem => (
+                  <li key={`${problem.path}-${problem.code}`}>
+                    <Typography variant="body2">{problem.message}</Typography>
+                  </li>
+                ))}
+              </Box>
+            </Alert>
+          )}
           <TextField
             autoFocus
             margin="dense"
@@ -618,8 +1245,20 @@ const FormBuilder: React.FC = () => {
           <Button onClick={handleSaveDialogClose}>
             Cancel
           </Button>
+          {isPersisted && (
+            <FeedbackButton
+              onClick={() => handleConfirmSave(true)}
+              variant="outlined"
+              disabled={!formName.trim()}
+              startIcon={<FileCopyIcon />}
+              loadingText="Saving..."
+              successText="Copied!"
+            >
+              Save as Copy
+            </FeedbackButton>
+          )}
           <FeedbackButton
-            onClick={handleConfirmSave}
+            onClick={() => handleConfirmSave()}
             variant="contained"
             disabled={!formName.trim()}
             startIcon={<SaveIcon />}
@@ -16,15 +16,34 @@ import {
   ListItemText,
   Divider,
   Alert,
+  Chip,
+  Stack,
+  ToggleButton,
+  ToggleButtonGroup,
+  FormGroup,
+  FormControlLabel,
+  Checkbox,
 } from '@mui/material';
 import AddIcon from '@mui/icons-material/Add';
 import DeleteIcon from '@mui/icons-material/Delete';
-import type { ValidationRule } from '../../types';
+import {
+  PATTERN_FLAGS,
+  PatternRuleService,
+  DateRuleService,
+  type PatternFlag,
+  PasswordPolicyService,
+  DEFAULT_PASSWORD_POLICY,
+  type DateOffsetUnit,
+  type ResolvedPasswordPolicy,
+} from '../../services';
+import type { FormField, PasswordPolicy, ValidationRule } from '../../types';
 
 interface ValidationRuleEditorProps {
   validationRules: ValidationRule[];
   onChange: (rules: ValidationRule[]) => void;
   fieldType: string;
+  availableFields?: FormField[];
+  currentFieldId?: string;
 }
 
 const VALIDATION_TYPES = [
@@ -33,16 +52,142 @@ const VALIDATION_TYPES = [
   { value: 'maxLength', label: 'Maximum Length', description: 'Maximum number of characters' },
   { value: 'email', label: 'Email Format', description: 'Must be a valid email address' },
   { value: 'customPassword', label: 'Custom Password', description: 'Custom password validation' },
+  { value: 'pattern', label: 'Pattern', description: 'Must match a regular expression, e.g. a postcode or SKU format' },
+  { value: 'min', label: 'Minimum Value', description: 'Smallest number allowed' },
+  { value: 'max', label: 'Maximum Value', description: 'Largest number allowed' },
+  { value: 'integer', label: 'Whole Number', description: 'No decimals allowed' },
+  { value: 'step', label: 'Step', description: 'Must go up in steps, counted from the minimum value' },
+  { value: 'decimalPlaces', label: 'Decimal Places', description: 'Maximum number of digits after the decimal point' },
+  { value: 'positive', label: 'Positive', description: 'Must be greater than 0' },
+  { value: 'negative', label: 'Negative', description: 'Must be less than 0' },
+  { value: 'minDate', label: 'Earliest Date', description: 'e.g. not in the past, or a fixed start date' },
+  { value: 'maxDate', label: 'Latest Date', description: 'e.g. at least 18 years ago, or a fixed end date' },
+  { value: 'noWeekends', label: 'No Weekends', description: 'Only Monday to Friday can be picked' },
+  { value: 'afterField', label: 'After Another Date', description: 'Must be later than another date field' },
 ] as const;
 
+// Rules that take a number, with the check for that number
+const NUMERIC_RULE_VALUES: Partial<Record<ValidationRule['type'], {
+  label: string;
+  isValid: (value: number) => boolean;
+  hint: string;
+  min?: number;
+}>> = {
+  minLength: { label: 'Minimum Length', isValid: value => Number.isInteger(value) && value > 0, hint: 'Please enter a positive whole number', min: 1 },
+  maxLength: { label: 'Maximum Length', isValid: value => Number.isInteger(value) && value > 0, hint: 'Please enter a positive whole number', min: 1 },
+  min: { label: 'Minimum Value', isValid: () => true, hint: 'Please enter a number' },
+  max: { label: 'Maximum Value', isValid: () => true, hint: 'Please enter a number' },
+  step: { label: 'Step', isValid: value => value > 0, hint: 'Please enter a positive number' },
+  decimalPlaces: { label: 'Decimal Places', isValid: value => Number.isInteger(value) && value >= 0, hint: 'Please enter a whole number of 0 or more', min: 0 },
+};
+
+const isValidRuleValue = (type: ValidationRule['type'], value: string): boolean => {
+  const config = NUMERIC_RULE_VALUES[type];
+  return !config || (value.trim() !== '' && !isNaN(Number(value)) && config.isValid(Number(value)));
+};
+
+type DateBoundMode = 'today' | 'relative' | 'fixed';
+
+const DATE_UNIT_LABELS: Record<DateOffsetUnit, string> = { d: 'Days', w: 'Weeks', m: 'Months', y: 'Years' };
+
+const isDateBoundRule = (type: ValidationRule['type']) => type === 'minDate' || type === 'maxDate';
+
+// New password rules also block common passwords; rules saved without a policy keep the default
+const NEW_PASSWORD_POLICY: ResolvedPasswordPolicy = { ...DEFAULT_PASSWORD_POLICY, blockCommonPasswords: true };
+
+const PASSWORD_CLASS_OPTIONS = [
+  { key: 'requireUppercase', label: 'Uppercase letter' },
+  { key: 'requireLowercase', label: 'Lowercase letter' },
+  { key: 'requireDigit', label: 'Number' },
+  { key: 'requireSymbol', label: 'Symbol' },
+] as const;
+
+const PATTERN_FLAG_LABELS: Record<PatternFlag, string> = {
+  i: 'Ignore case',
+  m: 'Multiline: ^ and $ match at line breaks',
+  s: 'Dot matches line breaks',
+  u: 'Unicode',
+};
+
 const ValidationRuleEditor: React.FC<ValidationRuleEditorProps> = ({
   validationRules,
   onChange,
   fieldType,
+  availableFields = [],
+  currentFieldId,
 }) => {
   const [selectedType, setSelectedType] = useState<ValidationRule['type']>('notEmpty');
   const [ruleValue, setRuleValue] = useState<string>('');
   const [customMessage, setCustomMessage] = useState<string>('');
+  const [patternFlags, setPatternFlags] = useState<string>('');
+  const [sampleInputs, setSampleInputs] = useState<string>('');
+  const [passwordPolicy, setPasswordPolicy] = useState<ResolvedPasswordPolicy>(NEW_PASSWORD_POLICY);
+  const [passwordMinLength, setPasswordMinLength] = useState<string>(String(NEW_PASSWORD_POLICY.minLength));
+  const [bannedPasswords, setBannedPasswords] = useState<string>('');
+  const [dateBoundMode, setDateBoundMode] = useState<DateBoundMode>('today');
+  const [offsetAmount, setOffsetAmount] = useState<string>('1');
+  const [offsetUnit, setOffsetUnit] = useState<DateOffsetUnit>('d');
+  const [offsetDirection, setOffsetDirection] = useState<-1 | 1>(-1);
+
+  const otherDateFields = availableFields.filter(field => field.type === 'date' && field.id !== currentFieldId);
+  const otherTextFields = availableFields.filter(field => field.type === 'text' && field.id !== currentFieldId);
+
+  const getFieldLabel = (fieldId: unknown) =>
+    availableFields.find(field => field.id === fieldId)?.label || String(fieldId);
+
+  // The minDate/maxDate bound described by the date inputs, or '' while incomplete
+  const getDateBound = (): string => {
+    if (dateBoundMode === 'today') {
+      return 'today';
+    }
+    if (dateBoundMode === 'fixed') {
+      return DateRuleService.isValidBound(ruleValue) ? ruleValue : '';
+    }
+    const amount = Number(offsetAmount);
+    return Number.isInteger(amount) && amount > 0
+      ? DateRuleService.formatRelativeBound({ amount: amount * offsetDirection, unit: offsetUnit })
+      : '';
+  };
+
+  const isValidPasswordMinLength = () => {
+    const minLength = Number(passwordMinLength);
+    return passwordMinLength.trim() !== '' && Number.isInteger(minLength) && minLength >= 1;
+  };
+
+  // The policy described by the password inputs
+  const getPasswordPolicy = (): PasswordPolicy => {
+    const policy: PasswordPolicy = {
+      ...passwordPolicy,
+      minLength: Number(passwordMinLength),
+      bannedPasswords: bannedPasswords.split('\n').map(item => item.trim()).filter(Boolean),
+    };
+    if (!otherTextFields.some(field => field.id === policy.notContainingFieldId)) {
+      delete policy.notContainingFieldId;
+    }
+    return policy;
+  };
+
+  const loadPasswordPolicy = (policy?: PasswordPolicy) => {
+    const resolved = policy ? PasswordPolicyService.resolvePolicy(policy) : NEW_PASSWORD_POLICY;
+    setPasswordPolicy(resolved);
+    setPasswordMinLength(String(resolved.minLength));
+    setBannedPasswords(resolved.bannedPasswords.join('\n'));
+  };
+
+  const loadDateBound = (bound: unknown) => {
+    const relative = typeof bound === 'string' ? DateRuleService.parseRelativeBound(bound) : null;
+    if (relative && relative.amount !== 0) {
+      setDateBoundMode('relative');
+      setOffsetAmount(String(Math.abs(relative.amount)));
+      setOffsetUnit(relative.unit);
+      setOffsetDirection(relative.amount < 0 ? -1 : 1);
+    } else if (relative || !DateRuleService.isValidBound(bound)) {
+      setDateBoundMode('today');
+    } else {
+      setDateBoundMode('fixed');
+      setRuleValue(bound);
+    }
+  };
 
   const getDefaultMessage = (type: ValidationRule['type'], value?: string | number): string => {
     switch (type) {
@@ -55,20 +200,50 @@ const ValidationRuleEditor: React.FC<ValidationRuleEditorProps> = ({
       case 'email':
         return 'Please enter a valid email address';
       case 'customPassword':
-        return 'Password must meet the required criteria';
+        return 'Password must meet the required criteria'; // the failed requirements are listed after it
+      case 'pattern':
+        return 'Please enter a value in the expected format';
+      case 'min':
+        return `Must be at least ${value}`;
+      case 'max':
+        return `Must be at most ${value}`;
+      case 'integer':
+        return 'Must be a whole number';
+      case 'step':
+        return `Must go up in steps of ${value}`;
+      case 'decimalPlaces':
+        return `Must have no more than ${value} decimal place${value === 1 ? '' : 's'}`;
+      case 'positive':
+        return 'Must be greater than 0';
+      case 'negative':
+        return 'Must be less than 0';
+      case 'minDate':
+        return `Must be on or after ${DateRuleService.describeBound(String(value ?? ''))}`;
+      case 'maxDate':
+        return `Must be on or before ${DateRuleService.describeBound(String(value ?? ''))}`;
+      case 'noWeekends':
+        return 'Please pick a weekday';
+      case 'afterField':
+        return value ? `Must be after ${getFieldLabel(value)}` : 'Must be after the other date';
       default:
         return 'Invalid input';
     }
   };
 
   const handleAddRule = () => {
-    const needsValue = selectedType === 'minLength' || selectedType === 'maxLength';
+    const needsValue = Boolean(NUMERIC_RULE_VALUES[selectedType]);
 
-    if (needsValue && (!ruleValue || isNaN(Number(ruleValue)) || Number(ruleValue) <= 0)) {
+    if (!isValidRule()) {
       return; // Don't add invalid rules
     }
 
-    const value = needsValue ? Number(ruleValue) : undefined;
+    const value = needsValue
+      ? Number(ruleValue)
+      : selectedType === 'pattern' || selectedType === 'afterField'
+        ? ruleValue
+        : isDateBoundRule(selectedType)
+          ? getDateBound()
+          : undefined;
     const message = customMessage.trim() || getDefaultMessage(selectedType, value);
 
     const newRule: ValidationRule = {
@@ -76,6 +251,12 @@ const ValidationRuleEditor: React.FC<ValidationRuleEditorProps> = ({
       value,
       message,
     };
+    if (selectedType === 'pattern' && patternFlags) {
+      newRule.flags = patternFlags;
+    }
+    if (selectedType === 'customPassword') {
+      newRule.policy = getPasswordPolicy();
+    }
 
     // Check if rule of this type already exists
     const existingRuleIndex = validationRules.findIndex(rule => rule.type === selectedType);
@@ -94,6 +275,31 @@ const ValidationRuleEditor: React.FC<ValidationRuleEditorProps> = ({
     setSelectedType('notEmpty');
     setRuleValue('');
     setCustomMessage('');
+    setPatternFlags('');
+    setSampleInputs('');
+    setDateBoundMode('today');
+    loadPasswordPolicy();
+  };
+
+  const handleTypeChange = (type: ValidationRule['type']) => {
+    setSelectedType(type);
+    if (type === 'pattern') {
+      // Load the current pattern so it can be tested and edited
+      const existing = validationRules.find(rule => rule.type === 'pattern');
+      setRuleValue(existing?.value !== undefined ? String(existing.value) : '');
+      setPatternFlags(existing?.flags || '');
+    } else if (isDateBoundRule(type) || type === 'afterField') {
+      // Load the current bound or field so it can be adjusted
+      const existing = validationRules.find(rule => rule.type === type);
+      setRuleValue(type === 'afterField' && typeof existing?.value === 'string' ? existing.value : '');
+      if (isDateBoundRule(type)) {
+        loadDateBound(existing?.value);
+      }
+    } else if (type === 'customPassword') {
+      // Load the current policy so it can be adjusted
+      const existing = validationRules.find(rule => rule.type === 'customPassword');
+      loadPasswordPolicy(existing ? existing.policy || DEFAULT_PASSWORD_POLICY : undefined);
+    }
   };
 
   const handleRemoveRule = (index: number) => {
@@ -102,9 +308,20 @@ const ValidationRuleEditor: React.FC<ValidationRuleEditorProps> = ({
   };
 
   const isValidRule = () => {
-    const needsValue = selectedType === 'minLength' || selectedType === 'maxLength';
-    if (needsValue) {
-      return ruleValue && !isNaN(Number(ruleValue)) && Number(ruleValue) > 0;
+    if (!isValidRuleValue(selectedType, ruleValue)) {
+      return false;
+    }
+    if (selectedType === 'pattern') {
+      return !PatternRuleService.getPatternProblem(ruleValue, patternFlags);
+    }
+    if (isDateBoundRule(selectedType)) {
+      return getDateBound() !== '';
+    }
+    if (selectedType === 'afterField') {
+      return otherDateFields.some(field => field.id === ruleValue);
+    }
+    if (selectedType === 'customPassword') {
+      return isValidPasswordMinLength();
     }
     return true;
   };
@@ -114,7 +331,7 @@ const ValidationRuleEditor: React.FC<ValidationRuleEditorProps> = ({
     switch (fieldType) {
       case 'number':
         return VALIDATION_TYPES.filter(type =>
-          ['notEmpty', 'minLength', 'maxLength'].includes(type.value)
+          ['notEmpty', 'min', 'max', 'integer', 'step', 'decimalPlaces', 'positive', 'negative'].includes(type.value)
         );
       case 'email':
         return VALIDATION_TYPES.filter(type =>
@@ -131,15 +348,24 @@ const ValidationRuleEditor: React.FC<ValidationRuleEditorProps> = ({
         );
       case 'date':
         return VALIDATION_TYPES.filter(type =>
-          ['notEmpty'].includes(type.value)
+          ['notEmpty', 'minDate', 'maxDate', 'noWeekends', 'afterField'].includes(type.value)
         );
       default: // text, textarea
-        return VALIDATION_TYPES;
+        return VALIDATION_TYPES.filter(type =>
+          ['notEmpty', 'minLength', 'maxLength', 'email', 'customPassword', 'pattern'].includes(type.value)
+        );
     }
   };
 
   const availableTypes = getAvailableValidationTypes();
-  const needsValue = selectedType === 'minLength' || selectedType === 'maxLength';
+  const valueInput = NUMERIC_RULE_VALUES[selectedType];
+  const needsValue = Boolean(valueInput);
+  const hasInvalidValue = ruleValue !== '' && !isValidRuleValue(selectedType, ruleValue);
+  const isPattern = selectedType === 'pattern';
+  const patternProblem = isPattern && ruleValue ? PatternRuleService.getPatternProblem(ruleValue, patternFlags) : null;
+  // Each non-empty line of the tester is one sample value
+  const samples = sampleInputs.split('\n').filter(sample => sample !== '');
+  const isDateBound = isDateBoundRule(selectedType);
 
   return (
     <Card variant="outlined" sx={{ mt: 2 }}>
@@ -179,9 +405,22 @@ const ValidationRuleEditor: React.FC<ValidationRuleEditorProps> = ({
                       primary={VALIDATION_TYPES.find(t => t.value === rule.type)?.label || rule.type}
                       secondary={
                         <Box>
-                          {rule.value && (
+                          {rule.value !== undefined && rule.value !== '' && (
                             <Typography variant="caption" display="block">
-                              Value: {rule.value}
+                              Value: {rule.type === 'pattern'
+                                ? PatternRuleService.format(String(rule.value), rule.flags)
+                                : isDateBoundRule(rule.type)
+                                  ? DateRuleService.describeBound(String(rule.value))
+                                  : rule.type === 'afterField'
+                                    ? getFieldLabel(rule.value)
+                                    : rule.value}
+                            </Typography>
+                          )}
+                          {rule.type === 'customPassword' && (
+                            <Typography variant="caption" display="block">
+                              Requires: {PasswordPolicyService.describe(rule.policy)}
+                              {rule.policy?.blockCommonPasswords && ', not a common password'}
+                              {rule.policy?.notContainingFieldId && `, not containing ${getFieldLabel(rule.policy.notContainingFieldId)}`}
                             </Typography>
                           )}
                           <Typography variant="caption" display="block">
@@ -209,7 +448,7 @@ const ValidationRuleEditor: React.FC<ValidationRuleEditorProps> = ({
             <Select
               value={selectedType}
               label="Validation Type"
-              onChange={(e) => setSelectedType(e.target.value as ValidationRule['type'])}
+              onChange={(e) => handleTypeChange(e.target.value as ValidationRule['type'])}
             >
               {availableTypes.map((type) => (
                 <MenuItem key={type.value} value={type.value}>
@@ -224,31 +463,282 @@ const ValidationRuleEditor: React.FC<ValidationRuleEditorProps> = ({
             </Select>
           </FormControl>
 
-          {needsValue && (
+          {valueInput && (
             <TextField
               fullWidth
               size="small"
-              label={selectedType === 'minLength' ? 'Minimum Length' : 'Maximum Length'}
+              label={valueInput.label}
               type="number"
               value={ruleValue}
               onChange={(e) => setRuleValue(e.target.value)}
-              inputProps={{ min: 1 }}
-              error={ruleValue !== '' && (isNaN(Number(ruleValue)) || Number(ruleValue) <= 0)}
-              helperText={
-                ruleValue !== '' && (isNaN(Number(ruleValue)) || Number(ruleValue) <= 0)
-                  ? 'Please enter a positive number'
-                  : ''
-              }
+              inputProps={{ min: valueInput.min, step: 'any' }}
+              error={hasInvalidValue}
+              helperText={hasInvalidValue ? valueInput.hint : ''}
             />
           )}
 
+          {isPattern && (
+            <>
+              <TextField
+                fullWidth
+                size="small"
+                label="Pattern"
+                value={ruleValue}
+                onChange={(e) => setRuleValue(e.target.value)}
+                placeholder="^[A-Z]{2}\d{4}$"
+                error={Boolean(patternProblem)}
+                helperText={patternProblem || 'Regular expression tested against the value; use ^ and $ to match the whole value'}
+                inputProps={{ style: { fontFamily: 'monospace' }, spellCheck: false }}
+              />
+
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                <Typography variant="body2" color="text.secondary">
+                  Flags
+                </Typography>
+                <ToggleButtonGroup
+                  size="small"
+                  value={[...patternFlags]}
+                  onChange={(_, flags: string[]) => setPatternFlags(PATTERN_FLAGS.filter(flag => flags.includes(flag)).join(''))}
+                  aria-label="Pattern flags"
+                >
+                  {PATTERN_FLAGS.map(flag => (
+                    <ToggleButton
+                      key={flag}
+                      value={flag}
+                      title={PATTERN_FLAG_LABELS[flag]}
+                      aria-label={PATTERN_FLAG_LABELS[flag]}
+                      sx={{ fontFamily: 'monospace', px: 1.5 }}
+                    >
+                      {flag}
+                    </ToggleButton>
+                  ))}
+                </ToggleButtonGroup>
+              </Box>
+
+              <TextField
+                fullWidth
+                size="small"
+                label="Test Inputs"
+                value={sampleInputs}
+                onChange={(e) => setSampleInputs(e.target.value)}
+                placeholder={'AB1234\nab12'}
+                helperText="Type sample values, one per line, to check them against the pattern"
+                multiline
+                minRows={2}
+                inputProps={{ style: { fontFamily: 'monospace' }, spellCheck: false }}
+              />
+
+              {samples.length > 0 && !patternProblem && ruleValue && (
+                <Stack spacing={0.5}>
+                  {samples.map((sample, index) => {
+                    const passes = PatternRuleService.test(sample, ruleValue, patternFlags);
+                    return (
+                      <Box key={index} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                        <Chip
+                          size="small"
+                          label={passes ? 'Pass' : 'Fail'}
+                          color={passes ? 'success' : 'error'}
+                          sx={{ minWidth: 56 }}
+                        />
+                        <Typography variant="body2" sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                          {sample}
+                        </Typography>
+                      </Box>
+                    );
+                  })}
+                </Stack>
+              )}
+            </>
+          )}
+
+          {isDateBound && (
+            <>
+              <ToggleButtonGroup
+                size="small"
+                exclusive
+                value={dateBoundMode}
+                onChange={(_, mode: DateBoundMode | null) => mode && setDateBoundMode(mode)}
+                aria-label="Date bound"
+              >
+                <ToggleButton value="today">Today</ToggleButton>
+                <ToggleButton value="relative">Relative to Today</ToggleButton>
+                <ToggleButton value="fixed">Fixed Date</ToggleButton>
+              </ToggleButtonGroup>
+
+              {dateBoundMode === 'relative' && (
+                <Box sx={{ display: 'flex', gap: 1 }}>
+                  <TextField
+                    size="small"
+                    label="Amount"
+                    type="number"
+                    value={offsetAmount}
+                    onChange={(e) => setOffsetAmount(e.target.value)}
+                    inputProps={{ min: 1, step: 1 }}
+                    error={!getDateBound()}
+                    sx={{ width: 100 }}
+                  />
+                  <Select
+                    size="small"
+                    value={offsetUnit}
+                    onChange={(e) => setOffsetUnit(e.target.value as DateOffsetUnit)}
+                    aria-label="Unit"
+                  >
+                    {Object.entries(DATE_UNIT_LABELS).map(([unit, label]) => (
+                      <MenuItem key={unit} value={unit}>{label}</MenuItem>
+                    ))}
+                  </Select>
+                  <Select
+                    size="small"
+                    value={offsetDirection}
+                    onChange={(e) => setOffsetDirection(Number(e.target.value) as -1 | 1)}
+                    aria-label="Direction"
+                  >
+                    <MenuItem value={-1}>Ago</MenuItem>
+                    <MenuItem value={1}>From Today</MenuItem>
+                  </Select>
+                </Box>
+              )}
+
+              {dateBoundMode === 'fixed' && (
+                <TextField
+                  fullWidth
+                  size="small"
+                  label="Date"
+                  type="date"
+                  value={ruleValue}
+                  onChange={(e) => setRuleValue(e.target.value)}
+                  InputLabelProps={{ shrink: true }}
+                />
+              )}
+
+              {getDateBound() && (
+                <Typography variant="caption" color="text.secondary">
+                  {selectedType === 'minDate' ? 'Earliest' : 'Latest'} date: {DateRuleService.describeBound(getDateBound())}
+                  {dateBoundMode !== 'fixed' && ', counted from the day the form is filled in'}
+                </Typography>
+              )}
+            </>
+          )}
+
+          {selectedType === 'customPassword' && (
+            <>
+              <TextField
+                fullWidth
+                size="small"
+                label="Minimum Length"
+                type="number"
+                value={passwordMinLength}
+                onChange={(e) => setPasswordMinLength(e.target.value)}
+                inputProps={{ min: 1, step: 1 }}
+                error={!isValidPasswordMinLength()}
+                helperText={isValidPasswordMinLength() ? '' : 'Please enter a positive whole number'}
+              />
+
+              <Box>
+                <Typography variant="body2" color="text.secondary">
+                  Must include at least one
+                </Typography>
+                <FormGroup row>
+                  {PASSWORD_CLASS_OPTIONS.map(option => (
+                    <FormControlLabel
+                      key={option.key}
+                      control={
+                        <Checkbox
+                          size="small"
+                          checked={passwordPolicy[option.key]}
+                          onChange={(e) => setPasswordPolicy(prev => ({ ...prev, [option.key]: e.target.checked }))}
+                        />
+                      }
+                      label={option.label}
+                    />
+                  ))}
+                </FormGroup>
+              </Box>
+
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    size="small"
+                    checked={passwordPolicy.blockCommonPasswords}
+                    onChange={(e) => setPasswordPolicy(prev => ({ ...prev, blockCommonPasswords: e.target.checked }))}
+                  />
+                }
+                label="Block common passwords, such as password123 or qwerty"
+              />
+
+              <TextField
+                fullWidth
+                size="small"
+                label="Banned Passwords (optional)"
+                value={bannedPasswords}
+                onChange={(e) => setBannedPasswords(e.target.value)}
+                placeholder={'companyname2024\nwelcome!'}
+                helperText="One per line; compared ignoring case"
+                multiline
+                minRows={2}
+              />
+
+              <FormControl fullWidth size="small">
+                <InputLabel>Must Not Contain</InputLabel>
+                <Select
+                  value={otherTextFields.some(field => field.id === passwordPolicy.notContainingFieldId)
+                    ? passwordPolicy.notContainingFieldId
+                    : ''}
+                  label="Must Not Contain"
+                  onChange={(e) => setPasswordPolicy(prev => ({ ...prev, notContainingFieldId: e.target.value || undefined }))}
+                >
+                  <MenuItem value="">
+                    <em>No other field</em>
+                  </MenuItem>
+                  {otherTextFields.map(field => (
+                    <MenuItem key={field.id} value={field.id}>
+                      {field.label}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </>
+          )}
+
+          {selectedType === 'afterField' && (
+            otherDateFields.length > 0 ? (
+              <FormControl fullWidth size="small">
+                <InputLabel>Other Date Field</InputLabel>
+                <Select
+                  value={otherDateFields.some(field => field.id === ruleValue) ? ruleValue : ''}
+                  label="Other Date Field"
+                  onChange={(e) => setRuleValue(e.target.value)}
+                >
+                  {otherDateFields.map(field => (
+                    <MenuItem key={field.id} value={field.id}>
+                      {field.label}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            ) : (
+              <Alert severity="info">
+                Add another date field to the form to compare with.
+              </Alert>
+            )
+          )}
+
           <TextField
             fullWidth
             size="small"
             label="Custom Error Message (optional)"
             value={customMessage}
             onChange={(e) => setCustomMessage(e.target.value)}
-            placeholder={getDefaultMessage(selectedType, needsValue ? Number(ruleValue) : undefined)}
+            placeholder={getDefaultMessage(
+              selectedType,
+              needsValue
+                ? Number(ruleValue)
+                : isDateBound
+                  ? getDateBound()
+                  : selectedType === 'afterField'
+                    ? ruleValue
+                    : undefined
+            )}
             multiline
             rows={2}
           />
@@ -0,0 +1,379 @@
+import React from 'react';
+import {
+  Box,
+  Typography,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  TextField,
+  Chip,
+  IconButton,
+  FormControlLabel,
+  Switch,
+  Alert,
+  Button,
+  Accordion,
+  AccordionSummary,
+  AccordionDetails,
+  Paper,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteIcon from '@mui/icons-material/Delete';
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import AccountTreeIcon from '@mui/icons-material/AccountTree';
+import type { ConditionGroup, ConditionOperator, FieldCondition, FormField } from '../../types';
+import { ConditionEvaluator } from '../../services';
+
+interface VisibilityConditionEditorProps {
+  condition?: ConditionGroup;
+  onChange: (condition?: ConditionGroup) => void;
+  availableFields: FormField[];
+  currentFieldId?: string;
+}
+
+const OPERATORS: { value: ConditionOperator; label: string; needsValue: boolean; numeric?: boolean }[] = [
+  { value: 'equals', label: 'equals', needsValue: true },
+  { value: 'notEquals', label: 'does not equal', needsValue: true },
+  { value: 'in', label: 'is one of', needsValue: true },
+  { value: 'notIn', label: 'is not one of', needsValue: true },
+  { value: 'greaterThan', label: 'is greater than', needsValue: true, numeric: true },
+  { value: 'greaterThanOrEqual', label: 'is at least', needsValue: true, numeric: true },
+  { value: 'lessThan', label: 'is less than', needsValue: true, numeric: true },
+  { value: 'lessThanOrEqual', label: 'is at most', needsValue: true, numeric: true },
+  { value: 'isEmpty', label: 'is empty', needsValue: false },
+  { value: 'isNotEmpty', label: 'is not empty', needsValue: false },
+];
+
+// Nested groups beyond this depth add little and make the editor hard to read
+const MAX_GROUP_DEPTH = 2;
+
+interface ConditionRowProps {
+  condition: FieldCondition;
+  onChange: (condition: FieldCondition) => void;
+  onRemove: () => void;
+  fields: FormField[];
+}
+
+const ConditionRow: React.FC<ConditionRowProps> = ({ condition, onChange, onRemove, fields }) => {
+  const targetField = fields.find(f => f.id === condition.fieldId);
+  const operator = OPERATORS.find(o => o.value === condition.operator);
+  const isListOperator = condition.operator === 'in' || condition.operator === 'notIn';
+  const hasOptions = Boolean(targetField?.options && targetField.options.length > 0);
+  const isSingleCheckbox = targetField?.type === 'checkbox' && !hasOptions;
+
+  const renderValueInput = () => {
+    if (!operator?.needsValue) {
+      return null;
+    }
+
+    if (isListOperator && hasOptions) {
+      const selected = Array.isArray(condition.value) ? condition.value : [];
+      return (
+        <FormControl size="small" sx={{ minWidth: 180, flex: 1 }}>
+          <InputLabel>Values</InputLabel>
+          <Select
+            multiple
+            value={selected}
+            label="Values"
+            onChange={(e) => {
+              const value = e.target.value;
+              onChange({ ...condition, value: typeof value === 'string' ? value.split(',') : value });
+            }}
+            renderValue={(values) => (
+              <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                {values.map(v => <Chip key={v} label={v} size="small" />)}
+              </Box>
+            )}
+          >
+            {targetField!.options!.map(option => (
+              <MenuItem key={option} value={option}>{option}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      );
+    }
+
+    if (isListOperator) {
+      const text = Array.isArray(condition.value) ? condition.value.join(', ') : String(condition.value ?? '');
+      return (
+        <TextField
+          size="small"
+          label="Values"
+          value={text}
+          onChange={(e) => onChange({
+            ...condition,
+            value: e.target.value.split(',').map(item => item.trim()).filter(Boolean),
+          })}
+          helperText="Comma separated"
+          sx={{ flex: 1, minWidth: 180 }}
+        />
+      );
+    }
+
+    if ((hasOptions || isSingleCheckbox) && !operator.numeric) {
+      const options = isSingleCheckbox ? ['true', 'false'] : targetField!.options!;
+      return (
+        <FormControl size="small" sx={{ minWidth: 160, flex: 1 }}>
+          <InputLabel>Value</InputLabel>
+          <Select
+            value={condition.value !== undefined ? String(condition.value) : ''}
+            label="Value"
+            onChange={(e) => onChange({ ...condition, value: e.target.value })}
+          >
+            {options.map(option => (
+              <MenuItem key={option} value={option}>
+                {isSingleCheckbox ? (option === 'true' ? 'Checked' : 'Unchecked') : option}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      );
+    }
+
+    return (
+      <TextField
+        size="small"
+        label="Value"
+        type={operator.numeric || targetField?.type === 'number' ? 'number' : 'text'}
+        value={Array.isArray(condition.value) ? condition.value.join(', ') : condition.value ?? ''}
+        onChange={(e) => onChange({
+          ...condition,
+          value: operator.numeric && e.target.value !== '' ? Number(e.target.value) : e.target.value,
+        })}
+        sx={{ flex: 1, minWidth: 140 }}
+      />
+    );
+  };
+
+  return (
+    <Box sx={{ display: 'flex', gap: 1, alignItems: 'flex-start', flexWrap: 'wrap' }}>
+      <FormControl size="small" sx={{ minWidth: 160, flex: 1 }}>
+        <InputLabel>Field</InputLabel>
+        <Select
+          value={targetField ? condition.fieldId : ''}
+          label="Field"
+          onChange={(e) => onChange({ ...condition, fieldId: e.target.value, value: undefined })}
+          error={!targetField}
+        >
+          {fields.map(field => (
+            <MenuItem key={field.id} value={field.id}>
+              {field.label} ({field.type})
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+
+      <FormControl size="small" sx={{ minWidth: 150 }}>
+        <InputLabel>Operator</InputLabel>
+        <Select
+          value={condition.operator}
+          label="Operator"
+          onChange={(e) => {
+            const nextOperator = e.target.value as ConditionOperator;
+            const switchesList = (nextOperator === 'in' || nextOperator === 'notIn') !== isListOperator;
+            onChange({ ...condition, operator: nextOperator, value: switchesList ? undefined : condition.value });
+          }}
+        >
+          {OPERATORS.map(op => (
+            <MenuItem key={op.value} value={op.value}>{op.label}</MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+
+      {renderValueInput()}
+
+      <IconButton onClick={onRemove} color="error" size="small" sx={{ mt: 0.5 }}>
+        <DeleteIcon fontSize="small" />
+      </IconButton>
+    </Box>
+  );
+};
+
+interface ConditionGroupEditorProps {
+  group: ConditionGroup;
+  onChange: (group: ConditionGroup) => void;
+  onRemove?: () => void;
+  fields: FormField[];
+  depth: number;
+}
+
+const ConditionGroupEditor: React.FC<ConditionGroupEditorProps> = ({ group, onChange, onRemove, fields, depth }) => {
+  const updateNode = (index: number, node: FieldCondition | ConditionGroup) => {
+    const conditions = [...group.conditions];
+    conditions[index] = node;
+    onChange({ ...group, conditions });
+  };
+
+  const removeNode = (index: number) => {
+    onChange({ ...group, conditions: group.conditions.filter((_, i) => i !== index) });
+  };
+
+  const addCondition = () => {
+    onChange({
+      ...group,
+      conditions: [...group.conditions, { fieldId: fields[0]?.id || '', operator: 'equals' }],
+    });
+  };
+
+  const addGroup = () => {
+    onChange({
+      ...group,
+      conditions: [
+        ...group.conditions,
+        { combinator: group.combinator === 'and' ? 'or' : 'and', conditions: [] },
+      ],
+    });
+  };
+
+  return (
+    <Paper
+      variant="outlined"
+      sx={{
+        p: 1.5,
+        display: 'flex',
+        flexDirection: 'column',
+        gap: 1.5,
+        backgroundColor: depth > 0 ? 'grey.50' : 'background.paper',
+      }}
+    >
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <FormControl size="small" sx={{ minWidth: 120 }}>
+          <Select
+            value={group.combinator}
+            onChange={(e) => onChange({ ...group, combinator: e.target.value as ConditionGroup['combinator'] })}
+          >
+            <MenuItem value="and">All of</MenuItem>
+            <MenuItem value="or">Any of</MenuItem>
+          </Select>
+        </FormControl>
+        <Typography variant="body2" color="text.secondary" sx={{ flex: 1 }}>
+          the following are true
+        </Typography>
+        {onRemove && (
+          <IconButton onClick={onRemove} color="error" size="small">
+            <DeleteIcon fontSize="small" />
+          </IconButton>
+        )}
+      </Box>
+
+      {group.conditions.map((node, index) =>
+        ConditionEvaluator.isGroup(node) ? (
+          <ConditionGroupEditor
+            key={index}
+            group={node}
+            onChange={(updated) => updateNode(index, updated)}
+            onRemove={() => removeNode(index)}
+            fields={fields}
+            depth={depth + 1}
+          />
+        ) : (
+          <ConditionRow
+            key={index}
+            condition={node}
+            onChange={(updated) => updateNode(index, updated)}
+            onRemove={() => removeNode(index)}
+            fields={fields}
+          />
+        )
+      )}
+
+      <Box sx={{ display: 'flex', gap: 1 }}>
+        <Button size="small" startIcon={<AddIcon />} onClick={addCondition}>
+          Add Condition
+        </Button>
+        {depth < MAX_GROUP_DEPTH && (
+          <Button size="small" startIcon={<AccountTreeIcon />} onClick={addGroup}>
+            Add Group
+          </Button>
+        )}
+      </Box>
+    </Paper>
+  );
+};
+
+const VisibilityConditionEditor: React.FC<VisibilityConditionEditorProps> = ({
+  condition,
+  onChange,
+  availableFields,
+  currentFieldId,
+}) => {
+  const isConditional = Boolean(condition);
+
+  // A field cannot depend on its own value
+  const referenceableFields = availableFields.filter(field => field.id !== currentFieldId);
+
+  const handleIsConditionalChange = (checked: boolean) => {
+    if (!checked) {
+      onChange(undefined);
+      return;
+    }
+    onChange({
+      combinator: 'and',
+      conditions: referenceableFields.length > 0
+        ? [{ fieldId: referenceableFields[0].id, operator: 'equals' }]
+        : [],
+    });
+  };
+
+  const missingReferences = condition
+    ? ConditionEvaluator.getReferencedFieldIds(condition).filter(
+      id => !referenceableFields.some(field => field.id === id)
+    )
+    : [];
+
+  return (
+    <Accordion>
+      <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Typography variant="subtitle2">Conditional Visibility</Typography>
+          {isConditional && (
+            <Chip label="Conditional" size="small" color="info" />
+          )}
+        </Box>
+      </AccordionSummary>
+      <AccordionDetails>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={isConditional}
+                onChange={(e) => handleIsConditionalChange(e.target.checked)}
+                disabled={!isConditional && referenceableFields.length === 0}
+              />
+            }
+            label="Only show this field when…"
+          />
+
+          {referenceableFields.length === 0 && (
+            <Alert severity="info">
+              No other fields available. Add some fields first to create visibility conditions.
+            </Alert>
+          )}
+
+          {condition && (
+            <>
+              <ConditionGroupEditor
+                group={condition}
+                onChange={onChange}
+                fields={referenceableFields}
+                depth={0}
+              />
+              <Typography variant="caption" color="text.secondary">
+                Hidden fields are not validated and their values are not submitted.
+              </Typography>
+            </>
+          )}
+
+          {missingReferences.length > 0 && (
+            <Alert severity="warning">
+              Some conditions reference fields that no longer exist. Those fields are treated as empty.
+            </Alert>
+          )}
+        </Box>
+      </AccordionDetails>
+    </Accordion>
+  );
+};
+
+export default VisibilityConditionEditor;
@@ -1,4 +1,6 @@
 export { default as FormBuilder } from './FormBuilder';
 export { default as FieldEditor } from './FieldEditor';
 export { default as ValidationRuleEditor } from './ValidationRuleEditor';
-export { default as DerivedFieldEditor } from './DerivedFieldEditor';
\ No newline at end of file
+export { default as DerivedFieldEditor } from './DerivedFieldEditor';
+export { default as VisibilityConditionEditor } from './VisibilityConditionEditor';
+export { default as CrossFieldRuleEditor } from './CrossFieldRuleEditor';
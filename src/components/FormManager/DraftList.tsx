@@ -0,0 +1,110 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  List,
+  ListItem,
+  ListItemText,
+  Paper,
+  Stack,
+  Typography,
+} from '@mui/material';
+import { Delete, EditNote } from '@mui/icons-material';
+import type { FormDraft } from '../../types';
+
+interface DraftListProps {
+  drafts: FormDraft[];
+  // Names of saved forms, used to label drafts of existing forms
+  formNames: Record<string, string>;
+  onContinue: (draft: FormDraft) => void;
+  onDiscard: (draft: FormDraft) => void;
+  formatDate: (date: Date) => string;
+}
+
+const DraftList: React.FC<DraftListProps> = ({
+  drafts,
+  formNames,
+  onContinue,
+  onDiscard,
+  formatDate,
+}) => {
+  if (drafts.length === 0) {
+    return null;
+  }
+
+  return (
+    <Paper
+      elevation={0}
+      sx={{
+        mb: 3,
+        border: '1px solid',
+        borderColor: 'warning.light',
+        borderRadius: 2,
+      }}
+    >
+      <Box sx={{ px: 2, pt: 2 }}>
+        <Typography variant="h6" component="h2" sx={{ fontWeight: 600 }}>
+          Unsaved Drafts
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          Autosaved builder changes that have not been saved yet
+        </Typography>
+      </Box>
+      <List>
+        {drafts.map(draft => {
+          const savedName = formNames[draft.formId];
+          const title = draft.schema.name || savedName || 'Untitled form';
+          const fieldCount = draft.schema.fields.length;
+
+          return (
+            <ListItem
+              key={draft.formId}
+              divider
+              secondaryAction={
+                <Stack direction="row" spacing={1}>
+                  <Button
+                    size="small"
+                    color="error"
+                    startIcon={<Delete fontSize="small" />}
+                    onClick={() => onDiscard(draft)}
+                  >
+                    Discard
+                  </Button>
+                  <Button
+                    size="small"
+                    variant="outlined"
+                    startIcon={<EditNote fontSize="small" />}
+                    onClick={() => onContinue(draft)}
+                  >
+                    Continue
+                  </Button>
+                </Stack>
+              }
+              sx={{ pr: 28 }}
+            >
+              <ListItemText
+                primary={
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    <Typography variant="subtitle1" component="span" noWrap>
+                      {title}
+                    </Typography>
+                    <Chip
+                      label={savedName ? 'Changes to saved form' : 'New form'}
+                      size="small"
+                      variant="outlined"
+                      color={savedName ? 'default' : 'warning'}
+                    />
+                  </Box>
+                }
+                secondary={`${fieldCount} field${fieldCount !== 1 ? 's' : ''} · autosaved ${formatDate(draft.savedAt)}`}
+              />
+            </ListItem>
+          );
+        })}
+      </List>
+    </Paper>
+  );
+};
+
+export default DraftList;
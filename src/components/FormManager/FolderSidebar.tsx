@@ -0,0 +1,132 @@
+import React from 'react';
+import {
+  Box,
+  Chip,
+  List,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  Paper,
+  Typography,
+} from '@mui/material';
+import { Folder, FolderOpen, FolderOff, Inventory2 } from '@mui/icons-material';
+import { FOLDER_SEPARATOR, type FolderNode, type TagCount } from '../../services';
+
+interface FolderSidebarProps {
+  folders: FolderNode[];
+  tags: TagCount[];
+  totalCount: number;
+  unfiledCount: number;
+  selectedFolder: string | null; // null for all forms, '' for forms without a folder
+  selectedTags: string[];
+  onSelectFolder: (folder: string | null) => void;
+  onToggleTag: (tag: string) => void;
+}
+
+const FolderSidebar: React.FC<FolderSidebarProps> = ({
+  folders,
+  tags,
+  totalCount,
+  unfiledCount,
+  selectedFolder,
+  selectedTags,
+  onSelectFolder,
+  onToggleTag,
+}) => {
+  const renderFolder = (node: FolderNode, depth: number): React.ReactNode => {
+    const isSelected = selectedFolder === node.path;
+    // Keep the branch leading to the selected folder visibly open
+    const isOpen = isSelected || (selectedFolder || '').startsWith(node.path + FOLDER_SEPARATOR);
+
+    return (
+      <React.Fragment key={node.path}>
+        <ListItemButton
+          selected={isSelected}
+          onClick={() => onSelectFolder(node.path)}
+          sx={{ pl: 2 + depth * 2, borderRadius: 1 }}
+        >
+          <ListItemIcon sx={{ minWidth: 32 }}>
+            {isOpen ? <FolderOpen fontSize="small" /> : <Folder fontSize="small" />}
+          </ListItemIcon>
+          <ListItemText primary={node.name} primaryTypographyProps={{ noWrap: true, variant: 'body2' }} />
+          <Typography variant="caption" color="text.secondary">
+            {node.formCount}
+          </Typography>
+        </ListItemButton>
+        {node.children.map(child => renderFolder(child, depth + 1))}
+      </React.Fragment>
+    );
+  };
+
+  return (
+    <Paper
+      elevation={0}
+      sx={{
+        p: 1,
+        border: '1px solid',
+        borderColor: 'divider',
+        borderRadius: 2,
+      }}
+    >
+      <Typography variant="overline" color="text.secondary" sx={{ px: 1 }}>
+        Folders
+      </Typography>
+      <List dense disablePadding>
+        <ListItemButton
+          selected={selectedFolder === null}
+          onClick={() => onSelectFolder(null)}
+          sx={{ borderRadius: 1 }}
+        >
+          <ListItemIcon sx={{ minWidth: 32 }}>
+            <Inventory2 fontSize="small" />
+          </ListItemIcon>
+          <ListItemText primary="All forms" primaryTypographyProps={{ variant: 'body2' }} />
+          <Typography variant="caption" color="text.secondary">
+            {totalCount}
+          </Typography>
+        </ListItemButton>
+        {folders.map(node => renderFolder(node, 0))}
+        {folders.length > 0 && (
+          <ListItemButton
+            selected={selectedFolder === ''}
+            onClick={() => onSelectFolder('')}
+            sx={{ borderRadius: 1 }}
+          >
+            <ListItemIcon sx={{ minWidth: 32 }}>
+              <FolderOff fontSize="small" />
+            </ListItemIcon>
+            <ListItemText primary="No folder" primaryTypographyProps={{ variant: 'body2' }} />
+            <Typography variant="caption" color="text.secondary">
+              {unfiledCount}
+            </Typography>
+          </ListItemButton>
+        )}
+      </List>
+
+      {tags.length > 0 && (
+        <>
+          <Typography variant="overline" color="text.secondary" component="div" sx={{ px: 1, mt: 1 }}>
+            Tags
+          </Typography>
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, px: 1, pb: 1 }}>
+            {tags.map(({ tag, count }) => {
+              const isSelected = selectedTags.some(selected => selected.toLowerCase() === tag.toLowerCase());
+              return (
+                <Chip
+                  key={tag}
+                  label={`${tag} (${count})`}
+                  size="small"
+                  color={isSelected ? 'primary' : 'default'}
+                  variant={isSelected ? 'filled' : 'outlined'}
+                  onClick={() => onToggleTag(tag)}
+                />
+              );
+            })}
+          </Box>
+        </>
+      )}
+    </Paper>
+  );
+};
+
+export default FolderSidebar;
@@ -0,0 +1,183 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  Checkbox,
+  FormControl,
+  IconButton,
+  InputAdornment,
+  InputLabel,
+  ListItemText,
+  MenuItem,
+  Select,
+  Stack,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { ArrowDownward, ArrowUpward, Clear, Search } from '@mui/icons-material';
+import {
+  FIELD_TYPES,
+  FormQueryService,
+  type FormFeatureFilter,
+  type FormListQuery,
+  type FormSortKey,
+} from '../../services';
+import type { FormField } from '../../types';
+
+interface FormListToolbarProps {
+  query: FormListQuery;
+  onChange: (query: FormListQuery) => void;
+  visibleCount: number;
+  totalCount: number;
+}
+
+const FIELD_TYPE_LABELS: Record<FormField['type'], string> = {
+  text: 'Text',
+  number: 'Number',
+  textarea: 'Textarea',
+  select: 'Select',
+  radio: 'Radio',
+  checkbox: 'Checkbox',
+  date: 'Date',
+};
+
+const SORT_LABELS: Record<FormSortKey, string> = {
+  created: 'Date created',
+  updated: 'Last updated',
+  name: 'Name',
+  fields: 'Number of fields',
+};
+
+// Wait for typing to pause before updating the URL
+const SEARCH_DEBOUNCE_MS = 250;
+
+const FormListToolbar: React.FC<FormListToolbarProps> = ({
+  query,
+  onChange,
+  visibleCount,
+  totalCount,
+}) => {
+  const [searchText, setSearchText] = useState(query.search);
+
+  // Follow outside changes, e.g. back/forward navigation
+  useEffect(() => {
+    setSearchText(query.search);
+  }, [query.search]);
+
+  useEffect(() => {
+    if (searchText === query.search) return;
+    const timer = setTimeout(() => onChange({ ...query, search: searchText }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchText, query, onChange]);
+
+  const isFiltered = FormQueryService.isFiltered(query);
+
+  return (
+    <Box sx={{ mb: 3 }}>
+      <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} alignItems={{ md: 'center' }}>
+        <TextField
+          size="small"
+          placeholder="Search by form name, field label or tag"
+          value={searchText}
+          onChange={(e) => setSearchText(e.target.value)}
+          sx={{ flex: 1, minWidth: 220 }}
+          InputProps={{
+            startAdornment: (
+              <InputAdornment position="start">
+                <Search fontSize="small" />
+              </InputAdornment>
+            ),
+            endAdornment: searchText ? (
+              <InputAdornment position="end">
+                <IconButton size="small" aria-label="Clear search" onClick={() => setSearchText('')}>
+                  <Clear fontSize="small" />
+                </IconButton>
+              </InputAdornment>
+            ) : undefined,
+          }}
+        />
+
+        <FormControl size="small" sx={{ minWidth: 180 }}>
+          <InputLabel id="field-type-filter-label">Field types</InputLabel>
+          <Select
+            labelId="field-type-filter-label"
+            label="Field types"
+            multiple
+            value={query.fieldTypes}
+            onChange={(e) => {
+              const value = e.target.value;
+              onChange({
+                ...query,
+                fieldTypes: (typeof value === 'string' ? value.split(',') : value) as FormField['type'][],
+              });
+            }}
+            renderValue={(selected) => selected.map(type => FIELD_TYPE_LABELS[type]).join(', ')}
+          >
+            {FIELD_TYPES.map(type => (
+              <MenuItem key={type} value={type}>
+                <Checkbox size="small" checked={query.fieldTypes.includes(type)} />
+                <ListItemText primary={FIELD_TYPE_LABELS[type]} />
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+
+        <ToggleButtonGroup
+          size="small"
+          value={query.features}
+          onChange={(_, features: FormFeatureFilter[]) => onChange({ ...query, features })}
+          aria-label="Field features"
+        >
+          <ToggleButton value="derived">Derived</ToggleButton>
+          <ToggleButton value="required">Required</ToggleButton>
+        </ToggleButtonGroup>
+
+        <Stack direction="row" spacing={0.5} alignItems="center">
+          <FormControl size="small" sx={{ minWidth: 170 }}>
+            <InputLabel id="form-sort-label">Sort by</InputLabel>
+            <Select
+              labelId="form-sort-label"
+              label="Sort by"
+              value={query.sort}
+              onChange={(e) => onChange({ ...query, sort: e.target.value as FormSortKey })}
+            >
+              {(Object.keys(SORT_LABELS) as FormSortKey[]).map(key => (
+                <MenuItem key={key} value={key}>
+                  {SORT_LABELS[key]}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <Tooltip title={query.direction === 'asc' ? 'Ascending' : 'Descending'}>
+            <IconButton
+              size="small"
+              aria-label="Toggle sort direction"
+              onClick={() => onChange({ ...query, direction: query.direction === 'asc' ? 'desc' : 'asc' })}
+            >
+              {query.direction === 'asc' ? <ArrowUpward fontSize="small" /> : <ArrowDownward fontSize="small" />}
+            </IconButton>
+          </Tooltip>
+        </Stack>
+      </Stack>
+
+      {isFiltered && (
+        <Stack direction="row" spacing={1} alignItems="center" sx={{ mt: 1 }}>
+          <Typography variant="body2" color="text.secondary">
+            Showing {visibleCount} of {totalCount} form{totalCount !== 1 ? 's' : ''}
+          </Typography>
+          <Button
+            size="small"
+            onClick={() => onChange(FormQueryService.clearFilters(query))}
+          >
+            Clear filters
+          </Button>
+        </Stack>
+      )}
+    </Box>
+  );
+};
+
+export default FormListToolbar;
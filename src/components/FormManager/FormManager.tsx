@@ -1,5 +1,5 @@
-import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import {
   Typography,
   Card,
@@ -39,23 +39,77 @@ import {
   MoreVert,
   SelectAll,
   Clear,
+  Edit,
+  Inbox,
+  FileDownload,
+  FileUpload,
+  DriveFileMove,
+  LocalOffer,
+  Folder,
+  ContentCopy,
+  RestoreFromTrash,
 } from '@mui/icons-material';
-import { LocalStorageService } from '../../services';
+import {
+  SubmissionStorageService,
+  DraftStorageService,
+  FormBundleService,
+  FormQueryService,
+  FormOrganizerService,
+  FormCloneService,
+  FormTrashService,
+  TRASH_RETENTION_DAYS,
+  type FormListQuery,
+  type LocalStorageError,
+  type RecoveryReport,
+  type ParsedFormBundle,
+  type FormImportResult,
+} from '../../services';
 import { ResponsiveLayout, LoadingSkeleton, FeedbackButton } from '../common';
-import { useNotification, useLoading } from '../../contexts';
+import { useNotification, useLoading, useFormRepository } from '../../contexts';
+import { useFormSync } from '../../hooks';
 import { ErrorHandler } from '../../utils/errorHandler';
-import type { FormSchema } from '../../types';
+import { downloadFile } from '../../utils/download';
+import type { FormDraft, FormSchema, TrashedForm } from '../../types';
+import DraftList from './DraftList';
+import StorageRecoveryPanel from './StorageRecoveryPanel';
+import ImportFormsDialog from './ImportFormsDialog';
+import FormListToolbar from './FormListToolbar';
+import FolderSidebar from './FolderSidebar';
+import OrganizeFormsDialog, { type OrganizeMode } from './OrganizeFormsDialog';
+import TrashDialog from './TrashDialog';
 
 const FormManager: React.FC = () => {
   const navigate = useNavigate();
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
-  const { showError } = useNotification();
+  const { showError, showSuccess } = useNotification();
   const { withLoading } = useLoading();
+  const formRepository = useFormRepository();
+  const [searchParams, setSearchParams] = useSearchParams();
 
   const [forms, setForms] = useState<FormSchema[]>([]);
+  const [responseCounts, setResponseCounts] = useState<Record<string, number>>({});
+  const [drafts, setDrafts] = useState<FormDraft[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [errorType, setErrorType] = useState<LocalStorageError['type'] | null>(null);
+  const [recoveryReport, setRecoveryReport] = useState<RecoveryReport | null>(null);
+
+  // Search, filters and sorting live in the URL so views can be shared and survive reloads
+  const query = useMemo(() => FormQueryService.fromSearchParams(searchParams), [searchParams]);
+  const visibleForms = useMemo(() => FormQueryService.applyQuery(forms, query), [forms, query]);
+
+  const handleQueryChange = useCallback((nextQuery: FormListQuery) => {
+    setSearchParams(prev => FormQueryService.toSearchParams(nextQuery, prev), { replace: true });
+  }, [setSearchParams]);
+
+  // Folders and tags
+  const folderTree = useMemo(() => FormOrganizerService.buildFolderTree(forms), [forms]);
+  const folderPaths = useMemo(() => FormOrganizerService.getFolderPaths(forms), [forms]);
+  const tagCounts = useMemo(() => FormOrganizerService.getTagCounts(forms), [forms]);
+  const [organizeMode, setOrganizeMode] = useState<OrganizeMode | null>(null);
+  // The sidebar is only shown once forms have been organized
+  const hasOrganization = folderTree.length > 0 || tagCounts.length > 0 || query.folder !== null;
 
   // Selection and delete state
   const [selectedForms, setSelectedForms] = useState<Set<string>>(new Set());
@@ -65,6 +119,15 @@ const FormManager: React.FC = () => {
   const [formToDelete, setFormToDelete] = useState<FormSchema | null>(null);
   const [menuAnchorEl, setMenuAnchorEl] = useState<null | HTMLElement>(null);
 
+  // Trash state
+  const [trashItems, setTrashItems] = useState<TrashedForm[]>([]);
+  const [trashOpen, setTrashOpen] = useState(false);
+
+  // Import state
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importBundle, setImportBundle] = useState<ParsedFormBundle | null>(null);
+  const [importFileName, setImportFileName] = useState('');
+
   useEffect(() => {
     loadForms();
   }, []);
@@ -73,23 +136,64 @@ const FormManager: React.FC = () => {
     try {
       await withLoading(async () => {
         setError(null);
+        setErrorType(null);
 
         // Add a small delay to show loading state for better UX
         await new Promise(resolve => setTimeout(resolve, 500));
 
-        const savedForms = LocalStorageService.getForms();
+        const savedForms = await formRepository.getForms();
+        await loadTrash();
         setForms(savedForms);
+        setResponseCounts(SubmissionStorageService.getSubmissionCounts());
+        setDrafts(DraftStorageService.getDrafts());
         setLoading(false);
       }, 'Loading your forms...');
     } catch (err) {
       console.error('Error loading forms:', err);
       const errorMessage = ErrorHandler.getDetailedMessage(err);
       setError(errorMessage);
+      setErrorType(err && typeof err === 'object' && 'type' in err ? (err as LocalStorageError).type : null);
       showError(errorMessage);
       setLoading(false);
     }
   };
 
+  /**
+   * Purge forms that have expired from the trash and load the rest. A trash that cannot be
+   * read must not keep the saved forms from loading, so errors are only logged.
+   */
+  const loadTrash = async () => {
+    try {
+      await FormTrashService.purgeExpired(formRepository);
+      setTrashItems(await FormTrashService.getTrashedForms(formRepository));
+    } catch (err) {
+      console.error('Error loading trash:', err);
+    }
+  };
+
+  /**
+   * Reload forms without the loading state, e.g. after another tab changed them
+   */
+  const refreshForms = async () => {
+    try {
+      const savedForms = await formRepository.getForms();
+      const savedIds = new Set(savedForms.map(form => form.id));
+      await loadTrash();
+      setForms(savedForms);
+      setResponseCounts(SubmissionStorageService.getSubmissionCounts());
+      setDrafts(DraftStorageService.getDrafts());
+      setSelectedForms(prev => new Set([...prev].filter(id => savedIds.has(id))));
+      setError(null);
+      setErrorType(null);
+    } catch (err) {
+      console.error('Error refreshing forms:', err);
+    }
+  };
+
+  useFormSync(() => {
+    refreshForms();
+  });
+
   const formatDate = (date: Date): string => {
     return new Intl.DateTimeFormat('en-US', {
       year: 'numeric',
@@ -112,6 +216,224 @@ const FormManager: React.FC = () => {
     navigate(`/preview/${formId}`);
   };
 
+  const handleEditForm = (formId: string) => {
+    navigate(`/edit/${formId}`);
+  };
+
+  const handleDuplicateForm = async (form: FormSchema) => {
+    try {
+      const copy = FormCloneService.duplicate(
+        form,
+        FormCloneService.getCopyName(form.name, forms.map(existing => existing.name))
+      );
+      await formRepository.saveForm(copy);
+      setForms(prev => [...prev, copy]);
+      showSuccess(`Created "${copy.name}"`);
+    } catch (error) {
+      showError(ErrorHandler.getDetailedMessage(error));
+    }
+  };
+
+  const handleViewResponses = (formId: string) => {
+    navigate(`/forms/${formId}/responses`);
+  };
+
+  const handleContinueDraft = (draft: FormDraft) => {
+    const isSavedForm = forms.some(form => form.id === draft.formId);
+    navigate(isSavedForm
+      ? `/edit/${draft.formId}?draft=${encodeURIComponent(draft.formId)}`
+      : `/create?draft=${encodeURIComponent(draft.formId)}`);
+  };
+
+  const handleDiscardDraft = (draft: FormDraft) => {
+    try {
+      DraftStorageService.deleteDraft(draft.formId);
+      setDrafts(prev => prev.filter(d => d.formId !== draft.formId));
+    } catch (error) {
+      showError(ErrorHandler.getDetailedMessage(error));
+    }
+  };
+
+  // Import and export handlers
+  const handleExportForms = (formsToExport: FormSchema[]) => {
+    if (formsToExport.length === 0) return;
+    try {
+      const file = FormBundleService.exportForms(formsToExport);
+      downloadFile(file.content, file.filename, file.mimeType);
+      showSuccess(`Exported ${formsToExport.length} form${formsToExport.length !== 1 ? 's' : ''}`);
+    } catch (error) {
+      showError(ErrorHandler.getDetailedMessage(error));
+    }
+  };
+
+  const handleImportFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset so choosing the same file again still triggers a change
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const bundle = FormBundleService.parseBundle(await file.text());
+      if (bundle.entries.length === 0) {
+        showError('The file does not contain any forms');
+        return;
+      }
+      setImportFileName(file.name);
+      setImportBundle(bundle);
+    } catch (error) {
+      showError(`Could not import "${file.name}": ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleFormsImported = async (results: FormImportResult[]) => {
+    await refreshForms();
+    const savedCount = results.filter(result => result.formId).length;
+    if (savedCount > 0) {
+      showSuccess(`Imported ${savedCount} form${savedCount !== 1 ? 's' : ''}`);
+    }
+  };
+
+  const importControls = (
+    <>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        hidden
+        onChange={handleImportFileChange}
+      />
+      <ImportFormsDialog
+        bundle={importBundle}
+        fileName={importFileName}
+        existingForms={forms}
+        onClose={() => setImportBundle(null)}
+        onImported={handleFormsImported}
+      />
+    </>
+  );
+
+  const recoveryReportDialog = (
+    <Dialog open={Boolean(recoveryReport)} onClose={() => setRecoveryReport(null)} maxWidth="sm" fullWidth>
+      <DialogTitle>Recovery Complete</DialogTitle>
+      <DialogContent>
+        <DialogContentText sx={{ mb: 2 }}>
+          {recoveryReport?.recovered.length || 0} form{recoveryReport?.recovered.length === 1 ? ' was' : 's were'} recovered
+          {recoveryReport && recoveryReport.lost.length > 0
+            ? ` and ${recoveryReport.lost.length} could not be read. Unreadable entries are kept under "${recoveryReport.quarantineKey}" in browser storage.`
+            : '.'}
+        </DialogContentText>
+        {recoveryReport && recoveryReport.recovered.length > 0 && (
+          <>
+            <Typography variant="subtitle2">Recovered</Typography>
+            <Box component="ul" sx={{ mt: 0.5 }}>
+              {recoveryReport.recovered.map(form => (
+                <li key={form.id}>
+                  <Typography variant="body2">{form.name || form.id}</Typography>
+                </li>
+              ))}
+            </Box>
+          </>
+        )}
+        {recoveryReport && recoveryReport.lost.length > 0 && (
+          <>
+            <Typography variant="subtitle2" color="error">Lost</Typography>
+            <Box component="ul" sx={{ mt: 0.5 }}>
+              {recoveryReport.lost.map((entry, index) => (
+                <li key={`${entry.key}-${index}`}>
+                  <Typography variant="body2">
+                    {entry.key}: {entry.reason}
+                  </Typography>
+                </li>
+              ))}
+            </Box>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={() => setRecoveryReport(null)} variant="contained">
+          OK
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+
+  const formNames = Object.fromEntries(forms.map(form => [form.id, form.name]));
+
+  // Drafts of trashed forms come back when the form is restored
+  const trashedIds = new Set(trashItems.map(item => item.form.id));
+
+  const draftList = (
+    <DraftList
+      drafts={drafts.filter(draft => !trashedIds.has(draft.formId))}
+      formNames={formNames}
+      onContinue={handleContinueDraft}
+      onDiscard={handleDiscardDraft}
+      formatDate={formatDate}
+    />
+  );
+
+  // Folder and tag handlers
+  const handleSelectFolder = (folder: string | null) => {
+    handleQueryChange({ ...query, folder });
+  };
+
+  const handleToggleTag = (tag: string) => {
+    const isSelected = query.tags.some(selected => selected.toLowerCase() === tag.toLowerCase());
+    handleQueryChange({
+      ...query,
+      tags: isSelected
+        ? query.tags.filter(selected => selected.toLowerCase() !== tag.toLowerCase())
+        : [...query.tags, tag],
+    });
+  };
+
+  /**
+   * Save organizing changes (folder, tags) to some forms. The form version is not changed,
+   * since responses are tied to the version of the fields.
+   */
+  const updateForms = async (formIds: Set<string>, update: (form: FormSchema) => FormSchema) => {
+    const updated = forms.filter(form => formIds.has(form.id)).map(update);
+    for (const form of updated) {
+      await formRepository.saveForm(form);
+    }
+    const updatedById = new Map(updated.map(form => [form.id, form]));
+    setForms(prev => prev.map(form => updatedById.get(form.id) || form));
+  };
+
+  const handleMoveToFolder = async (folder: string) => {
+    try {
+      const count = selectedForms.size;
+      await updateForms(selectedForms, form => FormOrganizerService.moveToFolder(form, folder));
+      setOrganizeMode(null);
+      handleClearSelection();
+      showSuccess(folder
+        ? `Moved ${count} form${count !== 1 ? 's' : ''} to "${folder}"`
+        : `Removed ${count} form${count !== 1 ? 's' : ''} from their folder`);
+    } catch (error) {
+      showError(ErrorHandler.getDetailedMessage(error));
+    }
+  };
+
+  const handleAddTags = async (tags: string[]) => {
+    try {
+      const count = selectedForms.size;
+      await updateForms(selectedForms, form => FormOrganizerService.addTags(form, tags));
+      setOrganizeMode(null);
+      handleClearSelection();
+      showSuccess(`Tagged ${count} form${count !== 1 ? 's' : ''}`);
+    } catch (error) {
+      showError(ErrorHandler.getDetailedMessage(error));
+    }
+  };
+
+  const handleRemoveTag = async (form: FormSchema, tag: string) => {
+    try {
+      await updateForms(new Set([form.id]), current => FormOrganizerService.removeTag(current, tag));
+    } catch (error) {
+      showError(ErrorHandler.getDetailedMessage(error));
+    }
+  };
+
   // Selection handlers
   const handleToggleSelection = (formId: string) => {
     const newSelection = new Set(selectedForms);
@@ -123,11 +445,14 @@ const FormManager: React.FC = () => {
     setSelectedForms(newSelection);
   };
 
+  // Select or clear the forms currently shown by the filters
+  const allVisibleSelected = visibleForms.length > 0 && visibleForms.every(form => selectedForms.has(form.id));
+
   const handleSelectAll = () => {
-    if (selectedForms.size === forms.length) {
+    if (allVisibleSelected) {
       setSelectedForms(new Set());
     } else {
-      setSelectedForms(new Set(forms.map(form => form.id)));
+      setSelectedForms(new Set(visibleForms.map(form => form.id)));
     }
   };
 
@@ -150,15 +475,31 @@ const FormManager: React.FC = () => {
     setDeleteAllDialogOpen(true);
   };
 
+  /**
+   * Tell the user where deleted forms went, with an Undo that restores them
+   */
+  const showTrashedNotification = (trashed: TrashedForm[]) => {
+    showSuccess(
+      trashed.length === 1
+        ? `"${trashed[0].form.name}" moved to Trash`
+        : `${trashed.length} forms moved to Trash`,
+      8000,
+      { label: 'Undo', onClick: () => handleRestoreForms(trashed.map(item => item.id)) }
+    );
+  };
+
   const confirmDeleteForm = async () => {
     if (formToDelete) {
       try {
+        let trashed: TrashedForm[] = [];
         await withLoading(async () => {
-          LocalStorageService.deleteForm(formToDelete.id);
+          trashed = await FormTrashService.trashForms([formToDelete], formRepository);
           setForms(prev => prev.filter(f => f.id !== formToDelete.id));
+          await loadTrash();
           setDeleteDialogOpen(false);
           setFormToDelete(null);
         }, 'Deleting form...');
+        showTrashedNotification(trashed);
       } catch (error) {
         showError('Failed to delete form. Please try again.');
       }
@@ -167,34 +508,83 @@ const FormManager: React.FC = () => {
 
   const confirmDeleteSelected = async () => {
     try {
+      const formsToTrash = forms.filter(form => selectedForms.has(form.id));
+      let trashed: TrashedForm[] = [];
       await withLoading(async () => {
-        selectedForms.forEach(formId => {
-          LocalStorageService.deleteForm(formId);
-        });
+        trashed = await FormTrashService.trashForms(formsToTrash, formRepository);
         setForms(prev => prev.filter(f => !selectedForms.has(f.id)));
+        await loadTrash();
         setSelectedForms(new Set());
         setSelectionMode(false);
         setDeleteDialogOpen(false);
       }, `Deleting ${selectedForms.size} form${selectedForms.size > 1 ? 's' : ''}...`);
+      showTrashedNotification(trashed);
     } catch (error) {
+      // Some forms may have been moved before the failure
+      refreshForms();
       showError('Failed to delete selected forms. Please try again.');
     }
   };
 
   const confirmDeleteAll = async () => {
     try {
+      const formsToTrash = forms;
+      let trashed: TrashedForm[] = [];
       await withLoading(async () => {
-        LocalStorageService.clearAllForms();
+        trashed = await FormTrashService.trashForms(formsToTrash, formRepository);
         setForms([]);
+        await loadTrash();
         setSelectedForms(new Set());
         setSelectionMode(false);
         setDeleteAllDialogOpen(false);
       }, 'Deleting all forms...');
+      showTrashedNotification(trashed);
     } catch (error) {
+      refreshForms();
       showError('Failed to delete all forms. Please try again.');
     }
   };
 
+  // Trash handlers
+  const handleRestoreForms = async (ids: string[]) => {
+    try {
+      const restored = await FormTrashService.restoreForms(ids, formRepository);
+      await refreshForms();
+      if (restored.length > 0) {
+        showSuccess(restored.length === 1
+          ? `"${restored[0].name}" restored`
+          : `${restored.length} forms restored`);
+      }
+    } catch (error) {
+      await loadTrash();
+      showError(ErrorHandler.getDetailedMessage(error));
+    }
+  };
+
+  const handlePurgeForms = async (ids: string[]) => {
+    try {
+      await FormTrashService.purgeForms(ids, formRepository);
+      await loadTrash();
+      setResponseCounts(SubmissionStorageService.getSubmissionCounts());
+      setDrafts(DraftStorageService.getDrafts());
+      showSuccess(`Deleted ${ids.length} form${ids.length !== 1 ? 's' : ''} forever`);
+    } catch (error) {
+      showError(ErrorHandler.getDetailedMessage(error));
+    }
+  };
+
+  const trashDialog = (
+    <TrashDialog
+      open={trashOpen}
+      items={trashItems}
+      responseCounts={responseCounts}
+      formatDate={formatDate}
+      onClose={() => setTrashOpen(false)}
+      onRestore={handleRestoreForms}
+      onPurge={handlePurgeForms}
+    />
+  );
+
   const handleMenuOpen = (event: React.MouseEvent<HTMLElement>) => {
     setMenuAnchorEl(event.currentTarget);
   };
@@ -265,6 +655,15 @@ const FormManager: React.FC = () => {
         >
           Try Again
         </FeedbackButton>
+        {errorType === 'corrupted_data' && (
+          <StorageRecoveryPanel
+            onRecovered={(report) => {
+              setRecoveryReport(report);
+              loadForms();
+            }}
+            onReset={loadForms}
+          />
+        )}
       </ResponsiveLayout>
     );
   }
@@ -284,6 +683,10 @@ const FormManager: React.FC = () => {
         >
           My Forms
         </Typography>
+        {draftList}
+        {recoveryReportDialog}
+        {importControls}
+        {trashDialog}
         <Paper
           elevation={0}
           sx={{
@@ -302,15 +705,34 @@ const FormManager: React.FC = () => {
           <Typography variant="body1" color="text.secondary" paragraph>
             You haven't created any forms yet. Start building your first form to see it here.
           </Typography>
-          <Button
-            variant="contained"
-            onClick={() => navigate('/create')}
-            size="large"
-            startIcon={<Add />}
-            sx={{ mt: 2 }}
-          >
-            Create Your First Form
-          </Button>
+          <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2} justifyContent="center" sx={{ mt: 2 }}>
+            <Button
+              variant="contained"
+              onClick={() => navigate('/create')}
+              size="large"
+              startIcon={<Add />}
+            >
+              Create Your First Form
+            </Button>
+            <Button
+              variant="outlined"
+              onClick={() => fileInputRef.current?.click()}
+              size="large"
+              startIcon={<FileUpload />}
+            >
+              Import Forms
+            </Button>
+            {trashItems.length > 0 && (
+              <Button
+                variant="text"
+                onClick={() => setTrashOpen(true)}
+                size="large"
+                startIcon={<RestoreFromTrash />}
+              >
+                Trash ({trashItems.length})
+              </Button>
+            )}
+          </Stack>
         </Paper>
       </ResponsiveLayout>
     );
@@ -354,9 +776,33 @@ const FormManager: React.FC = () => {
               <Button
                 size="small"
                 onClick={handleSelectAll}
-                startIcon={selectedForms.size === forms.length ? <Clear /> : <SelectAll />}
+                startIcon={allVisibleSelected ? <Clear /> : <SelectAll />}
               >
-                {selectedForms.size === forms.length ? 'Clear All' : 'Select All'}
+                {allVisibleSelected ? 'Clear All' : 'Select All'}
+              </Button>
+              <Button
+                size="small"
+                onClick={() => setOrganizeMode('folder')}
+                disabled={selectedForms.size === 0}
+                startIcon={<DriveFileMove />}
+              >
+                Move to Folder
+              </Button>
+              <Button
+                size="small"
+                onClick={() => setOrganizeMode('tags')}
+                disabled={selectedForms.size === 0}
+                startIcon={<LocalOffer />}
+              >
+                Add Tags
+              </Button>
+              <Button
+                size="small"
+                onClick={() => handleExportForms(forms.filter(form => selectedForms.has(form.id)))}
+                disabled={selectedForms.size === 0}
+                startIcon={<FileDownload />}
+              >
+                Export Selected
               </Button>
               <Button
                 size="small"
@@ -425,6 +871,24 @@ const FormManager: React.FC = () => {
           </ListItemIcon>
           <ListItemText>Select Forms</ListItemText>
         </MenuItem>
+        <MenuItem onClick={() => { fileInputRef.current?.click(); handleMenuClose(); }}>
+          <ListItemIcon>
+            <FileUpload fontSize="small" />
+          </ListItemIcon>
+          <ListItemText>Import Forms</ListItemText>
+        </MenuItem>
+        <MenuItem onClick={() => { handleExportForms(forms); handleMenuClose(); }}>
+          <ListItemIcon>
+            <FileDownload fontSize="small" />
+          </ListItemIcon>
+          <ListItemText>Export All Forms</ListItemText>
+        </MenuItem>
+        <MenuItem onClick={() => { setTrashOpen(true); handleMenuClose(); }}>
+          <ListItemIcon>
+            <RestoreFromTrash fontSize="small" />
+          </ListItemIcon>
+          <ListItemText>Trash{trashItems.length > 0 ? ` (${trashItems.length})` : ''}</ListItemText>
+        </MenuItem>
         <Divider />
         <MenuItem onClick={() => { handleDeleteAll(); handleMenuClose(); }} sx={{ color: 'error.main' }}>
           <ListItemIcon>
@@ -434,134 +898,274 @@ const FormManager: React.FC = () => {
         </MenuItem>
       </Menu>
 
-      <Grid container spacing={{ xs: 2, sm: 3 }}>
-        {Array.isArray(forms) && forms.map((form) => {
-          const fieldCounts = getFieldTypeCount(form.fields);
-          const totalFields = form.fields.length;
-
-          return (
-            <Grid size={{ xs: 12, sm: 6, lg: 4 }} key={form.id}>
-              <Card
-                elevation={1}
-                sx={{
-                  height: '100%',
-                  display: 'flex',
-                  flexDirection: 'column',
-                  transition: 'all 0.2s ease-in-out',
-                  borderRadius: 2,
-                  border: '1px solid',
-                  borderColor: selectedForms.has(form.id) ? 'primary.main' : 'divider',
-                  backgroundColor: selectedForms.has(form.id) ? alpha(theme.palette.primary.main, 0.04) : 'background.paper',
-                  '&:hover': {
-                    elevation: 4,
-                    transform: selectionMode ? 'none' : 'translateY(-4px)',
-                    borderColor: 'primary.main',
-                    boxShadow: theme.shadows[8],
-                  }
-                }}
-              >
-                <CardContent sx={{ flexGrow: 1, p: 3 }}>
-                  <Box sx={{ display: 'flex', alignItems: 'flex-start', justifyContent: 'space-between', mb: 1 }}>
-                    <Typography
-                      variant="h6"
-                      component="h2"
-                      noWrap
-                      sx={{
-                        fontWeight: 600,
-                        color: 'text.primary',
-                        flex: 1,
-                        mr: 1,
-                      }}
-                    >
-                      {form.name}
-                    </Typography>
-
-                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
-                      {selectionMode && (
-                        <Checkbox
-                          checked={selectedForms.has(form.id)}
-                          onChange={() => handleToggleSelection(form.id)}
-                          size="small"
-                        />
-                      )}
-                      {!selectionMode && (
-                        <IconButton
-                          size="small"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            handleDeleteForm(form);
-                          }}
+      {draftList}
+      {recoveryReportDialog}
+      {importControls}
+      {trashDialog}
+      <OrganizeFormsDialog
+        mode={organizeMode}
+        formCount={selectedForms.size}
+        folderOptions={folderPaths}
+        tagOptions={tagCounts.map(({ tag }) => tag)}
+        onClose={() => setOrganizeMode(null)}
+        onMoveToFolder={handleMoveToFolder}
+        onAddTags={handleAddTags}
+      />
+
+      <Box sx={{ display: 'flex', flexDirection: { xs: 'column', md: 'row' }, gap: { xs: 2, md: 3 }, alignItems: 'flex-start' }}>
+        {hasOrganization && (
+          <Box sx={{ width: { xs: '100%', md: 240 }, flexShrink: 0, position: { md: 'sticky' }, top: { md: 16 } }}>
+            <FolderSidebar
+              folders={folderTree}
+              tags={tagCounts}
+              totalCount={forms.length}
+              unfiledCount={forms.filter(form => !form.folder).length}
+              selectedFolder={query.folder}
+              selectedTags={query.tags}
+              onSelectFolder={handleSelectFolder}
+              onToggleTag={handleToggleTag}
+            />
+          </Box>
+        )}
+
+        <Box sx={{ flex: 1, minWidth: 0, width: '100%' }}>
+          <FormListToolbar
+            query={query}
+            onChange={handleQueryChange}
+            visibleCount={visibleForms.length}
+            totalCount={forms.length}
+          />
+
+          {visibleForms.length === 0 && (
+            <Paper
+              elevation={0}
+              sx={{
+                p: { xs: 3, sm: 4 },
+                textAlign: 'center',
+                border: '1px dashed',
+                borderColor: 'divider',
+                borderRadius: 2,
+              }}
+            >
+              <Typography variant="body1" color="text.secondary" gutterBottom>
+                No forms match your search and filters.
+              </Typography>
+              <Button onClick={() => handleQueryChange(FormQueryService.clearFilters(query))}>
+                Clear filters
+              </Button>
+            </Paper>
+          )}
+
+          <Grid container spacing={{ xs: 2, sm: 3 }}>
+            {visibleForms.map((form) => {
+              const fieldCounts = getFieldTypeCount(form.fields);
+              const totalFields = form.fields.length;
+
+              return (
+                <Grid size={{ xs: 12, sm: 6, lg: 4 }} key={form.id}>
+                  <Card
+                    elevation={1}
+                    sx={{
+                      height: '100%',
+                      display: 'flex',
+                      flexDirection: 'column',
+                      transition: 'all 0.2s ease-in-out',
+                      borderRadius: 2,
+                      border: '1px solid',
+                      borderColor: selectedForms.has(form.id) ? 'primary.main' : 'divider',
+                      backgroundColor: selectedForms.has(form.id) ? alpha(theme.palette.primary.main, 0.04) : 'background.paper',
+                      '&:hover': {
+                        elevation: 4,
+                        transform: selectionMode ? 'none' : 'translateY(-4px)',
+                        borderColor: 'primary.main',
+                        boxShadow: theme.shadows[8],
+                      }
+                    }}
+                  >
+                    <CardContent sx={{ flexGrow: 1, p: 3 }}>
+                      <Box sx={{ display: 'flex', alignItems: 'flex-start', justifyContent: 'space-between', mb: 1 }}>
+                        <Typography
+                          variant="h6"
+                          component="h2"
+                          noWrap
                           sx={{
-                            color: 'error.main',
-                            '&:hover': {
-                              backgroundColor: alpha(theme.palette.error.main, 0.1),
-                            }
+                            fontWeight: 600,
+                            color: 'text.primary',
+                            flex: 1,
+                            mr: 1,
                           }}
                         >
-                          <Delete fontSize="small" />
-                        </IconButton>
+                          {form.name}
+                        </Typography>
+
+                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                          {selectionMode && (
+                            <Checkbox
+                              checked={selectedForms.has(form.id)}
+                              onChange={() => handleToggleSelection(form.id)}
+                              size="small"
+                            />
+                          )}
+                          {!selectionMode && (
+                            <IconButton
+                              size="small"
+                              aria-label={`Duplicate ${form.name}`}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleDuplicateForm(form);
+                              }}
+                              sx={{ color: 'text.secondary' }}
+                            >
+                              <ContentCopy fontSize="small" />
+                            </IconButton>
+                          )}
+                          {!selectionMode && (
+                            <IconButton
+                              size="small"
+                              aria-label={`Export ${form.name}`}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleExportForms([form]);
+                              }}
+                              sx={{ color: 'text.secondary' }}
+                            >
+                              <FileDownload fontSize="small" />
+                            </IconButton>
+                          )}
+                          {!selectionMode && (
+                            <IconButton
+                              size="small"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleDeleteForm(form);
+                              }}
+                              sx={{
+                                color: 'error.main',
+                                '&:hover': {
+                                  backgroundColor: alpha(theme.palette.error.main, 0.1),
+                                }
+                              }}
+                            >
+                              <Delete fontSize="small" />
+                            </IconButton>
+                          )}
+                        </Box>
+                      </Box>
+
+                      {form.folder && (
+                        <Stack direction="row" alignItems="center" spacing={1} sx={{ mb: 1 }}>
+                          <Folder sx={{ fontSize: 16, color: 'text.secondary' }} />
+                          <Typography variant="body2" color="text.secondary" noWrap>
+                            {form.folder}
+                          </Typography>
+                        </Stack>
                       )}
-                    </Box>
-                  </Box>
-
-                  <Stack direction="row" alignItems="center" spacing={1} sx={{ mb: 2 }}>
-                    <CalendarToday sx={{ fontSize: 16, color: 'text.secondary' }} />
-                    <Typography variant="body2" color="text.secondary">
-                      {formatDate(form.createdAt)}
-                    </Typography>
-                  </Stack>
-
-                  <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
-                    {totalFields} field{totalFields !== 1 ? 's' : ''}
-                  </Typography>
 
-                  <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
-                    {Object.entries(fieldCounts).slice(0, 3).map(([type, count]) => (
-                      <Chip
-                        key={type}
-                        label={`${count} ${type}`}
-                        size="small"
+                      <Stack direction="row" alignItems="center" spacing={1} sx={{ mb: 2 }}>
+                        <CalendarToday sx={{ fontSize: 16, color: 'text.secondary' }} />
+                        <Typography variant="body2" color="text.secondary">
+                          {formatDate(form.createdAt)}
+                        </Typography>
+                      </Stack>
+
+                      <Stack direction="row" alignItems="center" justifyContent="space-between" sx={{ mb: 2 }}>
+                        <Typography variant="body2" color="text.secondary">
+                          {totalFields} field{totalFields !== 1 ? 's' : ''}
+                        </Typography>
+                        <Button
+                          size="small"
+                          startIcon={<Inbox fontSize="small" />}
+                          onClick={() => handleViewResponses(form.id)}
+                          disabled={selectionMode}
+                          sx={{ textTransform: 'none' }}
+                        >
+                          {responseCounts[form.id] || 0} response{responseCounts[form.id] === 1 ? '' : 's'}
+                        </Button>
+                      </Stack>
+
+                      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                        {Object.entries(fieldCounts).slice(0, 3).map(([type, count]) => (
+                          <Chip
+                            key={type}
+                            label={`${count} ${type}`}
+                            size="small"
+                            variant="outlined"
+                            sx={{
+                              fontSize: '0.75rem',
+                              height: 24,
+                            }}
+                          />
+                        ))}
+                        {Object.entries(fieldCounts).length > 3 && (
+                          <Chip
+                            label={`+${Object.entries(fieldCounts).length - 3} more`}
+                            size="small"
+                            variant="outlined"
+                            sx={{
+                              fontSize: '0.75rem',
+                              height: 24,
+                            }}
+                          />
+                        )}
+                      </Box>
+
+                      {form.tags && form.tags.length > 0 && (
+                        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, mt: 1.5 }}>
+                          {form.tags.map(tag => (
+                            <Chip
+                              key={tag}
+                              icon={<LocalOffer />}
+                              label={tag}
+                              size="small"
+                              color="primary"
+                              variant="outlined"
+                              onClick={() => handleToggleTag(tag)}
+                              onDelete={selectionMode ? undefined : () => handleRemoveTag(form, tag)}
+                              sx={{
+                                fontSize: '0.75rem',
+                                height: 24,
+                              }}
+                            />
+                          ))}
+                        </Box>
+                      )}
+                    </CardContent>
+
+                    <CardActions sx={{ p: 3, pt: 0, gap: 1 }}>
+                      <Button
+                        size="medium"
+                        startIcon={<Edit />}
+                        onClick={() => handleEditForm(form.id)}
                         variant="outlined"
+                        fullWidth
                         sx={{
-                          fontSize: '0.75rem',
-                          height: 24,
+                          py: 1.5,
+                          fontWeight: 500,
                         }}
-                      />
-                    ))}
-                    {Object.entries(fieldCounts).length > 3 && (
-                      <Chip
-                        label={`+${Object.entries(fieldCounts).length - 3} more`}
-                        size="small"
-                        variant="outlined"
+                      >
+                        Edit
+                      </Button>
+                      <Button
+                        size="medium"
+                        startIcon={<Visibility />}
+                        onClick={() => handlePreviewForm(form.id)}
+                        variant="contained"
+                        fullWidth
                         sx={{
-                          fontSize: '0.75rem',
-                          height: 24,
+                          py: 1.5,
+                          fontWeight: 500,
                         }}
-                      />
-                    )}
-                  </Box>
-                </CardContent>
-
-                <CardActions sx={{ p: 3, pt: 0 }}>
-                  <Button
-                    size="medium"
-                    startIcon={<Visibility />}
-                    onClick={() => handlePreviewForm(form.id)}
-                    variant="contained"
-                    fullWidth
-                    sx={{
-                      py: 1.5,
-                      fontWeight: 500,
-                    }}
-                  >
-                    Preview Form
-                  </Button>
-                </CardActions>
-              </Card>
-            </Grid>
-          );
-        })}
-      </Grid>
+                      >
+                        Preview
+                      </Button>
+                    </CardActions>
+                  </Card>
+                </Grid>
+              );
+            })}
+          </Grid>
+        </Box>
+      </Box>
 
       {/* Mobile FAB for creating new form */}
       {isMobile && (
@@ -605,8 +1209,8 @@ const FormManager: React.FC = () => {
         <DialogContent>
           <DialogContentText id="delete-dialog-description">
             {formToDelete
-              ? `Are you sure you want to delete the form "${formToDelete.name}"? This action cannot be undone.`
-              : `Are you sure you want to delete ${selectedForms.size} selected form${selectedForms.size > 1 ? 's' : ''}? This action cannot be undone.`
+              ? `Move the form "${formToDelete.name}" to the Trash? It can be restored with its responses for ${TRASH_RETENTION_DAYS} days.`
+              : `Move ${selectedForms.size} selected form${selectedForms.size > 1 ? 's' : ''} to the Trash? They can be restored with their responses for ${TRASH_RETENTION_DAYS} days.`
             }
           </DialogContentText>
         </DialogContent>
@@ -638,7 +1242,7 @@ const FormManager: React.FC = () => {
         </DialogTitle>
         <DialogContent>
           <DialogContentText id="delete-all-dialog-description">
-            Are you sure you want to delete all {forms.length} form{forms.length > 1 ? 's' : ''}? This action cannot be undone and will permanently remove all your saved forms.
+            Move all {forms.length} form{forms.length > 1 ? 's' : ''} to the Trash? They can be restored with their responses for {TRASH_RETENTION_DAYS} days.
           </DialogContentText>
         </DialogContent>
         <DialogActions>
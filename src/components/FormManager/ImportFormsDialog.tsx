@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  FormLabel,
+  List,
+  ListItem,
+  ListItemText,
+  Radio,
+  RadioGroup,
+} from '@mui/material';
+import { FileUpload } from '@mui/icons-material';
+import {
+  FormBundleService,
+  type FormImportResult,
+  type ImportCollisionStrategy,
+  type ParsedFormBundle,
+} from '../../services';
+import { useFormRepository } from '../../contexts';
+import { ErrorHandler } from '../../utils/errorHandler';
+import type { FormSchema } from '../../types';
+import { FeedbackButton } from '../common';
+
+interface ImportFormsDialogProps {
+  bundle: ParsedFormBundle | null; // dialog is open while a bundle is set
+  fileName: string;
+  existingForms: FormSchema[];
+  onClose: () => void;
+  onImported: (results: FormImportResult[]) => void;
+}
+
+const STATUS_LABELS: Record<FormImportResult['status'], { label: string; color: 'success' | 'info' | 'warning' | 'error' | 'default' }> = {
+  imported: { label: 'Imported', color: 'success' },
+  overwritten: { label: 'Overwritten', color: 'info' },
+  duplicated: { label: 'Imported as copy', color: 'info' },
+  skipped: { label: 'Skipped', color: 'default' },
+  invalid: { label: 'Invalid', color: 'error' },
+  failed: { label: 'Failed', color: 'error' },
+};
+
+const ImportFormsDialog: React.FC<ImportFormsDialogProps> = ({
+  bundle,
+  fileName,
+  existingForms,
+  onClose,
+  onImported,
+}) => {
+  const formRepository = useFormRepository();
+  const [strategy, setStrategy] = useState<ImportCollisionStrategy>('duplicate');
+  const [results, setResults] = useState<FormImportResult[] | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const entries = bundle?.entries || [];
+  const validCount = entries.filter(entry => entry.form).length;
+  const collisions = bundle ? FormBundleService.findCollisions(entries, existingForms) : [];
+
+  const handleClose = () => {
+    setResults(null);
+    setImportError(null);
+    setStrategy('duplicate');
+    onClose();
+  };
+
+  const handleImport = async () => {
+    try {
+      setImportError(null);
+      const importResults = await FormBundleService.importForms(entries, formRepository, strategy);
+      setResults(importResults);
+      onImported(importResults);
+    } catch (error) {
+      setImportError(ErrorHandler.getDetailedMessage(error));
+    }
+  };
+
+  const renderResults = (importResults: FormImportResult[]) => {
+    const savedCount = importResults.filter(result => result.formId).length;
+    return (
+      <>
+        <DialogContentText sx={{ mb: 1 }}>
+          {savedCount} of {importResults.length} form{importResults.length !== 1 ? 's' : ''} imported.
+        </DialogContentText>
+        <List dense>
+          {importResults.map((result, index) => (
+            <ListItem key={`${result.sourceId}-${index}`} divider>
+              <ListItemText
+                primary={result.name}
+                secondary={result.errors.length > 0 ? result.errors.join('; ') : undefined}
+              />
+              <Chip
+                size="small"
+                label={STATUS_LABELS[result.status].label}
+                color={STATUS_LABELS[result.status].color}
+                variant="outlined"
+                sx={{ ml: 1, flexShrink: 0 }}
+              />
+            </ListItem>
+          ))}
+        </List>
+      </>
+    );
+  };
+
+  return (
+    <Dialog open={Boolean(bundle)} onClose={handleClose} maxWidth="sm" fullWidth aria-labelledby="import-dialog-title">
+      <DialogTitle id="import-dialog-title">
+        {results ? 'Import Results' : 'Import Forms'}
+      </DialogTitle>
+      <DialogContent>
+        {importError && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {importError}
+          </Alert>
+        )}
+
+        {results ? renderResults(results) : (
+          <>
+            <DialogContentText sx={{ mb: 1 }}>
+              "{fileName}" contains {entries.length} form{entries.length !== 1 ? 's' : ''}
+              {validCount < entries.length ? `, of which ${entries.length - validCount} cannot be imported` : ''}.
+            </DialogContentText>
+
+            <List dense>
+              {entries.map(entry => (
+                <ListItem key={entry.index} divider>
+                  <ListItemText
+                    primary={entry.name}
+                    secondary={entry.form
+                      ? [`${entry.form.fields.length} field${entry.form.fields.length !== 1 ? 's' : ''}`, ...entry.warnings].join(' · ')
+                      : entry.errors.join('; ')}
+                    secondaryTypographyProps={{ color: entry.form ? 'text.secondary' : 'error' }}
+                  />
+                  {collisions.includes(entry.sourceId) && (
+                    <Chip size="small" label="Already exists" color="warning" variant="outlined" sx={{ ml: 1, flexShrink: 0 }} />
+                  )}
+                </ListItem>
+              ))}
+            </List>
+
+            {collisions.length > 0 && (
+              <Box sx={{ mt: 2 }}>
+                <FormControl>
+                  <FormLabel>
+                    {collisions.length} form{collisions.length !== 1 ? 's have' : ' has'} the same id as a saved form
+                  </FormLabel>
+                  <RadioGroup
+                    value={strategy}
+                    onChange={(e) => setStrategy(e.target.value as ImportCollisionStrategy)}
+                  >
+                    <FormControlLabel value="duplicate" control={<Radio />} label="Import as a copy with a new id" />
+                    <FormControlLabel value="overwrite" control={<Radio />} label="Overwrite the saved form" />
+                    <FormControlLabel value="skip" control={<Radio />} label="Skip it" />
+                  </RadioGroup>
+                </FormControl>
+              </Box>
+            )}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {results ? (
+          <Button onClick={handleClose} variant="contained">
+            Done
+          </Button>
+        ) : (
+          <>
+            <Button onClick={handleClose}>
+              Cancel
+            </Button>
+            <FeedbackButton
+              onClick={handleImport}
+              variant="contained"
+              startIcon={<FileUpload />}
+              disabled={validCount === 0}
+              loadingText="Importing..."
+              successText="Imported!"
+            >
+              Import {validCount} Form{validCount !== 1 ? 's' : ''}
+            </FeedbackButton>
+          </>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ImportFormsDialog;
@@ -0,0 +1,127 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Autocomplete,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  TextField,
+} from '@mui/material';
+import { DriveFileMove, LocalOffer } from '@mui/icons-material';
+import { FormOrganizerService } from '../../services';
+import { FeedbackButton } from '../common';
+
+export type OrganizeMode = 'folder' | 'tags';
+
+interface OrganizeFormsDialogProps {
+  mode: OrganizeMode | null; // dialog is open while a mode is set
+  formCount: number;
+  folderOptions: string[];
+  tagOptions: string[];
+  onClose: () => void;
+  onMoveToFolder: (folder: string) => Promise<void>;
+  onAddTags: (tags: string[]) => Promise<void>;
+}
+
+const OrganizeFormsDialog: React.FC<OrganizeFormsDialogProps> = ({
+  mode,
+  formCount,
+  folderOptions,
+  tagOptions,
+  onClose,
+  onMoveToFolder,
+  onAddTags,
+}) => {
+  const [folder, setFolder] = useState('');
+  const [tags, setTags] = useState<string[]>([]);
+  const [tagInput, setTagInput] = useState('');
+
+  // Start empty each time the dialog opens
+  useEffect(() => {
+    if (mode) {
+      setFolder('');
+      setTags([]);
+      setTagInput('');
+    }
+  }, [mode]);
+
+  const formsLabel = `${formCount} form${formCount !== 1 ? 's' : ''}`;
+  // Include a tag that was typed but not yet turned into a chip
+  const tagsToAdd = [...tags, tagInput].map(tag => FormOrganizerService.normalizeTag(tag)).filter(Boolean);
+
+  const handleConfirm = async () => {
+    if (mode === 'folder') {
+      await onMoveToFolder(FormOrganizerService.normalizeFolderPath(folder));
+    } else if (mode === 'tags' && tagsToAdd.length > 0) {
+      await onAddTags(tagsToAdd);
+    }
+  };
+
+  return (
+    <Dialog open={Boolean(mode)} onClose={onClose} maxWidth="xs" fullWidth aria-labelledby="organize-dialog-title">
+      <DialogTitle id="organize-dialog-title">
+        {mode === 'folder' ? 'Move to Folder' : 'Add Tags'}
+      </DialogTitle>
+      <DialogContent>
+        <DialogContentText sx={{ mb: 2 }}>
+          {mode === 'folder'
+            ? `Choose a folder for ${formsLabel}. Use "/" for subfolders (e.g. Clients/Acme); leave it empty to remove the forms from their folder.`
+            : `Tags are added to ${formsLabel}; tags they already have are kept.`}
+        </DialogContentText>
+
+        {mode === 'folder' && (
+          <Autocomplete
+            freeSolo
+            options={folderOptions}
+            inputValue={folder}
+            onInputChange={(_, value) => setFolder(value)}
+            renderInput={(params) => (
+              <TextField {...params} autoFocus label="Folder" placeholder="No folder" />
+            )}
+          />
+        )}
+
+        {mode === 'tags' && (
+          <Autocomplete
+            multiple
+            freeSolo
+            options={tagOptions}
+            value={tags}
+            onChange={(_, value) => setTags(value)}
+            inputValue={tagInput}
+            onInputChange={(_, value) => setTagInput(value)}
+            renderTags={(value, getTagProps) =>
+              value.map((tag, index) => {
+                const { key, ...tagProps } = getTagProps({ index });
+                return <Chip key={key} label={tag} size="small" {...tagProps} />;
+              })
+            }
+            renderInput={(params) => (
+              <TextField {...params} autoFocus label="Tags" placeholder="Type a tag and press Enter" />
+            )}
+          />
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>
+          Cancel
+        </Button>
+        <FeedbackButton
+          onClick={handleConfirm}
+          variant="contained"
+          disabled={mode === 'tags' && tagsToAdd.length === 0}
+          startIcon={mode === 'folder' ? <DriveFileMove /> : <LocalOffer />}
+          loadingText="Saving..."
+          successText="Done!"
+        >
+          {mode === 'folder' ? 'Move' : 'Add Tags'}
+        </FeedbackButton>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default OrganizeFormsDialog;
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  Stack,
+  Typography,
+} from '@mui/material';
+import { Build, Download, RestartAlt } from '@mui/icons-material';
+import type { RecoveryReport } from '../../services';
+import { useNotification, useFormRepository } from '../../contexts';
+import { ErrorHandler } from '../../utils/errorHandler';
+import { downloadFile } from '../../utils/download';
+
+interface StorageRecoveryPanelProps {
+  onRecovered: (report: RecoveryReport) => void;
+  onReset: () => void;
+}
+
+/**
+ * Actions offered when stored forms cannot be read
+ */
+const StorageRecoveryPanel: React.FC<StorageRecoveryPanelProps> = ({ onRecovered, onReset }) => {
+  const { showError, showSuccess } = useNotification();
+  const formRepository = useFormRepository();
+  const [resetDialogOpen, setResetDialogOpen] = useState(false);
+
+  const handleRecover = async () => {
+    try {
+      onRecovered(await formRepository.recoverForms());
+    } catch (error) {
+      showError(ErrorHandler.getDetailedMessage(error));
+    }
+  };
+
+  const handleDownloadRawData = async () => {
+    try {
+      const raw = await formRepository.getRawData();
+      if (raw === null) {
+        showError('There is no stored form data to download');
+        return;
+      }
+      const date = new Date().toISOString().slice(0, 10);
+      downloadFile(raw, `form-builder-raw-data-${date}.txt`, 'text/plain;charset=utf-8');
+    } catch (error) {
+      showError(ErrorHandler.getDetailedMessage(error));
+    }
+  };
+
+  const handleConfirmReset = async () => {
+    try {
+      await formRepository.resetForms();
+      setResetDialogOpen(false);
+      showSuccess('Storage has been reset');
+      onReset();
+    } catch (error) {
+      showError(ErrorHandler.getDetailedMessage(error));
+    }
+  };
+
+  return (
+    <>
+      <Typography variant="body2" color="text.secondary" sx={{ mt: 3, mb: 1 }}>
+        Readable forms can usually be recovered. Anything that cannot be read is kept aside
+        in browser storage rather than deleted.
+      </Typography>
+      <Stack direction={{ xs: 'column', sm: 'row' }} spacing={1}>
+        <Button variant="contained" startIcon={<Build />} onClick={handleRecover}>
+          Recover Forms
+        </Button>
+        <Button variant="outlined" startIcon={<Download />} onClick={handleDownloadRawData}>
+          Download Raw Data
+        </Button>
+        <Button variant="outlined" color="error" startIcon={<RestartAlt />} onClick={() => setResetDialogOpen(true)}>
+          Reset Storage
+        </Button>
+      </Stack>
+
+      <Dialog open={resetDialogOpen} onClose={() => setResetDialogOpen(false)}>
+        <DialogTitle>Reset Storage?</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            All saved forms will be removed. A copy of the current data is kept aside in
+            browser storage; consider downloading the raw data first.
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setResetDialogOpen(false)}>Cancel</Button>
+          <Button onClick={handleConfirmReset} color="error" variant="contained">
+            Reset Storage
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+};
+
+export default StorageRecoveryPanel;
@@ -0,0 +1,183 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  Stack,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { DeleteForever, RestoreFromTrash } from '@mui/icons-material';
+import { FormTrashService, TRASH_RETENTION_DAYS } from '../../services';
+import type { TrashedForm } from '../../types';
+import { FeedbackButton } from '../common';
+
+interface TrashDialogProps {
+  open: boolean;
+  items: TrashedForm[];
+  responseCounts: Record<string, number>;
+  formatDate: (date: Date) => string;
+  onClose: () => void;
+  onRestore: (ids: string[]) => Promise<void>; // ids of trash entries
+  onPurge: (ids: string[]) => Promise<void>;
+}
+
+const TrashDialog: React.FC<TrashDialogProps> = ({
+  open,
+  items,
+  responseCounts,
+  formatDate,
+  onClose,
+  onRestore,
+  onPurge,
+}) => {
+  // Forms waiting for confirmation before being deleted forever
+  const [purgeIds, setPurgeIds] = useState<string[] | null>(null);
+
+  useEffect(() => {
+    if (!open) {
+      setPurgeIds(null);
+    }
+  }, [open]);
+
+  const allIds = items.map(item => item.id);
+  const purgeCount = purgeIds?.length || 0;
+  // Responses belong to a form id, which several trash entries can share
+  const purgeFormIds = new Set(items.filter(item => purgeIds?.includes(item.id)).map(item => item.form.id));
+  const purgeResponses = [...purgeFormIds].reduce((total, formId) => total + (responseCounts[formId] || 0), 0);
+
+  const handleConfirmPurge = async () => {
+    if (!purgeIds) return;
+    await onPurge(purgeIds);
+    setPurgeIds(null);
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth aria-labelledby="trash-dialog-title">
+      <DialogTitle id="trash-dialog-title">
+        Trash
+      </DialogTitle>
+      <DialogContent>
+        <DialogContentText sx={{ mb: 1 }}>
+          Deleted forms are kept here for {TRASH_RETENTION_DAYS} days, together with their responses,
+          and are then deleted forever.
+        </DialogContentText>
+
+        {items.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ py: 3, textAlign: 'center' }}>
+            The trash is empty
+          </Typography>
+        ) : (
+          <List dense>
+            {items.map(item => {
+              const fieldCount = item.form.fields.length;
+              const responseCount = responseCounts[item.form.id] || 0;
+
+              return (
+                <ListItem
+                  key={item.id}
+                  divider
+                  secondaryAction={
+                    <Stack direction="row" spacing={0.5}>
+                      <Tooltip title="Restore">
+                        <IconButton
+                          size="small"
+                          aria-label={`Restore ${item.form.name}`}
+                          onClick={() => onRestore([item.id])}
+                        >
+                          <RestoreFromTrash fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Delete forever">
+                        <IconButton
+                          size="small"
+                          color="error"
+                          aria-label={`Delete ${item.form.name} forever`}
+                          onClick={() => setPurgeIds([item.id])}
+                        >
+                          <DeleteForever fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    </Stack>
+                  }
+                  sx={{ pr: 12 }}
+                >
+                  <ListItemText
+                    primary={item.form.name}
+                    secondary={[
+                      `${fieldCount} field${fieldCount !== 1 ? 's' : ''}`,
+                      responseCount > 0 ? `${responseCount} response${responseCount !== 1 ? 's' : ''}` : null,
+                      `Deleted ${formatDate(item.deletedAt)}`,
+                      `Deleted forever ${formatDate(FormTrashService.getExpiryDate(item))}`,
+                    ].filter(Boolean).join(' · ')}
+                  />
+                </ListItem>
+              );
+            })}
+          </List>
+        )}
+
+        {purgeIds && (
+          <Alert
+            severity="error"
+            sx={{ mt: 2 }}
+            action={
+              <Box sx={{ display: 'flex', gap: 1 }}>
+                <Button color="inherit" size="small" onClick={() => setPurgeIds(null)}>
+                  Cancel
+                </Button>
+                <FeedbackButton
+                  color="error"
+                  size="small"
+                  variant="contained"
+                  onClick={handleConfirmPurge}
+                  loadingText="Deleting..."
+                  successText="Deleted!"
+                >
+                  Delete Forever
+                </FeedbackButton>
+              </Box>
+            }
+          >
+            {purgeCount === 1
+              ? `"${items.find(item => item.id === purgeIds[0])?.form.name}" will be deleted forever`
+              : `${purgeCount} forms will be deleted forever`}
+            {purgeResponses > 0 && `, along with ${purgeResponses} response${purgeResponses !== 1 ? 's' : ''}`}.
+            This cannot be undone.
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {items.length > 0 && (
+          <>
+            <Button color="error" onClick={() => setPurgeIds(allIds)} sx={{ mr: 'auto' }}>
+              Empty Trash
+            </Button>
+            <FeedbackButton
+              onClick={() => onRestore(allIds)}
+              startIcon={<RestoreFromTrash />}
+              loadingText="Restoring..."
+              successText="Restored!"
+            >
+              Restore All
+            </FeedbackButton>
+          </>
+        )}
+        <Button onClick={onClose} variant="contained">
+          Close
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default TrashDialog;
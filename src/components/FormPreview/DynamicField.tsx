@@ -23,7 +23,9 @@ import {
   AutoAwesome,
 } from '@mui/icons-material';
 import { type FormField } from '../../types';
+import { ValidationEngine, DateRuleService } from '../../services';
 import ValidationHint from './ValidationHint';
+import PasswordChecklist from './PasswordChecklist';
 
 interface DynamicFieldProps {
   field: FormField;
@@ -32,6 +34,8 @@ interface DynamicFieldProps {
   onBlur?: (fieldId: string) => void;
   error?: string[];
   disabled?: boolean;
+  formValues?: Record<string, unknown>; // Other values in the form, for rules that compare fields
+  formFields?: FormField[]; // All fields of the form, for messages that name another field
 }
 
 const DynamicField: React.FC<DynamicFieldProps> = ({
@@ -40,7 +44,9 @@ const DynamicField: React.FC<DynamicFieldProps> = ({
   onChange,
   onBlur,
   error,
-  disabled = false
+  disabled = false,
+  formValues,
+  formFields
 }) => {
   const theme = useTheme();
   const hasError = error && error.length > 0;
@@ -50,6 +56,9 @@ const DynamicField: React.FC<DynamicFieldProps> = ({
   // Derived fields should be disabled and read-only
   const isFieldDisabled = disabled || !!field.derivedFrom;
 
+  // Text fields with a password rule show its requirements as a checklist
+  const passwordRule = field.validation?.find(rule => rule.type === 'customPassword');
+
   // Define the type for validation hints
   interface ValidationHintType {
     message: string;
@@ -229,6 +238,14 @@ const DynamicField: React.FC<DynamicFieldProps> = ({
               endAdornment: getEndAdornment(),
             }}
           />
+          {passwordRule && !isFieldDisabled && (
+            <PasswordChecklist
+              password={String(value ?? '')}
+              policy={passwordRule.policy}
+              values={formValues}
+              fields={formFields}
+            />
+          )}
           {validationInfo.showValidationHint && validationInfo.validationHints.map((hint, index) => (
             <ValidationHint
               key={index}
@@ -247,7 +264,7 @@ const DynamicField: React.FC<DynamicFieldProps> = ({
             fullWidth
             type="number"
             label={field.label}
-            value={value || ''}
+            value={value ?? ''}
             onChange={(e) => handleChange(e.target.value ? Number(e.target.value) : '')}
             onBlur={handleBlur}
             error={hasError}
@@ -259,6 +276,7 @@ const DynamicField: React.FC<DynamicFieldProps> = ({
             InputProps={{
               endAdornment: getEndAdornment(),
             }}
+            inputProps={ValidationEngine.getNumberInputAttributes(field.validation)}
           />
           {validationInfo.showValidationHint && validationInfo.validationHints.map((hint, index) => (
             <ValidationHint
@@ -292,6 +310,14 @@ const DynamicField: React.FC<DynamicFieldProps> = ({
               endAdornment: getEndAdornment(),
             }}
           />
+          {passwordRule && !isFieldDisabled && (
+            <PasswordChecklist
+              password={String(value ?? '')}
+              policy={passwordRule.policy}
+              values={formValues}
+              fields={formFields}
+            />
+          )}
           {validationInfo.showValidationHint && validationInfo.validationHints.map((hint, index) => (
             <ValidationHint
               key={index}
@@ -322,6 +348,7 @@ const DynamicField: React.FC<DynamicFieldProps> = ({
             InputLabelProps={{
               shrink: true,
             }}
+            inputProps={DateRuleService.getDateInputAttributes(field.validation, formValues)}
             InputProps={{
               endAdornment: getEndAdornment(),
             }}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import {
   Typography,
@@ -11,6 +11,11 @@ import {
   Card,
   CardContent,
   Chip,
+  Stepper,
+  Step,
+  StepButton,
+  StepLabel,
+  LinearProgress,
   useTheme,
   alpha,
 } from '@mui/material';
@@ -24,32 +29,48 @@ import {
   ArrowBack,
   Delete,
   Schedule,
+  Inbox,
+  NavigateNext,
+  NavigateBefore,
 } from '@mui/icons-material';
-import type { FormSchema, FormState } from '../../types';
-import { ValidationEngine, DerivedFieldCalculator, LocalStorageService } from '../../services';
+import type { FormSchema, FormState, FormSubmission } from '../../types';
+import {
+  ValidationEngine,
+  DerivedFieldCalculator,
+  ConditionEvaluator,
+  FormPageService,
+  SubmissionStorageService,
+} from '../../services';
+import { ErrorHandler } from '../../utils/errorHandler';
 import { ResponsiveLayout, FeedbackButton } from '../common';
-import { useNotification } from '../../contexts';
+import { useNotification, useFormRepository } from '../../contexts';
+import { useFormSync } from '../../hooks';
 import DynamicField from './DynamicField';
 
 
 interface FormPreviewProps {
   schema?: FormSchema;
   onSubmit?: (values: Record<string, any>) => void;
+  notice?: React.ReactNode; // shown above the form, e.g. when it changed in another tab
 }
 
 const FormPreviewEmptyState: React.FC = () => {
   const theme = useTheme();
   const navigate = useNavigate();
+  const formRepository = useFormRepository();
   const [recentForms, setRecentForms] = useState<FormSchema[]>([]);
 
+  const loadRecentForms = useCallback(() => {
+    formRepository.getForms()
+      .then(forms => setRecentForms(forms.slice(0, 3))) // Show only the 3 most recent forms
+      .catch(error => console.error('Error loading recent forms:', error));
+  }, [formRepository]);
+
   useEffect(() => {
-    try {
-      const forms = LocalStorageService.getForms();
-      setRecentForms(forms.slice(0, 3)); // Show only the 3 most recent forms
-    } catch (error) {
-      console.error('Error loading recent forms:', error);
-    }
-  }, []);
+    loadRecentForms();
+  }, [loadRecentForms]);
+
+  useFormSync(loadRecentForms);
 
   const formatDate = (date: Date): string => {
     return new Intl.DateTimeFormat('en-US', {
@@ -273,8 +294,9 @@ const FormPreviewEmptyState: React.FC = () => {
   );
 };
 
-const FormPreview: React.FC<FormPreviewProps> = ({ schema, onSubmit }) => {
+const FormPreview: React.FC<FormPreviewProps> = ({ schema, onSubmit, notice }) => {
   const theme = useTheme();
+  const navigate = useNavigate();
   const { showSuccess, showError } = useNotification();
 
   const [formState, setFormState] = useState<FormState>({
@@ -284,10 +306,8 @@ const FormPreview: React.FC<FormPreviewProps> = ({ schema, onSubmit }) => {
     isValid: false
   });
   const [hasAttemptedSubmit, setHasAttemptedSubmit] = useState(false);
-  const [submissionData, setSubmissionData] = useState<{
-    values: Record<string, any>;
-    submittedAt: Date;
-  } | null>(null);
+  const [activeStep, setActiveStep] = useState(0);
+  const [submissionData, setSubmissionData] = useState<FormSubmission | null>(null);
 
   // Initialize form values with default values from schema
   useEffect(() => {
@@ -324,6 +344,7 @@ const FormPreview: React.FC<FormPreviewProps> = ({ schema, onSubmit }) => {
 
       // Reset submit attempt state when schema changes
       setHasAttemptedSubmit(false);
+      setActiveStep(0);
     }
   }, [schema]);
 
@@ -340,6 +361,32 @@ const FormPreview: React.FC<FormPreviewProps> = ({ schema, onSubmit }) => {
     }
   }, [formState.values, schema]);
 
+  // Fields whose visibility conditions currently hold
+  const visibleFieldIds = useMemo(
+    () => schema ? ConditionEvaluator.getVisibleFieldIds(schema, formState.values) : new Set<string>(),
+    [schema, formState.values]
+  );
+
+  // Pages whose fields are all hidden are skipped by the wizard
+  const visiblePageGroups = useMemo(
+    () => schema
+      ? FormPageService.groupFieldsByPage(schema).filter(group =>
+        group.fields.some(field => visibleFieldIds.has(field.id))
+      )
+      : [],
+    [schema, visibleFieldIds]
+  );
+  const isMultiPage = visiblePageGroups.length > 1;
+  const currentStep = Math.min(activeStep, Math.max(visiblePageGroups.length - 1, 0));
+  const isLastStep = !isMultiPage || currentStep === visiblePageGroups.length - 1;
+  const currentFields = (isMultiPage ? visiblePageGroups[currentStep].fields : schema?.fields || [])
+    .filter(field => visibleFieldIds.has(field.id));
+  // Submit is only blocked by errors the user can see on this step; untouched fields are
+  // validated when it is clicked, and errors on earlier steps send the user back to them
+  const hasVisibleStepErrors = currentFields.some(field =>
+    formState.touched[field.id] && formState.errors[field.id]?.length
+  );
+
   const handleFieldChange = (fieldId: string, value: any) => {
     setFormState(prev => {
       const newValues = {
@@ -385,10 +432,12 @@ const FormPreview: React.FC<FormPreviewProps> = ({ schema, onSubmit }) => {
     // Mark that user has attempted to submit
     setHasAttemptedSubmit(true);
 
-    // Mark all fields as touched to show validation errors
+    // Mark all visible fields as touched to show validation errors
     const allTouched: Record<string, boolean> = {};
     schema?.fields.forEach(field => {
-      allTouched[field.id] = true;
+      if (visibleFieldIds.has(field.id)) {
+        allTouched[field.id] = true;
+      }
     });
 
     setFormState(prev => ({
@@ -398,31 +447,73 @@ const FormPreview: React.FC<FormPreviewProps> = ({ schema, onSubmit }) => {
 
     // Prevent submission if form is invalid
     if (!formState.isValid) {
+      // Send the user back to the first step that still has errors
+      if (isMultiPage) {
+        const firstInvalidStep = visiblePageGroups.findIndex(group =>
+          group.fields.some(field => formState.errors[field.id]?.length)
+        );
+        if (firstInvalidStep >= 0) {
+          setActiveStep(firstInvalidStep);
+        }
+      }
       // Don't show toast notification - the form-level alert will handle this gracefully
       return;
     }
 
     try {
+      // Values of fields hidden by visibility conditions are not submitted
+      const submittedValues = schema
+        ? ConditionEvaluator.stripHiddenValues(formState.values, schema)
+        : formState.values;
+
       if (onSubmit) {
-        await onSubmit(formState.values);
-      } else {
-        // Default behavior - simulate form submission and show submission view
-        await new Promise(resolve => setTimeout(resolve, 1000));
-        
-        // Set submission data to show submission view
-        setSubmissionData({
-          values: { ...formState.values },
-          submittedAt: new Date()
-        });
-        
+        await onSubmit(submittedValues);
+      } else if (schema) {
+        // Default behavior - persist the response and show submission view
+        const submission = SubmissionStorageService.saveSubmission(
+          schema.id,
+          submittedValues,
+          schema.version || 1
+        );
+        setSubmissionData(submission);
+
         showSuccess('Form submitted successfully!');
       }
     } catch (error) {
       console.error('Form submission error:', error);
-      showError('Failed to submit form. Please try again.');
+      showError(ErrorHandler.getUserMessage(error) || 'Failed to submit form. Please try again.');
     }
   };
 
+  const handleNextStep = (e?: React.FormEvent) => {
+    e?.preventDefault();
+
+    // Only the fields of the current step have to be valid before advancing
+    setFormState(prev => ({
+      ...prev,
+      touched: {
+        ...prev.touched,
+        ...Object.fromEntries(currentFields.map(field => [field.id, true])),
+      }
+    }));
+
+    const stepHasErrors = currentFields.some(field => formState.errors[field.id]?.length);
+    if (stepHasErrors) {
+      setHasAttemptedSubmit(true);
+      return;
+    }
+
+    setHasAttemptedSubmit(false);
+    setActiveStep(currentStep + 1);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handlePreviousStep = () => {
+    setHasAttemptedSubmit(false);
+    setActiveStep(Math.max(currentStep - 1, 0));
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
   const handleReset = () => {
     // Reset to initial values
     const initialValues: Record<string, any> = {};
@@ -457,6 +548,7 @@ const FormPreview: React.FC<FormPreviewProps> = ({ schema, onSubmit }) => {
 
     // Reset submit attempt state when form is reset
     setHasAttemptedSubmit(false);
+    setActiveStep(0);
 
     showSuccess('Form reset successfully!');
   };
@@ -467,6 +559,16 @@ const FormPreview: React.FC<FormPreviewProps> = ({ schema, onSubmit }) => {
   };
 
   const handleDeleteSubmission = () => {
+    if (submissionData) {
+      try {
+        SubmissionStorageService.deleteSubmissions(submissionData.formId, [submissionData.id]);
+      } catch (error) {
+        console.error('Error deleting submission:', error);
+        showError(ErrorHandler.getUserMessage(error));
+        return;
+      }
+    }
+
     setSubmissionData(null);
     setHasAttemptedSubmit(false);
     
@@ -521,6 +623,7 @@ const FormPreview: React.FC<FormPreviewProps> = ({ schema, onSubmit }) => {
   if (submissionData) {
     return (
       <ResponsiveLayout maxWidth="md">
+        {notice}
         <Paper
           elevation={2}
           sx={{
@@ -581,7 +684,7 @@ const FormPreview: React.FC<FormPreviewProps> = ({ schema, onSubmit }) => {
             </Typography>
 
             <Stack spacing={3}>
-              {schema.fields.map((field) => {
+              {schema.fields.filter(field => field.id in submissionData.values).map((field) => {
                 const value = submissionData.values[field.id];
                 const displayValue = getFieldDisplayValue(field, value);
                 const isEmpty = value === null || value === undefined || value === '';
@@ -674,6 +777,19 @@ const FormPreview: React.FC<FormPreviewProps> = ({ schema, onSubmit }) => {
             >
               Back to Form
             </Button>
+            <Button
+              variant="outlined"
+              color="primary"
+              size="large"
+              startIcon={<Inbox />}
+              onClick={() => navigate(`/forms/${schema.id}/responses`)}
+              sx={{
+                minWidth: { xs: '100%', sm: 160 },
+                py: 1.5,
+              }}
+            >
+              View Responses
+            </Button>
             <FeedbackButton
               variant="outlined"
               color="error"
@@ -699,6 +815,7 @@ const FormPreview: React.FC<FormPreviewProps> = ({ schema, onSubmit }) => {
 
   return (
     <ResponsiveLayout maxWidth="md">
+      {notice}
       <Paper
         elevation={2}
         sx={{
@@ -734,7 +851,43 @@ const FormPreview: React.FC<FormPreviewProps> = ({ schema, onSubmit }) => {
 
         <Divider sx={{ mb: 3 }} />
 
-        <Box component="form" onSubmit={handleSubmit} role="form">
+        {/* Wizard progress for multi-page forms */}
+        {isMultiPage && (
+          <Box sx={{ mb: 4 }}>
+            <Stepper activeStep={currentStep} alternativeLabel nonLinear sx={{ mb: 3 }}>
+              {visiblePageGroups.map((group, index) => (
+                <Step key={group.page.id} completed={index < currentStep}>
+                  <StepButton
+                    onClick={() => setActiveStep(index)}
+                    disabled={index > currentStep}
+                  >
+                    <StepLabel>{group.page.title}</StepLabel>
+                  </StepButton>
+                </Step>
+              ))}
+            </Stepper>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+              <LinearProgress
+                variant="determinate"
+                value={((currentStep + 1) / visiblePageGroups.length) * 100}
+                sx={{ flex: 1, height: 8, borderRadius: 4 }}
+              />
+              <Typography variant="body2" color="text.secondary" sx={{ whiteSpace: 'nowrap' }}>
+                Step {currentStep + 1} of {visiblePageGroups.length}
+              </Typography>
+            </Box>
+            <Typography variant="h6" sx={{ fontWeight: 600, mt: 3 }}>
+              {visiblePageGroups[currentStep].page.title}
+            </Typography>
+            {visiblePageGroups[currentStep].page.description && (
+              <Typography variant="body2" color="text.secondary">
+                {visiblePageGroups[currentStep].page.description}
+              </Typography>
+            )}
+          </Box>
+        )}
+
+        <Box component="form" onSubmit={isLastStep ? handleSubmit : handleNextStep} role="form">
           {/* Enhanced form-level validation summary */}
           {(() => {
             const currentErrors = Object.entries(formState.errors)
@@ -754,7 +907,7 @@ const FormPreview: React.FC<FormPreviewProps> = ({ schema, onSubmit }) => {
 
                 // Generate helpful suggestions for each error
                 const suggestions = field?.validation?.map(rule =>
-                  ValidationEngine.getValidationHelpText(rule.type, rule.value)
+                  ValidationEngine.getValidationHelpText(rule.type, rule.value, rule.policy)
                 ).filter(Boolean) || [];
 
                 return {
@@ -783,7 +936,7 @@ const FormPreview: React.FC<FormPreviewProps> = ({ schema, onSubmit }) => {
                 <Typography variant="body2" sx={{ fontWeight: 500 }}>
                   {currentErrors.length === 1
                     ? `Please fill out the "${currentErrors[0].fieldLabel}" field to continue.`
-                    : `Please complete the ${currentErrors.length} required fields to submit your form.`
+                    : `Please complete the ${currentErrors.length} required fields to ${isLastStep ? 'submit your form' : 'continue'}.`
                   }
                 </Typography>
               </Alert>
@@ -791,13 +944,13 @@ const FormPreview: React.FC<FormPreviewProps> = ({ schema, onSubmit }) => {
           })()}
 
           <Stack spacing={3}>
-            {schema.fields.map((field) => {
+            {currentFields.map((field) => {
               const fieldErrors = formState.errors[field.id];
               const fieldValue = formState.values[field.id];
-              const hasValue = fieldValue !== undefined && fieldValue !== null && fieldValue !== '';
 
-              // Only show errors if field is touched, has errors, and doesn't have a valid value
-              const shouldShowErrors = formState.touched[field.id] && fieldErrors && !hasValue;
+              // Only show errors once the field is touched; errors are re-validated on every change,
+              // so filled fields only show errors that still apply (e.g. a confirmation that differs)
+              const shouldShowErrors = formState.touched[field.id] && fieldErrors;
 
               return (
                 <DynamicField
@@ -807,6 +960,8 @@ const FormPreview: React.FC<FormPreviewProps> = ({ schema, onSubmit }) => {
                   onChange={handleFieldChange}
                   onBlur={handleFieldBlur}
                   error={shouldShowErrors ? fieldErrors : undefined}
+                  formValues={formState.values}
+                  formFields={schema.fields}
                 />
               );
             })}
@@ -819,22 +974,54 @@ const FormPreview: React.FC<FormPreviewProps> = ({ schema, onSubmit }) => {
             spacing={2}
             justifyContent="flex-start"
           >
-            <FeedbackButton
-              type="submit"
-              variant="contained"
-              color="primary"
-              size="large"
-              disabled={!formState.isValid && Object.keys(formState.touched).length > 0}
-              onClick={handleSubmit}
-              loadingText="Submitting..."
-              successText="Submitted!"
-              sx={{
-                minWidth: { xs: '100%', sm: 140 },
-                py: 1.5,
-              }}
-            >
-              Submit Form
-            </FeedbackButton>
+            {isMultiPage && currentStep > 0 && (
+              <Button
+                type="button"
+                variant="outlined"
+                size="large"
+                startIcon={<NavigateBefore />}
+                onClick={handlePreviousStep}
+                sx={{
+                  minWidth: { xs: '100%', sm: 120 },
+                  py: 1.5,
+                }}
+              >
+                Back
+              </Button>
+            )}
+
+            {isLastStep ? (
+              <FeedbackButton
+                type="submit"
+                variant="contained"
+                color="primary"
+                size="large"
+                disabled={hasVisibleStepErrors}
+                onClick={handleSubmit}
+                loadingText="Submitting..."
+                successText="Submitted!"
+                sx={{
+                  minWidth: { xs: '100%', sm: 140 },
+                  py: 1.5,
+                }}
+              >
+                Submit Form
+              </FeedbackButton>
+            ) : (
+              <Button
+                type="submit"
+                variant="contained"
+                color="primary"
+                size="large"
+                endIcon={<NavigateNext />}
+                sx={{
+                  minWidth: { xs: '100%', sm: 140 },
+                  py: 1.5,
+                }}
+              >
+                Next
+              </Button>
+            )}
 
             <FeedbackButton
               type="button"
@@ -0,0 +1,81 @@
+import React from 'react';
+import {
+  Box,
+  Typography,
+  LinearProgress,
+  Stack,
+  useTheme,
+} from '@mui/material';
+import {
+  CheckCircle,
+  Cancel,
+  RadioButtonUnchecked,
+} from '@mui/icons-material';
+import type { FormField, PasswordPolicy } from '../../types';
+import { PasswordPolicyService } from '../../services';
+
+interface PasswordChecklistProps {
+  password: string;
+  policy?: PasswordPolicy;
+  values?: Record<string, unknown>; // other form values, for the field the password may not contain
+  fields?: FormField[]; // the form's fields, for that field's label
+}
+
+const PasswordChecklist: React.FC<PasswordChecklistProps> = ({ password, policy, values, fields }) => {
+  const theme = useTheme();
+  const requirements = PasswordPolicyService.getRequirements(password, policy, values, fields);
+  const strength = PasswordPolicyService.getStrength(password, requirements);
+  const strengthColors = [
+    theme.palette.error.main,
+    theme.palette.error.main,
+    theme.palette.warning.main,
+    theme.palette.info.main,
+    theme.palette.success.main,
+  ];
+  const color = strengthColors[strength.score];
+
+  return (
+    <Box sx={{ px: 0.5 }} aria-live="polite">
+      {password && (
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5, mb: 1 }}>
+          <LinearProgress
+            variant="determinate"
+            value={Math.max(strength.score, 0.5) * 25}
+            aria-label="Password strength"
+            sx={{
+              flex: 1,
+              height: 6,
+              borderRadius: 3,
+              backgroundColor: theme.palette.grey[200],
+              '& .MuiLinearProgress-bar': { backgroundColor: color, borderRadius: 3 },
+            }}
+          />
+          <Typography variant="caption" sx={{ color, fontWeight: 600, minWidth: 64, textAlign: 'right' }}>
+            {strength.label}
+          </Typography>
+        </Box>
+      )}
+
+      <Stack spacing={0.25} component="ul" sx={{ m: 0, p: 0, listStyle: 'none' }}>
+        {requirements.map(requirement => {
+          // Nothing is marked as met or failed before the user starts typing
+          const met = Boolean(password) && requirement.met;
+          const Icon = !password ? RadioButtonUnchecked : met ? CheckCircle : Cancel;
+          const iconColor = !password
+            ? theme.palette.text.disabled
+            : met ? theme.palette.success.main : theme.palette.error.main;
+          return (
+            <Box component="li" key={requirement.id} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <Icon sx={{ fontSize: 16, color: iconColor }} />
+              <Typography variant="caption" color={met ? 'text.primary' : 'text.secondary'}>
+                {requirement.label}
+              </Typography>
+            </Box>
+          );
+        })}
+      </Stack>
+    </Box>
+  );
+};
+
+export default PasswordChecklist;
@@ -0,0 +1,647 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Typography,
+  Paper,
+  Button,
+  Box,
+  Alert,
+  Stack,
+  Chip,
+  TextField,
+  InputAdornment,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+  Checkbox,
+  IconButton,
+  Tooltip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  RadioGroup,
+  Radio,
+  FormControlLabel,
+  FormLabel,
+  Switch,
+  useTheme,
+  alpha,
+} from '@mui/material';
+import {
+  ArrowBack,
+  Visibility,
+  Delete,
+  Search,
+  Inbox,
+  Refresh,
+  FileDownload,
+} from '@mui/icons-material';
+import type { FormField, FormSchema, FormSubmission } from '../../types';
+import {
+  SubmissionStorageService,
+  ResponseExportService,
+  DEFAULT_EXPORT_OPTIONS,
+  type ResponseExportOptions,
+} from '../../services';
+import { ResponsiveLayout, LoadingSkeleton, FeedbackButton } from '../common';
+import { useNotification } from '../../contexts';
+import { downloadFile } from '../../utils/download';
+import { ErrorHandler } from '../../utils/errorHandler';
+
+interface FormResponsesProps {
+  schema: FormSchema;
+}
+
+const FormResponses: React.FC<FormResponsesProps> = ({ schema }) => {
+  const theme = useTheme();
+  const navigate = useNavigate();
+  const { showSuccess, showError } = useNotification();
+
+  const [submissions, setSubmissions] = useState<FormSubmission[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Filter state
+  const [searchQuery, setSearchQuery] = useState('');
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [versionFilter, setVersionFilter] = useState<'all' | number>('all');
+
+  // Selection and delete state
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [submissionToDelete, setSubmissionToDelete] = useState<FormSubmission | null>(null);
+
+  // Export state
+  const [exportDialogOpen, setExportDialogOpen] = useState(false);
+  const [exportOptions, setExportOptions] = useState<ResponseExportOptions>(DEFAULT_EXPORT_OPTIONS);
+
+  const loadSubmissions = useCallback(() => {
+    try {
+      setError(null);
+      setSubmissions(SubmissionStorageService.getSubmissions(schema.id));
+      setSelectedIds(new Set());
+    } catch (err) {
+      console.error('Error loading submissions:', err);
+      const errorMessage = ErrorHandler.getDetailedMessage(err);
+      setError(errorMessage);
+      showError(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, [schema.id, showError]);
+
+  useEffect(() => {
+    loadSubmissions();
+  }, [loadSubmissions]);
+
+  const formatDate = (date: Date): string => {
+    return new Intl.DateTimeFormat('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    }).format(new Date(date));
+  };
+
+  const getDisplayValue = (field: FormField, value: unknown): string => {
+    if (value === null || value === undefined || value === '') return '';
+
+    switch (field.type) {
+      case 'checkbox':
+        if (field.options && field.options.length > 0) {
+          return Array.isArray(value) ? value.join(', ') : String(value);
+        }
+        return value ? 'Yes' : 'No';
+      case 'date':
+        return (value instanceof Date ? value : new Date(String(value))).toLocaleDateString();
+      default:
+        return String(value);
+    }
+  };
+
+  const availableVersions = useMemo(
+    () => Array.from(new Set(submissions.map(s => s.schemaVersion))).sort((a, b) => a - b),
+    [submissions]
+  );
+
+  const filteredSubmissions = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    // Date inputs are local calendar days; include the whole "to" day
+    const from = dateFrom ? new Date(`${dateFrom}T00:00:00`).getTime() : null;
+    const to = dateTo ? new Date(`${dateTo}T23:59:59.999`).getTime() : null;
+
+    return submissions.filter(submission => {
+      const submittedAt = new Date(submission.submittedAt).getTime();
+      if (from !== null && submittedAt < from) return false;
+      if (to !== null && submittedAt > to) return false;
+      if (versionFilter !== 'all' && submission.schemaVersion !== versionFilter) return false;
+
+      if (query) {
+        return schema.fields.some(field =>
+          getDisplayValue(field, submission.values[field.id]).toLowerCase().includes(query)
+        );
+      }
+
+      return true;
+    });
+  }, [submissions, searchQuery, dateFrom, dateTo, versionFilter, schema.fields]);
+
+  const hasActiveFilters = Boolean(searchQuery.trim() || dateFrom || dateTo || versionFilter !== 'all');
+  const allFilteredSelected = filteredSubmissions.length > 0 &&
+    filteredSubmissions.every(submission => selectedIds.has(submission.id));
+
+  const handleClearFilters = () => {
+    setSearchQuery('');
+    setDateFrom('');
+    setDateTo('');
+    setVersionFilter('all');
+  };
+
+  // Selection handlers
+  const handleToggleSelection = (submissionId: string) => {
+    const newSelection = new Set(selectedIds);
+    if (newSelection.has(submissionId)) {
+      newSelection.delete(submissionId);
+    } else {
+      newSelection.add(submissionId);
+    }
+    setSelectedIds(newSelection);
+  };
+
+  const handleToggleAll = () => {
+    if (allFilteredSelected) {
+      setSelectedIds(new Set());
+    } else {
+      setSelectedIds(new Set(filteredSubmissions.map(submission => submission.id)));
+    }
+  };
+
+  // Delete handlers
+  const handleDeleteSubmission = (submission: FormSubmission) => {
+    setSubmissionToDelete(submission);
+    setDeleteDialogOpen(true);
+  };
+
+  const handleDeleteSelected = () => {
+    setSubmissionToDelete(null);
+    setDeleteDialogOpen(true);
+  };
+
+  const handleCloseDeleteDialog = () => {
+    setDeleteDialogOpen(false);
+    setSubmissionToDelete(null);
+  };
+
+  const confirmDelete = async () => {
+    const ids = submissionToDelete ? [submissionToDelete.id] : Array.from(selectedIds);
+
+    try {
+      SubmissionStorageService.deleteSubmissions(schema.id, ids);
+      setSubmissions(prev => prev.filter(submission => !ids.includes(submission.id)));
+      setSelectedIds(prev => new Set(Array.from(prev).filter(id => !ids.includes(id))));
+      handleCloseDeleteDialog();
+      showSuccess(`Deleted ${ids.length} response${ids.length > 1 ? 's' : ''}`);
+    } catch (err) {
+      console.error('Error deleting submissions:', err);
+      showError('Failed to delete responses. Please try again.');
+    }
+  };
+
+  // Export handlers
+  const exportScope = selectedIds.size > 0
+    ? filteredSubmissions.filter(submission => selectedIds.has(submission.id))
+    : filteredSubmissions;
+
+  const handleExportOptionChange = <K extends keyof ResponseExportOptions>(
+    key: K,
+    value: ResponseExportOptions[K]
+  ) => {
+    setExportOptions(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleExport = () => {
+    try {
+      const file = ResponseExportService.exportResponses(schema, exportScope, exportOptions);
+      downloadFile(file.content, file.filename, file.mimeType);
+
+      setExportDialogOpen(false);
+      showSuccess(`Exported ${exportScope.length} response${exportScope.length !== 1 ? 's' : ''}`);
+    } catch (err) {
+      console.error('Error exporting responses:', err);
+      showError('Failed to export responses. Please try again.');
+    }
+  };
+
+  const hasCheckboxGroups = schema.fields.some(
+    field => field.type === 'checkbox' && field.options && field.options.length > 0
+  );
+  const hasDerivedFields = schema.fields.some(field => field.derivedFrom);
+
+  const header = (
+    <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: 2 }}>
+      <Box>
+        <Typography
+          variant="h4"
+          component="h1"
+          gutterBottom
+          sx={{
+            fontWeight: 600,
+            fontSize: { xs: '1.75rem', sm: '2rem', md: '2.125rem' },
+            color: 'text.primary',
+            mb: 1,
+          }}
+        >
+          Responses
+        </Typography>
+        <Typography variant="body1" color="text.secondary">
+          {schema.name} · {submissions.length} response{submissions.length !== 1 ? 's' : ''}
+        </Typography>
+      </Box>
+
+      <Stack direction="row" spacing={1}>
+        <Button
+          variant="outlined"
+          startIcon={<ArrowBack />}
+          onClick={() => navigate('/myforms')}
+        >
+          My Forms
+        </Button>
+        <Button
+          variant="contained"
+          startIcon={<Visibility />}
+          onClick={() => navigate(`/preview/${schema.id}`)}
+        >
+          Open Form
+        </Button>
+      </Stack>
+    </Box>
+  );
+
+  if (loading) {
+    return (
+      <ResponsiveLayout maxWidth="xl">
+        {header}
+        <LoadingSkeleton variant="list" count={5} />
+      </ResponsiveLayout>
+    );
+  }
+
+  if (error) {
+    return (
+      <ResponsiveLayout maxWidth="xl">
+        {header}
+        <Alert
+          severity="error"
+          sx={{
+            borderRadius: 2,
+            '& .MuiAlert-message': {
+              width: '100%',
+            },
+          }}
+        >
+          <Typography variant="h6" gutterBottom>
+            Unable to Load Responses
+          </Typography>
+          <Typography variant="body2">
+            {error}
+          </Typography>
+        </Alert>
+        <FeedbackButton
+          variant="contained"
+          onClick={loadSubmissions}
+          startIcon={<Refresh />}
+          loadingText="Loading..."
+          successText="Loaded!"
+          sx={{ alignSelf: 'flex-start' }}
+        >
+          Try Again
+        </FeedbackButton>
+      </ResponsiveLayout>
+    );
+  }
+
+  if (submissions.length === 0) {
+    return (
+      <ResponsiveLayout maxWidth="xl">
+        {header}
+        <Paper
+          elevation={0}
+          sx={{
+            p: { xs: 4, sm: 6 },
+            textAlign: 'center',
+            backgroundColor: alpha(theme.palette.grey[50], 0.5),
+            border: '2px dashed',
+            borderColor: 'divider',
+            borderRadius: 2,
+          }}
+        >
+          <Inbox sx={{ fontSize: { xs: 48, sm: 64 }, color: 'text.disabled', mb: 2 }} />
+          <Typography variant="h6" color="text.secondary" gutterBottom>
+            No responses yet
+          </Typography>
+          <Typography variant="body1" color="text.secondary">
+            Responses will appear here once the form has been submitted.
+          </Typography>
+        </Paper>
+      </ResponsiveLayout>
+    );
+  }
+
+  return (
+    <ResponsiveLayout maxWidth="xl">
+      {header}
+
+      {/* Filters */}
+      <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} alignItems={{ md: 'center' }}>
+        <TextField
+          size="small"
+          label="Search responses"
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          sx={{ flex: 1 }}
+          InputProps={{
+            startAdornment: (
+              <InputAdornment position="start">
+                <Search fontSize="small" />
+              </InputAdornment>
+            ),
+          }}
+        />
+        <TextField
+          size="small"
+          type="date"
+          label="From"
+          value={dateFrom}
+          onChange={(e) => setDateFrom(e.target.value)}
+          InputLabelProps={{ shrink: true }}
+        />
+        <TextField
+          size="small"
+          type="date"
+          label="To"
+          value={dateTo}
+          onChange={(e) => setDateTo(e.target.value)}
+          InputLabelProps={{ shrink: true }}
+        />
+        <FormControl size="small" sx={{ minWidth: 140 }}>
+          <InputLabel>Form version</InputLabel>
+          <Select
+            value={versionFilter}
+            label="Form version"
+            onChange={(e) => setVersionFilter(e.target.value === 'all' ? 'all' : Number(e.target.value))}
+          >
+            <MenuItem value="all">All versions</MenuItem>
+            {availableVersions.map(version => (
+              <MenuItem key={version} value={version}>
+                Version {version}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        {hasActiveFilters && (
+          <Button size="small" onClick={handleClearFilters}>
+            Clear Filters
+          </Button>
+        )}
+      </Stack>
+
+      {/* Selection actions */}
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <Typography variant="body2" color="text.secondary">
+          Showing {filteredSubmissions.length} of {submissions.length}
+          {selectedIds.size > 0 && ` · ${selectedIds.size} selected`}
+        </Typography>
+        <Stack direction="row" spacing={1}>
+          <Button
+            size="small"
+            startIcon={<FileDownload />}
+            onClick={() => setExportDialogOpen(true)}
+            disabled={exportScope.length === 0}
+          >
+            Export
+          </Button>
+          <Button
+            size="small"
+            color="error"
+            startIcon={<Delete />}
+            onClick={handleDeleteSelected}
+            disabled={selectedIds.size === 0}
+          >
+            Delete Selected
+          </Button>
+        </Stack>
+      </Box>
+
+      <TableContainer component={Paper} elevation={1} sx={{ borderRadius: 2 }}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell padding="checkbox">
+                <Checkbox
+                  checked={allFilteredSelected}
+                  indeterminate={selectedIds.size > 0 && !allFilteredSelected}
+                  onChange={handleToggleAll}
+                  disabled={filteredSubmissions.length === 0}
+                />
+              </TableCell>
+              <TableCell sx={{ fontWeight: 600, whiteSpace: 'nowrap' }}>Submitted</TableCell>
+              <TableCell sx={{ fontWeight: 600 }}>Version</TableCell>
+              {schema.fields.map(field => (
+                <TableCell key={field.id} sx={{ fontWeight: 600, whiteSpace: 'nowrap' }}>
+                  {field.label}
+                </TableCell>
+              ))}
+              <TableCell />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {filteredSubmissions.map(submission => (
+              <TableRow
+                key={submission.id}
+                hover
+                selected={selectedIds.has(submission.id)}
+              >
+                <TableCell padding="checkbox">
+                  <Checkbox
+                    checked={selectedIds.has(submission.id)}
+                    onChange={() => handleToggleSelection(submission.id)}
+                  />
+                </TableCell>
+                <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                  {formatDate(submission.submittedAt)}
+                </TableCell>
+                <TableCell>
+                  <Chip
+                    label={`v${submission.schemaVersion}`}
+                    size="small"
+                    variant="outlined"
+                    color={submission.schemaVersion === (schema.version || 1) ? 'default' : 'warning'}
+                  />
+                </TableCell>
+                {schema.fields.map(field => (
+                  <TableCell key={field.id} sx={{ maxWidth: 240 }}>
+                    <Typography variant="body2" noWrap>
+                      {getDisplayValue(field, submission.values[field.id]) || (
+                        <Box component="span" sx={{ color: 'text.disabled' }}>—</Box>
+                      )}
+                    </Typography>
+                  </TableCell>
+                ))}
+                <TableCell align="right">
+                  <Tooltip title="Delete response">
+                    <IconButton
+                      size="small"
+                      onClick={() => handleDeleteSubmission(submission)}
+                      sx={{ color: 'error.main' }}
+                    >
+                      <Delete fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                </TableCell>
+              </TableRow>
+            ))}
+            {filteredSubmissions.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={schema.fields.length + 4} align="center" sx={{ py: 4 }}>
+                  <Typography variant="body2" color="text.secondary">
+                    No responses match the current filters
+                  </Typography>
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      {/* Export Dialog */}
+      <Dialog
+        open={exportDialogOpen}
+        onClose={() => setExportDialogOpen(false)}
+        aria-labelledby="export-dialog-title"
+        maxWidth="sm"
+        fullWidth
+      >
+        <DialogTitle id="export-dialog-title">
+          Export Responses
+        </DialogTitle>
+        <DialogContent>
+          <DialogContentText sx={{ mb: 2 }}>
+            {selectedIds.size > 0
+              ? `Export the ${exportScope.length} selected response${exportScope.length !== 1 ? 's' : ''}.`
+              : `Export the ${exportScope.length} response${exportScope.length !== 1 ? 's' : ''} matching the current filters.`
+            }
+          </DialogContentText>
+
+          <Stack spacing={2}>
+            <FormControl>
+              <FormLabel>Format</FormLabel>
+              <RadioGroup
+                value={exportOptions.format}
+                onChange={(e) => handleExportOptionChange('format', e.target.value as ResponseExportOptions['format'])}
+              >
+                <FormControlLabel value="csv" control={<Radio />} label="CSV (.csv)" />
+                <FormControlLabel value="xml" control={<Radio />} label="Excel spreadsheet (.xml, XML Spreadsheet 2003)" />
+                <FormControlLabel value="json" control={<Radio />} label="JSON (.json)" />
+              </RadioGroup>
+            </FormControl>
+
+            {hasCheckboxGroups && (
+              <FormControl>
+                <FormLabel>Checkbox groups</FormLabel>
+                <RadioGroup
+                  value={exportOptions.checkboxGroupMode}
+                  onChange={(e) => handleExportOptionChange('checkboxGroupMode', e.target.value as ResponseExportOptions['checkboxGroupMode'])}
+                >
+                  <FormControlLabel value="joined" control={<Radio />} label="One column with selected options joined" />
+                  <FormControlLabel value="split" control={<Radio />} label="One true/false column per option" />
+                </RadioGroup>
+              </FormControl>
+            )}
+
+            {hasDerivedFields && (
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={exportOptions.includeDerivedFields}
+                    onChange={(e) => handleExportOptionChange('includeDerivedFields', e.target.checked)}
+                  />
+                }
+                label="Include derived fields"
+              />
+            )}
+
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={exportOptions.includeMetadata}
+                  onChange={(e) => handleExportOptionChange('includeMetadata', e.target.checked)}
+                />
+              }
+              label="Include response ID, submission time and form version"
+            />
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setExportDialogOpen(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant="contained"
+            startIcon={<FileDownload />}
+            onClick={handleExport}
+          >
+            Export
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog
+        open={deleteDialogOpen}
+        onClose={handleCloseDeleteDialog}
+        aria-labelledby="delete-response-dialog-title"
+        aria-describedby="delete-response-dialog-description"
+      >
+        <DialogTitle id="delete-response-dialog-title">
+          {submissionToDelete ? 'Delete Response' : 'Delete Selected Responses'}
+        </DialogTitle>
+        <DialogContent>
+          <DialogContentText id="delete-response-dialog-description">
+            {submissionToDelete
+              ? `Are you sure you want to delete the response submitted on ${formatDate(submissionToDelete.submittedAt)}? This action cannot be undone.`
+              : `Are you sure you want to delete ${selectedIds.size} selected response${selectedIds.size > 1 ? 's' : ''}? This action cannot be undone.`
+            }
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleCloseDeleteDialog} color="primary">
+            Cancel
+          </Button>
+          <FeedbackButton
+            onClick={confirmDelete}
+            color="error"
+            variant="contained"
+            startIcon={<Delete />}
+            loadingText="Deleting..."
+            successText="Deleted!"
+          >
+            Delete
+          </FeedbackButton>
+        </DialogActions>
+      </Dialog>
+    </ResponsiveLayout>
+  );
+};
+
+export default FormResponses;
@@ -0,0 +1 @@
+export { default as FormResponses } from './FormResponses';
\ No newline at end of file
@@ -1,5 +1,6 @@
 export * from './FormBuilder';
 export * from './FormPreview';
 export * from './FormManager';
+export * from './FormResponses';
 export * from './common';
 export { default as Navigation } from './Navigation';
\ No newline at end of file
@@ -0,0 +1,62 @@
+import React, { useEffect, useState } from 'react';
+import { Box, CircularProgress } from '@mui/material';
+import {
+  createFormRepository,
+  LocalStorageFormRepository,
+  SyncedFormRepository,
+  type FormRepository,
+  type FormRepositoryPreference,
+} from '../services';
+import { FormRepositoryContext } from './useFormRepository';
+
+interface FormRepositoryProviderProps {
+  children: React.ReactNode;
+  // Use a specific repository instead of creating one at start
+  repository?: FormRepository;
+  preference?: FormRepositoryPreference;
+}
+
+export const FormRepositoryProvider: React.FC<FormRepositoryProviderProps> = ({
+  children,
+  repository: providedRepository,
+  preference = import.meta.env.VITE_FORM_STORAGE || 'auto',
+}) => {
+  const [repository, setRepository] = useState<FormRepository | null>(providedRepository || null);
+
+  useEffect(() => {
+    if (providedRepository) {
+      setRepository(providedRepository);
+      return;
+    }
+
+    let cancelled = false;
+    createFormRepository(preference)
+      .catch(error => {
+        console.error('Error opening form storage, falling back to localStorage:', error);
+        return new SyncedFormRepository(new LocalStorageFormRepository());
+      })
+      .then(created => {
+        if (!cancelled) {
+          setRepository(created);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [providedRepository, preference]);
+
+  if (!repository) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '50vh' }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <FormRepositoryContext.Provider value={repository}>
+      {children}
+    </FormRepositoryContext.Provider>
+  );
+};
@@ -1,19 +1,28 @@
 import React, { createContext, useContext, useState, useCallback } from 'react';
-import { Snackbar, Alert, type AlertColor, Slide, type SlideProps } from '@mui/material';
+import { Snackbar, Alert, Button, type AlertColor, Slide, type SlideProps } from '@mui/material';
+
+/**
+ * Button shown in a notification, e.g. "Undo"; the notification closes when it is clicked
+ */
+export interface NotificationAction {
+  label: string;
+  onClick: () => void;
+}
 
 interface NotificationState {
   open: boolean;
   message: string;
   severity: AlertColor;
   autoHideDuration?: number;
+  action?: NotificationAction;
 }
 
 interface NotificationContextType {
-  showNotification: (message: string, severity?: AlertColor, autoHideDuration?: number) => void;
-  showSuccess: (message: string, autoHideDuration?: number) => void;
-  showError: (message: string, autoHideDuration?: number) => void;
-  showWarning: (message: string, autoHideDuration?: number) => void;
-  showInfo: (message: string, autoHideDuration?: number) => void;
+  showNotification: (message: string, severity?: AlertColor, autoHideDuration?: number, action?: NotificationAction) => void;
+  showSuccess: (message: string, autoHideDuration?: number, action?: NotificationAction) => void;
+  showError: (message: string, autoHideDuration?: number, action?: NotificationAction) => void;
+  showWarning: (message: string, autoHideDuration?: number, action?: NotificationAction) => void;
+  showInfo: (message: string, autoHideDuration?: number, action?: NotificationAction) => void;
   hideNotification: () => void;
 }
 
@@ -34,30 +43,32 @@ export const NotificationProvider: React.FC<{ children: React.ReactNode }> = ({
   const showNotification = useCallback((
     message: string,
     severity: AlertColor = 'info',
-    autoHideDuration: number = 6000
+    autoHideDuration: number = 6000,
+    action?: NotificationAction
   ) => {
     setNotification({
       open: true,
       message,
       severity,
       autoHideDuration,
+      action,
     });
   }, []);
 
-  const showSuccess = useCallback((message: string, autoHideDuration: number = 4000) => {
-    showNotification(message, 'success', autoHideDuration);
+  const showSuccess = useCallback((message: string, autoHideDuration: number = 4000, action?: NotificationAction) => {
+    showNotification(message, 'success', autoHideDuration, action);
   }, [showNotification]);
 
-  const showError = useCallback((message: string, autoHideDuration: number = 8000) => {
-    showNotification(message, 'error', autoHideDuration);
+  const showError = useCallback((message: string, autoHideDuration: number = 8000, action?: NotificationAction) => {
+    showNotification(message, 'error', autoHideDuration, action);
   }, [showNotification]);
 
-  const showWarning = useCallback((message: string, autoHideDuration: number = 6000) => {
-    showNotification(message, 'warning', autoHideDuration);
+  const showWarning = useCallback((message: string, autoHideDuration: number = 6000, action?: NotificationAction) => {
+    showNotification(message, 'warning', autoHideDuration, action);
   }, [showNotification]);
 
-  const showInfo = useCallback((message: string, autoHideDuration: number = 6000) => {
-    showNotification(message, 'info', autoHideDuration);
+  const showInfo = useCallback((message: string, autoHideDuration: number = 6000, action?: NotificationAction) => {
+    showNotification(message, 'info', autoHideDuration, action);
   }, [showNotification]);
 
   const hideNotification = useCallback(() => {
@@ -102,6 +113,18 @@ export const NotificationProvider: React.FC<{ children: React.ReactNode }> = ({
           onClose={handleClose}
           severity={notification.severity}
           variant="filled"
+          action={notification.action && (
+            <Button
+              color="inherit"
+              size="small"
+              onClick={() => {
+                notification.action?.onClick();
+                hideNotification();
+              }}
+            >
+              {notification.action.label}
+            </Button>
+          )}
           sx={{
             width: '100%',
             fontWeight: 500,
@@ -1,2 +1,4 @@
 export { NotificationProvider, useNotification } from './NotificationContext';
-export { LoadingProvider, useLoading } from './LoadingContext';
\ No newline at end of file
+export { LoadingProvider, useLoading } from './LoadingContext';
+export { FormRepositoryProvider } from './FormRepositoryContext';
+export { useFormRepository } from './useFormRepository';
\ No newline at end of file
@@ -0,0 +1,12 @@
+import { createContext, useContext } from 'react';
+import type { FormRepository } from '../services';
+
+export const FormRepositoryContext = createContext<FormRepository | undefined>(undefined);
+
+export const useFormRepository = (): FormRepository => {
+  const context = useContext(FormRepositoryContext);
+  if (context === undefined) {
+    throw new Error('useFormRepository must be used within a FormRepositoryProvider');
+  }
+  return context;
+};
@@ -1,2 +1,5 @@
 // Custom hooks will be exported from here
-export { useNavigation } from './useNavigation';
\ No newline at end of file
+export { useNavigation } from './useNavigation';
+export { useUndoableState } from './useUndoableState';
+export type { UndoableStateOptions } from './useUndoableState';
+export { useFormSync } from './useFormSync';
@@ -0,0 +1,13 @@
+import { useEffect, useRef } from 'react';
+import { FormSyncService, type FormChange } from '../services';
+
+/**
+ * Call `onChange` whenever saved forms are changed in another tab
+ */
+export const useFormSync = (onChange: (change: FormChange) => void): void => {
+  // Keep the latest callback without resubscribing on every render
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => FormSyncService.subscribe(change => onChangeRef.current(change)), []);
+};
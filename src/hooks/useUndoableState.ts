@@ -0,0 +1,107 @@
+import { useCallback, useReducer } from 'react';
+
+export interface UndoableStateOptions {
+  /** Maximum number of undo steps kept */
+  limit?: number;
+  /** Changes with the same coalesce key within this window are merged into one undo step */
+  coalesceMs?: number;
+}
+
+type Updater<T> = T | ((prev: T) => T);
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  lastKey?: string;
+  lastChangeAt: number;
+}
+
+type HistoryAction<T> =
+  | { type: 'set'; updater: Updater<T>; coalesceKey?: string; now: number; limit: number; coalesceMs: number }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'reset'; value: T };
+
+const historyReducer = <T>(state: HistoryState<T>, action: HistoryAction<T>): HistoryState<T> => {
+  switch (action.type) {
+    case 'set': {
+      const next = typeof action.updater === 'function'
+        ? (action.updater as (prev: T) => T)(state.present)
+        : action.updater;
+      if (Object.is(next, state.present)) {
+        return state;
+      }
+
+      // Rapid edits to the same thing (e.g. typing into a title) become a single undo step
+      const coalesce = action.coalesceKey !== undefined &&
+        action.coalesceKey === state.lastKey &&
+        action.now - state.lastChangeAt < action.coalesceMs;
+
+      return {
+        past: coalesce ? state.past : [...state.past, state.present].slice(-action.limit),
+        present: next,
+        future: [],
+        lastKey: action.coalesceKey,
+        lastChangeAt: action.now,
+      };
+    }
+    case 'undo':
+      if (state.past.length === 0) return state;
+      return {
+        past: state.past.slice(0, -1),
+        present: state.past[state.past.length - 1],
+        future: [state.present, ...state.future],
+        lastChangeAt: 0,
+      };
+    case 'redo':
+      if (state.future.length === 0) return state;
+      return {
+        past: [...state.past, state.present],
+        present: state.future[0],
+        future: state.future.slice(1),
+        lastChangeAt: 0,
+      };
+    case 'reset':
+      return { past: [], present: action.value, future: [], lastChangeAt: 0 };
+  }
+};
+
+/**
+ * useState with a bounded undo/redo history
+ */
+export const useUndoableState = <T>(
+  initialState: T | (() => T),
+  { limit = 50, coalesceMs = 1000 }: UndoableStateOptions = {}
+) => {
+  const [history, dispatch] = useReducer(
+    historyReducer<T>,
+    undefined,
+    (): HistoryState<T> => ({
+      past: [],
+      present: typeof initialState === 'function' ? (initialState as () => T)() : initialState,
+      future: [],
+      lastChangeAt: 0,
+    })
+  );
+
+  const setState = useCallback((updater: Updater<T>, coalesceKey?: string) => {
+    dispatch({ type: 'set', updater, coalesceKey, now: Date.now(), limit, coalesceMs });
+  }, [limit, coalesceMs]);
+
+  const undo = useCallback(() => dispatch({ type: 'undo' }), []);
+  const redo = useCallback(() => dispatch({ type: 'redo' }), []);
+
+  /** Replace the state and discard the history, e.g. after saving or loading */
+  const reset = useCallback((value: T) => dispatch({ type: 'reset', value }), []);
+
+  return {
+    state: history.present,
+    setState,
+    undo,
+    redo,
+    reset,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+};
@@ -1,8 +1,12 @@
 import React from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { FormBuilder } from '../components';
 
 const CreatePage: React.FC = () => {
-  return <FormBuilder />;
+  const [searchParams] = useSearchParams();
+  const draftId = searchParams.get('draft') || undefined;
+
+  return <FormBuilder key={draftId} restoreDraftId={draftId} />;
 };
 
 export default CreatePage;
\ No newline at end of file
@@ -0,0 +1,91 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { Alert, Typography } from '@mui/material';
+import { FormBuilder, ResponsiveLayout, LoadingSkeleton } from '../components';
+import { useNotification, useFormRepository } from '../contexts';
+import { ErrorHandler } from '../utils/errorHandler';
+import type { FormSchema } from '../types';
+
+const EditPage: React.FC = () => {
+  const { formId } = useParams<{ formId: string }>();
+  const [searchParams] = useSearchParams();
+  const { showError } = useNotification();
+  const formRepository = useFormRepository();
+  const [schema, setSchema] = useState<FormSchema | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadForm = useCallback(async (id: string) => {
+    try {
+      setLoading(true);
+      setError(null);
+      setSchema(null);
+
+      const form = await formRepository.getForm(id);
+
+      if (!form) {
+        const errorMessage = 'Form not found. It may have been deleted or the link is invalid.';
+        setError(errorMessage);
+        showError(errorMessage);
+        return;
+      }
+
+      setSchema(form);
+    } catch (err) {
+      console.error('Error loading form for editing:', err);
+      const errorMessage = ErrorHandler.getDetailedMessage(err);
+      setError(errorMessage);
+      showError(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, [formRepository, showError]);
+
+  useEffect(() => {
+    if (formId) {
+      loadForm(formId);
+    }
+  }, [formId, loadForm]);
+
+  if (loading) {
+    return (
+      <ResponsiveLayout maxWidth="xl">
+        <LoadingSkeleton variant="list" count={5} />
+      </ResponsiveLayout>
+    );
+  }
+
+  if (error || !schema) {
+    return (
+      <ResponsiveLayout>
+        <Alert
+          severity="error"
+          sx={{
+            borderRadius: 2,
+            '& .MuiAlert-message': {
+              width: '100%',
+            },
+          }}
+        >
+          <Typography variant="h6" gutterBottom>
+            Unable to Edit Form
+          </Typography>
+          <Typography variant="body2">
+            {error}
+          </Typography>
+        </Alert>
+      </ResponsiveLayout>
+    );
+  }
+
+  // Keyed by id so that switching to another form (e.g. after "Save as copy") resets builder state
+  return (
+    <FormBuilder
+      key={schema.id}
+      initialSchema={schema}
+      restoreDraftId={searchParams.get('draft') || undefined}
+    />
+  );
+};
+
+export default EditPage;
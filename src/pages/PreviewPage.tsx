@@ -1,18 +1,21 @@
 import React, { useState, useEffect } from 'react';
 import { useParams } from 'react-router-dom';
-import { Alert, Typography } from '@mui/material';
+import { Alert, Button, Typography } from '@mui/material';
 import { FormPreview, ResponsiveLayout, LoadingSkeleton } from '../components';
-import { LocalStorageService } from '../services';
-import { useNotification } from '../contexts';
+import { useNotification, useFormRepository } from '../contexts';
+import { useFormSync } from '../hooks';
 import { ErrorHandler } from '../utils/errorHandler';
 import type { FormSchema } from '../types';
 
 const PreviewPage: React.FC = () => {
   const { formId } = useParams<{ formId: string }>();
   const { showError } = useNotification();
+  const formRepository = useFormRepository();
   const [schema, setSchema] = useState<FormSchema | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Set when another tab saved or deleted this form; answers in progress are kept until reload
+  const [remoteChange, setRemoteChange] = useState<'saved' | 'deleted' | null>(null);
 
   useEffect(() => {
     if (formId) {
@@ -20,15 +23,30 @@ const PreviewPage: React.FC = () => {
     }
   }, [formId]);
 
+  useFormSync(async change => {
+    if (!formId || !schema || (change.formId && change.formId !== formId)) return;
+    try {
+      const saved = await formRepository.getForm(formId);
+      if (!saved) {
+        setRemoteChange('deleted');
+      } else if ((saved.version || 1) !== (schema.version || 1)) {
+        setRemoteChange('saved');
+      }
+    } catch (err) {
+      console.error('Error checking for changes from another tab:', err);
+    }
+  });
+
   const loadForm = async (id: string) => {
     try {
       setLoading(true);
       setError(null);
+      setRemoteChange(null);
 
       // Add a small delay to show loading state
       await new Promise(resolve => setTimeout(resolve, 300));
 
-      const form = LocalStorageService.getForm(id);
+      const form = await formRepository.getForm(id);
 
       if (!form) {
         const errorMessage = 'Form not found. It may have been deleted or the link is invalid.';
@@ -79,7 +97,23 @@ const PreviewPage: React.FC = () => {
     );
   }
 
-  return <FormPreview schema={schema || undefined} />;
+  const remoteChangeNotice = remoteChange && (
+    <Alert
+      severity="warning"
+      sx={{ mb: 2, borderRadius: 2 }}
+      action={remoteChange === 'saved' && formId ? (
+        <Button color="inherit" size="small" onClick={() => loadForm(formId)}>
+          Reload
+        </Button>
+      ) : undefined}
+    >
+      {remoteChange === 'saved'
+        ? 'This form was changed in another tab. Reload to preview the latest version.'
+        : 'This form was deleted in another tab.'}
+    </Alert>
+  );
+
+  return <FormPreview schema={schema || undefined} notice={remoteChangeNotice} />;
 };
 
 export default PreviewPage;
\ No newline at end of file
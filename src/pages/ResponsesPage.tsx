@@ -0,0 +1,83 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useParams } from 'react-router-dom';
+import { Alert, Typography } from '@mui/material';
+import { FormResponses, ResponsiveLayout, LoadingSkeleton } from '../components';
+import { useNotification, useFormRepository } from '../contexts';
+import { ErrorHandler } from '../utils/errorHandler';
+import type { FormSchema } from '../types';
+
+const ResponsesPage: React.FC = () => {
+  const { formId } = useParams<{ formId: string }>();
+  const { showError } = useNotification();
+  const formRepository = useFormRepository();
+  const [schema, setSchema] = useState<FormSchema | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadForm = useCallback(async (id: string) => {
+    try {
+      setLoading(true);
+      setError(null);
+      setSchema(null);
+
+      const form = await formRepository.getForm(id);
+
+      if (!form) {
+        const errorMessage = 'Form not found. It may have been deleted or the link is invalid.';
+        setError(errorMessage);
+        showError(errorMessage);
+        return;
+      }
+
+      setSchema(form);
+    } catch (err) {
+      console.error('Error loading form responses:', err);
+      const errorMessage = ErrorHandler.getDetailedMessage(err);
+      setError(errorMessage);
+      showError(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, [formRepository, showError]);
+
+  useEffect(() => {
+    if (formId) {
+      loadForm(formId);
+    }
+  }, [formId, loadForm]);
+
+  if (loading) {
+    return (
+      <ResponsiveLayout maxWidth="xl">
+        <LoadingSkeleton variant="list" count={5} />
+      </ResponsiveLayout>
+    );
+  }
+
+  if (error || !schema) {
+    return (
+      <ResponsiveLayout>
+        <Alert
+          severity="error"
+          sx={{
+            borderRadius: 2,
+            '& .MuiAlert-message': {
+              width: '100%',
+            },
+          }}
+        >
+          <Typography variant="h6" gutterBottom>
+            Unable to Load Form
+          </Typography>
+          <Typography variant="body2">
+            {error}
+          </Typography>
+        </Alert>
+      </ResponsiveLayout>
+    );
+  }
+
+  return <FormResponses schema={schema} />;
+};
+
+export default ResponsesPage;
@@ -1,3 +1,5 @@
 export { default as CreatePage } from './CreatePage';
 export { default as PreviewPage } from './PreviewPage';
-export { default as MyFormsPage } from './MyFormsPage';
\ No newline at end of file
+export { default as MyFormsPage } from './MyFormsPage';
+export { default as EditPage } from './EditPage';
+export { default as ResponsesPage } from './ResponsesPage';
@@ -0,0 +1,195 @@
+import type { ConditionGroup, FieldCondition, FormSchema } from '../types';
+
+export class ConditionEvaluator {
+  /**
+   * Check whether a condition node is a nested AND/OR group
+   */
+  static isGroup(node: FieldCondition | ConditionGroup): node is ConditionGroup {
+    return 'combinator' in node && Array.isArray((node as ConditionGroup).conditions);
+  }
+
+  /**
+   * Evaluate a condition group against the current form values.
+   * An empty group always holds so that a half-configured rule never hides a field.
+   */
+  static evaluate(group: ConditionGroup, values: Record<string, unknown>): boolean {
+    if (!group.conditions || group.conditions.length === 0) {
+      return true;
+    }
+
+    const results = group.conditions.map(node =>
+      this.isGroup(node) ? this.evaluate(node, values) : this.evaluateCondition(node, values)
+    );
+
+    return group.combinator === 'or'
+      ? results.some(Boolean)
+      : results.every(Boolean);
+  }
+
+  /**
+   * Evaluate a single field condition
+   */
+  static evaluateCondition(condition: FieldCondition, values: Record<string, unknown>): boolean {
+    const actual = values[condition.fieldId];
+
+    switch (condition.operator) {
+      case 'isEmpty':
+        return this.isEmpty(actual);
+
+      case 'isNotEmpty':
+        return !this.isEmpty(actual);
+
+      case 'equals':
+        return this.matchesAny(actual, [condition.value]);
+
+      case 'notEquals':
+        return !this.matchesAny(actual, [condition.value]);
+
+      case 'in':
+        return this.matchesAny(actual, this.toList(condition.value));
+
+      case 'notIn':
+        return !this.matchesAny(actual, this.toList(condition.value));
+
+      case 'greaterThan':
+      case 'greaterThanOrEqual':
+      case 'lessThan':
+      case 'lessThanOrEqual':
+        return this.compareNumbers(actual, condition.value, condition.operator);
+
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * Determine which fields of a schema are visible for the given values.
+   * Hidden fields count as empty when other conditions reference them, so chains of
+   * conditions are resolved by re-evaluating until the visible set stops changing.
+   */
+  static getVisibleFieldIds(schema: FormSchema, values: Record<string, unknown>): Set<string> {
+    let visible = new Set(schema.fields.map(field => field.id));
+
+    // Each pass can only hide fields whose dependencies changed, so fields.length passes is enough
+    for (let pass = 0; pass <= schema.fields.length; pass++) {
+      const effectiveValues = this.pickValues(values, visible);
+      const next = new Set(
+        schema.fields
+          .filter(field => !field.visibleWhen || this.evaluate(field.visibleWhen, effectiveValues))
+          .map(field => field.id)
+      );
+
+      if (next.size === visible.size && [...next].every(id => visible.has(id))) {
+        return next;
+      }
+      visible = next;
+    }
+
+    return visible;
+  }
+
+  /**
+   * Remove values of hidden fields, e.g. before submitting
+   */
+  static stripHiddenValues<T>(values: Record<string, T>, schema: FormSchema): Record<string, T> {
+    return this.pickValues(values, this.getVisibleFieldIds(schema, values));
+  }
+
+  /**
+   * Collect the field ids referenced anywhere in a condition group
+   */
+  static getReferencedFieldIds(group: ConditionGroup): string[] {
+    const ids = new Set<string>();
+    const visit = (node: FieldCondition | ConditionGroup) => {
+      if (this.isGroup(node)) {
+        node.conditions.forEach(visit);
+      } else if (node.fieldId) {
+        ids.add(node.fieldId);
+      }
+    };
+    visit(group);
+    return Array.from(ids);
+  }
+
+  private static pickValues<T>(values: Record<string, T>, fieldIds: Set<string>): Record<string, T> {
+    const picked: Record<string, T> = {};
+    Object.entries(values).forEach(([fieldId, value]) => {
+      if (fieldIds.has(fieldId)) {
+        picked[fieldId] = value;
+      }
+    });
+    return picked;
+  }
+
+  private static isEmpty(value: unknown): boolean {
+    if (value === null || value === undefined || value === false) {
+      return true;
+    }
+    if (typeof value === 'string') {
+      return value.trim() === '';
+    }
+    if (Array.isArray(value)) {
+      return value.length === 0;
+    }
+    return false;
+  }
+
+  private static toList(value: FieldCondition['value']): (string | number)[] {
+    if (Array.isArray(value)) {
+      return value;
+    }
+    if (value === undefined || value === null || value === '') {
+      return [];
+    }
+    return String(value).split(',').map(item => item.trim()).filter(Boolean);
+  }
+
+  /**
+   * Compare values loosely: numbers numerically, everything else as trimmed strings.
+   * Checkbox groups match when any selected option matches.
+   */
+  private static matchesAny(actual: unknown, expected: FieldCondition['value'][]): boolean {
+    const actualItems = Array.isArray(actual) ? actual : [actual];
+
+    return actualItems.some(item =>
+      expected.some(candidate => {
+        if (candidate === undefined || candidate === null || item === undefined || item === null) {
+          return false;
+        }
+        const a = String(item).trim();
+        const b = String(candidate).trim();
+        if (a !== '' && b !== '' && !isNaN(Number(a)) && !isNaN(Number(b))) {
+          return Number(a) === Number(b);
+        }
+        return a === b;
+      })
+    );
+  }
+
+  private static compareNumbers(
+    actual: unknown,
+    expected: FieldCondition['value'],
+    operator: 'greaterThan' | 'greaterThanOrEqual' | 'lessThan' | 'lessThanOrEqual'
+  ): boolean {
+    if (actual === null || actual === undefined || actual === '' || Array.isArray(expected)) {
+      return false;
+    }
+
+    const a = Number(actual);
+    const b = Number(expected);
+    if (isNaN(a) || isNaN(b)) {
+      return false;
+    }
+
+    switch (operator) {
+      case 'greaterThan':
+        return a > b;
+      case 'greaterThanOrEqual':
+        return a >= b;
+      case 'lessThan':
+        return a < b;
+      case 'lessThanOrEqual':
+        return a <= b;
+    }
+  }
+}
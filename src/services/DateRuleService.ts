@@ -0,0 +1,195 @@
+import type { ValidationRule } from '../types';
+
+export type DateOffsetUnit = 'd' | 'w' | 'm' | 'y';
+
+/**
+ * A date bound relative to today, e.g. "today-18y" is { amount: -18, unit: 'y' }
+ */
+export interface RelativeDateBound {
+  amount: number;
+  unit: DateOffsetUnit;
+}
+
+/**
+ * HTML attributes for a date input, matching its date validation rules
+ */
+export interface DateInputAttributes {
+  min?: string;
+  max?: string;
+}
+
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const RELATIVE_BOUND_PATTERN = /^today(?:([+-])(\d+)([dwmy]))?$/;
+
+const UNIT_NAMES: Record<DateOffsetUnit, string> = { d: 'day', w: 'week', m: 'month', y: 'year' };
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+const formatLocalDate = (date: Date): string =>
+  `${pad(date.getFullYear(), 4)}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/**
+ * Parse "YYYY-MM-DD" as a local date, rejecting days that do not exist (e.g. 2023-02-30)
+ */
+const parseLocalDate = (value: string): Date | null => {
+  const match = ISO_DATE_PATTERN.exec(value);
+  if (!match) {
+    return null;
+  }
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+};
+
+/**
+ * Date rules compare calendar days as "YYYY-MM-DD" strings in the user's local time zone,
+ * which is what date inputs produce, so a date is never shifted by a time zone offset.
+ */
+export class DateRuleService {
+  /**
+   * Read a date field value as "YYYY-MM-DD". Returns null for empty or unreadable values.
+   */
+  static toDateString(value: unknown): string | null {
+    if (value instanceof Date) {
+      return isNaN(value.getTime()) ? null : formatLocalDate(value);
+    }
+    if (typeof value !== 'string' || !value.trim()) {
+      return null;
+    }
+    // Full timestamps keep only their calendar day
+    const day = value.trim().slice(0, 10);
+    return parseLocalDate(day) ? day : null;
+  }
+
+  /**
+   * Parse a relative bound such as "today", "today+7d" or "today-18y"
+   */
+  static parseRelativeBound(bound: string): RelativeDateBound | null {
+    const match = RELATIVE_BOUND_PATTERN.exec(bound.trim());
+    if (!match) {
+      return null;
+    }
+    const [, sign, amount, unit] = match;
+    return {
+      amount: amount ? Number(amount) * (sign === '-' ? -1 : 1) : 0,
+      unit: (unit as DateOffsetUnit) || 'd',
+    };
+  }
+
+  /**
+   * Write a relative bound, the reverse of parseRelativeBound
+   */
+  static formatRelativeBound({ amount, unit }: RelativeDateBound): string {
+    return amount === 0 ? 'today' : `today${amount > 0 ? '+' : '-'}${Math.abs(amount)}${unit}`;
+  }
+
+  /**
+   * Whether a bound is a valid fixed date ("YYYY-MM-DD") or relative bound
+   */
+  static isValidBound(bound: unknown): bound is string {
+    return typeof bound === 'string' && (Boolean(parseLocalDate(bound)) || Boolean(this.parseRelativeBound(bound)));
+  }
+
+  /**
+   * Resolve a bound to the calendar day it stands for, as "YYYY-MM-DD".
+   * Month and year offsets keep the day of the month where possible (Mar 31 - 1 month is Feb 28/29).
+   */
+  static resolveBound(bound: string, today: Date = new Date()): string | null {
+    if (parseLocalDate(bound)) {
+      return bound;
+    }
+    const relative = this.parseRelativeBound(bound);
+    if (!relative) {
+      return null;
+    }
+
+    const { amount, unit } = relative;
+    if (unit === 'd' || unit === 'w') {
+      const days = unit === 'w' ? amount * 7 : amount;
+      return formatLocalDate(new Date(today.getFullYear(), today.getMonth(), today.getDate() + days));
+    }
+
+    const months = unit === 'y' ? amount * 12 : amount;
+    const firstOfMonth = new Date(today.getFullYear(), today.getMonth() + months, 1);
+    const daysInMonth = new Date(firstOfMonth.getFullYear(), firstOfMonth.getMonth() + 1, 0).getDate();
+    firstOfMonth.setDate(Math.min(today.getDate(), daysInMonth));
+    return formatLocalDate(firstOfMonth);
+  }
+
+  /**
+   * Describe a bound for people, e.g. "today", "18 years ago", "in 2 weeks" or "Mar 5, 2025"
+   */
+  static describeBound(bound: string): string {
+    const relative = this.parseRelativeBound(bound);
+    if (relative) {
+      if (relative.amount === 0) {
+        return 'today';
+      }
+      const count = Math.abs(relative.amount);
+      const span = `${count} ${UNIT_NAMES[relative.unit]}${count !== 1 ? 's' : ''}`;
+      return relative.amount < 0 ? `${span} ago` : `in ${span}`;
+    }
+
+    const date = parseLocalDate(bound);
+    return date
+      ? new Intl.DateTimeFormat('en-US', { year: 'numeric', month: 'short', day: 'numeric' }).format(date)
+      : bound;
+  }
+
+  /**
+   * The day after a "YYYY-MM-DD" date
+   */
+  static nextDay(date: string): string {
+    const parsed = parseLocalDate(date);
+    return parsed
+      ? formatLocalDate(new Date(parsed.getFullYear(), parsed.getMonth(), parsed.getDate() + 1))
+      : date;
+  }
+
+  /**
+   * Whether a "YYYY-MM-DD" date falls on a Saturday or Sunday
+   */
+  static isWeekend(date: string): boolean {
+    const day = parseLocalDate(date)?.getDay();
+    return day === 0 || day === 6;
+  }
+
+  /**
+   * Attributes for a date input so that days outside the rules' bounds cannot be picked.
+   * "afterField" uses the other field's current value; weekends cannot be blocked by a date input.
+   */
+  static getDateInputAttributes(
+    rules: ValidationRule[] = [],
+    values: Record<string, unknown> = {},
+    today: Date = new Date()
+  ): DateInputAttributes {
+    const mins: string[] = [];
+    const maxes: string[] = [];
+
+    rules.forEach(rule => {
+      const bound = typeof rule.value === 'string' ? rule.value : '';
+      if (rule.type === 'minDate') {
+        const min = this.resolveBound(bound, today);
+        if (min) {
+          mins.push(min);
+        }
+      } else if (rule.type === 'maxDate') {
+        const max = this.resolveBound(bound, today);
+        if (max) {
+          maxes.push(max);
+        }
+      } else if (rule.type === 'afterField') {
+        const other = this.toDateString(values[bound]);
+        if (other) {
+          mins.push(this.nextDay(other));
+        }
+      }
+    });
+
+    // The tightest bounds win; "YYYY-MM-DD" strings sort chronologically
+    return {
+      min: mins.sort().pop(),
+      max: maxes.sort()[0],
+    };
+  }
+}
@@ -0,0 +1,51 @@
+import type { FormField } from '../types';
+import { DerivedFieldCalculator } from './DerivedFieldCalculator';
+
+const field = (id: string, label: string, computationLogic?: string, parentFields: string[] = []): FormField => ({
+  id,
+  type: 'number',
+  label,
+  required: false,
+  ...(computationLogic !== undefined && { derivedFrom: { parentFields, computationLogic } }),
+});
+
+describe('DerivedFieldCalculator.renameLabelReferences', () => {
+  it('rewrites references to the previous label', () => {
+    const fields = [
+      field('field_1', 'Price'),
+      field('field_2', 'Qty'),
+      field('field_3', 'Total', 'unit_price * qty', ['field_1', 'field_2']),
+    ];
+    const renamed = DerivedFieldCalculator.renameLabelReferences(fields, 'field_1', 'Unit Price');
+    expect(renamed[2].derivedFrom?.computationLogic).toBe('price * qty');
+    expect(renamed[0]).toBe(fields[0]);
+  });
+
+  it('uses the id when the new label is taken by another parent', () => {
+    const fields = [
+      field('field_1', 'Qty'),
+      field('field_2', 'Qty'),
+      field('field_3', 'Total', 'unit_price * qty', ['field_1', 'field_2']),
+    ];
+    const renamed = DerivedFieldCalculator.renameLabelReferences(fields, 'field_1', 'Unit Price');
+    expect(renamed[2].derivedFrom?.computationLogic).toBe('field_1 * qty');
+  });
+
+  it('leaves expressions where the previous name meant another field', () => {
+    const fields = [
+      field('field_1', 'Amount'),
+      field('field_2', 'Price'),
+      field('field_3', 'Total', 'price * 2', ['field_2', 'field_1']),
+    ];
+    expect(DerivedFieldCalculator.renameLabelReferences(fields, 'field_1', 'Price')).toEqual(fields);
+  });
+
+  it('leaves fields that do not depend on the renamed field', () => {
+    const fields = [
+      field('field_1', 'Price'),
+      field('field_2', 'Other', 'unit_price * 2', ['field_9']),
+    ];
+    const renamed = DerivedFieldCalculator.renameLabelReferences(fields, 'field_1', 'Unit Price');
+    expect(renamed[1]).toBe(fields[1]);
+  });
+});
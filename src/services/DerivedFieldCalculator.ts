@@ -1,19 +1,26 @@
-import type { DerivedFieldConfig, FormSchema } from '../types';
+import type { DerivedFieldConfig, FormField, FormSchema } from '../types';
+import { ExpressionEngine, ExpressionError } from './ExpressionEngine';
+import type { ExpressionNode, ExpressionValue } from './ExpressionEngine';
+import { EXPRESSION_FUNCTION_CATEGORIES } from './ExpressionFunctions';
 
 export interface DerivedFieldError {
   type: 'invalid_expression' | 'missing_parent' | 'evaluation_error' | 'circular_dependency';
   message: string;
   fieldId?: string;
+  position?: { start: number; end: number };
   originalError?: Error;
 }
 
 export class DerivedFieldCalculator {
+  private static parsedExpressions = new Map<string, ExpressionNode>();
+
   /**
    * Compute the value of a derived field based on its configuration and form values
    */
   static computeValue(
     config: DerivedFieldConfig,
-    formValues: Record<string, any>
+    formValues: Record<string, any>,
+    fields: FormField[] = []
   ): { value: any; error?: DerivedFieldError } {
     try {
       // Validate that all parent fields exist in form values
@@ -42,14 +49,22 @@ export class DerivedFieldCalculator {
         };
       }
 
-      // Create a safe evaluation context with parent field values
-      const context = this.createSafeContext(config.parentFields, formValues);
-      
-      // Evaluate the expression safely
-      const result = this.safeEvaluate(config.computationLogic, context);
-      
+      let expression: ExpressionNode;
+      try {
+        expression = this.parseExpression(config.computationLogic);
+      } catch (error: any) {
+        return { value: null, error: this.toDerivedFieldError(error, 'invalid_expression') };
+      }
+
+      const variables = this.createVariables(config.parentFields, formValues, fields);
+      const result = ExpressionEngine.evaluate(expression, variables);
+
       return { value: result };
     } catch (error: any) {
+      if (error instanceof ExpressionError) {
+        return { value: null, error: this.toDerivedFieldError(error, 'evaluation_error') };
+      }
+
       return {
         value: null,
         error: {
@@ -91,7 +106,7 @@ export class DerivedFieldCalculator {
     for (const field of sortedDerivedFields) {
       if (!field.derivedFrom) continue;
 
-      const result = this.computeValue(field.derivedFrom, updatedValues);
+      const result = this.computeValue(field.derivedFrom, updatedValues, schema.fields);
       
       if (result.error) {
         errors[field.id] = { ...result.error, fieldId: field.id };
@@ -104,206 +119,127 @@ export class DerivedFieldCalculator {
   }
 
   /**
-   * Create a safe evaluation context with only the necessary variables
+   * Map each parent field to the variable names it can be referenced by in expressions:
+   * the name derived from its label and the name derived from its id
    */
-  private static createSafeContext(
+  static getVariableNames(
     parentFields: string[],
-    formValues: Record<string, any>
-  ): Record<string, any> {
-    const context: Record<string, any> = {};
+    fields: FormField[] = []
+  ): Record<string, string[]> {
+    const names: Record<string, string[]> = {};
 
-    // Add parent field values to context
     parentFields.forEach(fieldId => {
-      context[fieldId] = formValues[fieldId];
+      const field = fields.find(f => f.id === fieldId);
+      const candidates = [
+        field ? ExpressionEngine.toVariableName(field.label) : '',
+        ExpressionEngine.isValidIdentifier(fieldId) ? fieldId : ExpressionEngine.toVariableName(fieldId),
+      ];
+      names[fieldId] = candidates.filter((name, index) => name && candidates.indexOf(name) === index);
     });
 
-    // Add safe utility functions
-    context.Math = {
-      abs: Math.abs,
-      ceil: Math.ceil,
-      floor: Math.floor,
-      max: Math.max,
-      min: Math.min,
-      round: Math.round,
-      pow: Math.pow,
-      sqrt: Math.sqrt
-    };
-
-    context.String = {
-      concat: (...args: any[]) => String.prototype.concat.apply('', args),
-      toLowerCase: (str: any) => String(str).toLowerCase(),
-      toUpperCase: (str: any) => String(str).toUpperCase(),
-      trim: (str: any) => String(str).trim(),
-      substring: (str: any, start: number, end?: number) => String(str).substring(start, end)
-    };
-
-    context.Number = {
-      parseFloat: (value: any) => parseFloat(String(value)),
-      parseInt: (value: any, radix?: number) => parseInt(String(value), radix),
-      isNaN: (value: any) => isNaN(Number(value))
-    };
-
-    return context;
+    return names;
   }
 
   /**
-   * Safely evaluate a JavaScript expression with a restricted context
+   * Rewrite expressions that reference a field by its label after the label changed, so renaming
+   * "Unit Price" to "Price" turns `unit_price * qty` into `price * qty`. Expressions whose
+   * reference would become ambiguous use the field's id-based name instead.
    */
-  private static safeEvaluate(expression: string, context: Record<string, any>): any {
-    // Validate expression doesn't contain dangerous patterns
-    this.validateExpression(expression);
+  static renameLabelReferences(fields: FormField[], fieldId: string, previousLabel: string): FormField[] {
+    const field = fields.find(f => f.id === fieldId);
+    const oldName = ExpressionEngine.toVariableName(previousLabel);
+    if (!field || !oldName || oldName === ExpressionEngine.toVariableName(field.label)) {
+      return fields;
+    }
+    const labelName = ExpressionEngine.toVariableName(field.label);
+    const idName = ExpressionEngine.isValidIdentifier(fieldId) ? fieldId : ExpressionEngine.toVariableName(fieldId);
 
-    try {
-      // Create a function with the context variables as parameters
-      const contextKeys = Object.keys(context);
-      const contextValues = contextKeys.map(key => context[key]);
-      
-      // Create the function body that returns the expression result
-      const functionBody = `
-        "use strict";
-        try {
-          return (${expression});
-        } catch (error) {
-          throw new Error('Expression evaluation failed: ' + error.message);
-        }
-      `;
+    return fields.map(candidate => {
+      const config = candidate.derivedFrom;
+      if (!config || !config.parentFields.includes(fieldId)) {
+        return candidate;
+      }
 
-      // Create and execute the function
-      const func = new Function(...contextKeys, functionBody);
-      const result = func(...contextValues);
+      // Names the other parents claim; a name is only renamed when it meant this field
+      const otherNames = new Set(
+        Object.entries(this.getVariableNames(config.parentFields, fields))
+          .filter(([parentId]) => parentId !== fieldId)
+          .flatMap(([, names]) => names)
+      );
+      if (otherNames.has(oldName)) {
+        return candidate;
+      }
+      const newName = labelName && !otherNames.has(labelName) ? labelName : idName;
 
-      // Validate the result
-      return this.validateResult(result);
-    } catch (error: any) {
-      throw new Error(`Expression evaluation error: ${error.message}`);
-    }
+      const computationLogic = ExpressionEngine.renameVariables(config.computationLogic, { [oldName]: newName });
+      return computationLogic === config.computationLogic
+        ? candidate
+        : { ...candidate, derivedFrom: { ...config, computationLogic } };
+    });
   }
 
   /**
-   * Validate that an expression doesn't contain dangerous patterns
+   * Build the variables an expression is evaluated against from the parent field values
    */
-  private static validateExpression(expression: string): void {
-    // List of dangerous patterns to block
-    const dangerousPatterns = [
-      /\beval\b/,
-      /\bFunction\b/,
-      /\bsetTimeout\b/,
-      /\bsetInterval\b/,
-      /\bsetImmediate\b/,
-      /\brequire\b/,
-      /\bimport\b/,
-      /\bexport\b/,
-      /\bprocess\b/,
-      /\bglobal\b/,
-      /\bwindow\b/,
-      /\bdocument\b/,
-      /\blocalStorage\b/,
-      /\bsessionStorage\b/,
-      /\bfetch\b/,
-      /\bXMLHttpRequest\b/,
-      /\b__proto__\b/,
-      /\bconstructor\b/,
-      /\bprototype\b/,
-      /\bthis\b/,
-      /\bdelete\b/,
-      /\bvoid\b/,
-      /\btypeof\b/,
-      /\binstanceof\b/,
-      /\bin\b/,
-      /\bwith\b/,
-      /\btry\b/,
-      /\bcatch\b/,
-      /\bfinally\b/,
-      /\bthrow\b/,
-      /\bfor\b/,
-      /\bwhile\b/,
-      /\bdo\b/,
-      /\bswitch\b/,
-      /\bcase\b/,
-      /\bbreak\b/,
-      /\bcontinue\b/,
-      /\breturn\b/,
-      /\bvar\b/,
-      /\blet\b/,
-      /\bconst\b/,
-      /\bclass\b/,
-      /\bextends\b/,
-      /\bstatic\b/,
-      /\byield\b/,
-      /\basync\b/,
-      /\bawait\b/,
-      /\bnew\b/,
-      /\[\s*['"`]/,  // Property access with strings
-      /\.\s*constructor/,
-      /\.\s*__proto__/,
-      /\.\s*prototype/
-    ];
-
-    for (const pattern of dangerousPatterns) {
-      if (pattern.test(expression)) {
-        throw new Error(`Expression contains forbidden pattern: ${pattern.source}`);
-      }
-    }
+  private static createVariables(
+    parentFields: string[],
+    formValues: Record<string, any>,
+    fields: FormField[]
+  ): Record<string, ExpressionValue> {
+    const variables: Record<string, ExpressionValue> = {};
+    const names = this.getVariableNames(parentFields, fields);
 
-    // Check for excessive complexity
-    if (expression.length > 500) {
-      throw new Error('Expression is too long (maximum 500 characters)');
-    }
+    parentFields.forEach(fieldId => {
+      const value = this.toExpressionValue(formValues[fieldId]);
+      names[fieldId].forEach(name => {
+        // The first field to claim a name keeps it when two labels collide
+        if (!(name in variables)) {
+          variables[name] = value;
+        }
+      });
+    });
 
-    // Check for balanced parentheses
-    let parenCount = 0;
-    for (const char of expression) {
-      if (char === '(') parenCount++;
-      if (char === ')') parenCount--;
-      if (parenCount < 0) {
-        throw new Error('Unbalanced parentheses in expression');
-      }
-    }
-    if (parenCount !== 0) {
-      throw new Error('Unbalanced parentheses in expression');
-    }
+    return variables;
   }
 
-  /**
-   * Validate and sanitize the result of expression evaluation
-   */
-  private static validateResult(result: any): any {
-    // Handle null and undefined
-    if (result === null || result === undefined) {
-      return result;
-    }
-
-    // Handle primitive types
-    if (typeof result === 'string' || typeof result === 'number' || typeof result === 'boolean') {
-      return result;
+  private static toExpressionValue(value: any): ExpressionValue {
+    if (value === undefined || value === null) {
+      return null;
     }
-
-    // Handle dates
-    if (result instanceof Date) {
-      return result;
+    if (Array.isArray(value)) {
+      return value.map(item => this.toExpressionValue(item));
     }
-
-    // Handle arrays (shallow validation)
-    if (Array.isArray(result)) {
-      return result.map(item => {
-        if (typeof item === 'object' && item !== null) {
-          throw new Error('Complex objects not allowed in derived field results');
-        }
-        return item;
-      });
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean' || value instanceof Date) {
+      return value;
     }
+    return String(value);
+  }
 
-    // Reject complex objects
-    if (typeof result === 'object') {
-      throw new Error('Complex objects not allowed in derived field results');
-    }
+  private static toDerivedFieldError(
+    error: ExpressionError,
+    type: DerivedFieldError['type']
+  ): DerivedFieldError {
+    return {
+      type,
+      message: `${error.message} (column ${error.column})`,
+      position: { start: error.start, end: error.end },
+      originalError: error
+    };
+  }
 
-    // Reject functions
-    if (typeof result === 'function') {
-      throw new Error('Functions not allowed in derived field results');
+  /**
+   * Parse an expression, reusing the AST of previously seen expressions
+   */
+  private static parseExpression(expression: string): ExpressionNode {
+    let node = this.parsedExpressions.get(expression);
+    if (!node) {
+      node = ExpressionEngine.parse(expression);
+      if (this.parsedExpressions.size >= 100) {
+        this.parsedExpressions.clear();
+      }
+      this.parsedExpressions.set(expression, node);
     }
-
-    return result;
+    return node;
   }
 
   /**
@@ -404,29 +340,31 @@ export class DerivedFieldCalculator {
    * Get a list of available functions and variables for expression building
    */
   static getAvailableFunctions(): Record<string, string[]> {
-    return {
-      Math: ['abs', 'ceil', 'floor', 'max', 'min', 'round', 'pow', 'sqrt'],
-      String: ['concat', 'toLowerCase', 'toUpperCase', 'trim', 'substring'],
-      Number: ['parseFloat', 'parseInt', 'isNaN']
-    };
+    return Object.fromEntries(
+      Object.entries(EXPRESSION_FUNCTION_CATEGORIES).map(([category, functions]) => [
+        category,
+        Object.keys(functions)
+      ])
+    );
   }
 
   /**
-   * Validate an expression without evaluating it
+   * Validate an expression without evaluating it. When variable names are given,
+   * references to anything else are reported as errors.
    */
-  static validateExpressionSyntax(expression: string): { isValid: boolean; error?: string } {
-    try {
-      this.validateExpression(expression);
-      
-      // Try to parse as a function to check syntax
-      new Function('return (' + expression + ')');
-      
+  static validateExpressionSyntax(
+    expression: string,
+    variableNames?: string[]
+  ): { isValid: boolean; error?: string; position?: { start: number; end: number } } {
+    const result = ExpressionEngine.validate(expression, variableNames);
+    if (result.isValid || !result.error) {
       return { isValid: true };
-    } catch (error: any) {
-      return { 
-        isValid: false, 
-        error: error.message 
-      };
     }
+
+    return {
+      isValid: false,
+      error: `${result.error.message} (column ${result.error.column})`,
+      position: { start: result.error.start, end: result.error.end }
+    };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,65 @@
+import type { FormDraft, FormSchema } from '../types';
+import { LocalStorageStore } from './LocalStorageStore';
+
+export class DraftStorageService {
+  // Drafts keyed by form ID
+  private static readonly store = new LocalStorageStore<'drafts', FormDraft>(
+    'dynamic-form-builder-drafts',
+    'drafts',
+    draft => {
+      draft.savedAt = new Date(draft.savedAt);
+      draft.schema.createdAt = new Date(draft.schema.createdAt);
+      if (draft.schema.updatedAt) {
+        draft.schema.updatedAt = new Date(draft.schema.updatedAt);
+      }
+    }
+  );
+
+  /**
+   * Store the in-progress schema of a form, replacing any previous draft of it
+   */
+  static saveDraft(schema: FormSchema, isNewForm: boolean): FormDraft {
+    const draft: FormDraft = {
+      formId: schema.id,
+      schema,
+      savedAt: new Date(),
+      isNewForm,
+    };
+    this.store.update(drafts => {
+      drafts[schema.id] = draft;
+    });
+    return draft;
+  }
+
+  /**
+   * Retrieve the draft of a form, if any
+   */
+  static getDraft(formId: string): FormDraft | null {
+    return this.store.read()[formId] || null;
+  }
+
+  /**
+   * Retrieve all drafts, most recently saved first
+   */
+  static getDrafts(): FormDraft[] {
+    return Object.values(this.store.read()).sort((a, b) => b.savedAt.getTime() - a.savedAt.getTime());
+  }
+
+  /**
+   * Delete the draft of a form
+   */
+  static deleteDraft(formId: string): void {
+    const drafts = this.store.read();
+    if (drafts[formId]) {
+      delete drafts[formId];
+      this.store.write(drafts);
+    }
+  }
+
+  /**
+   * Clear all drafts from localStorage
+   */
+  static clearAllDrafts(): void {
+    this.store.clear();
+  }
+}
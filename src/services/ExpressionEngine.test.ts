@@ -0,0 +1,76 @@
+import { ExpressionEngine, ExpressionError } from './ExpressionEngine';
+
+const parseError = (expression: string): ExpressionError => {
+  try {
+    ExpressionEngine.parse(expression);
+  } catch (error) {
+    if (error instanceof ExpressionError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error(`"${expression}" parsed without an error`);
+};
+
+describe('ExpressionEngine', () => {
+  describe('parse errors', () => {
+    it.each([
+      ['price * ', 'Unexpected end of expression', 8, 9],
+      ['price ** 2', 'Unexpected "*"', 7, 8],
+      ['(price + tax', 'Expected ")" but found end of expression', 12, 13],
+      ['price + tax)', 'Unexpected ")"', 11, 12],
+      ['price # 2', 'Unexpected character "#"', 6, 7],
+      ['"unterminated + 1', 'Unterminated string', 0, 17],
+      ['12abc + 1', 'Invalid number "12a"', 0, 3],
+      ['round(price, 2, 3)', 'round() expects 1 to 2 arguments but got 3', 0, 5],
+      ['total + sqr(price)', 'Unknown function "sqr"', 8, 11],
+      ['Math.pow2(price)', 'Math.pow2 is not an available function', 5, 9],
+      ['name.size', 'Property "size" is not supported', 5, 9],
+      ['', 'Expression is empty', 0, 1],
+    ])('reports %j at its position', (expression, message, start, end) => {
+      const error = parseError(expression);
+      expect(error.message).toBe(message);
+      expect(error.start).toBe(start);
+      expect(error.end).toBe(end);
+      expect(error.column).toBe(start + 1);
+    });
+
+    it('points at the excess of an expression that is too long', () => {
+      const error = parseError('1 + '.repeat(130) + '1');
+      expect(error.message).toBe('Expression is too long (maximum 500 characters)');
+      expect(error.start).toBe(500);
+      expect(error.end).toBe(521);
+    });
+
+    it('points at the opening that nests too deeply', () => {
+      const error = parseError('('.repeat(60) + '1' + ')'.repeat(60));
+      expect(error.message).toBe('Expression is nested too deeply');
+      expect(error.start).toBeLessThan(60);
+      expect(error.end).toBe(error.start + 1);
+    });
+  });
+
+  describe('validate', () => {
+    it('reports the position of an unknown variable', () => {
+      const { isValid, error } = ExpressionEngine.validate('price * quantity', ['price', 'qty']);
+      expect(isValid).toBe(false);
+      expect(error?.message).toBe('Unknown variable "quantity"');
+      expect([error?.start, error?.end]).toEqual([8, 16]);
+    });
+
+    it('accepts expressions that only use known variables', () => {
+      expect(ExpressionEngine.validate('round(price * qty, 2)', ['price', 'qty'])).toEqual({ isValid: true });
+    });
+  });
+
+  describe('renameVariables', () => {
+    it('renames variables and leaves strings and functions alone', () => {
+      expect(ExpressionEngine.renameVariables('unit_price * qty + len("unit_price")', { unit_price: 'price' }))
+        .toBe('price * qty + len("unit_price")');
+    });
+
+    it('returns expressions that do not parse unchanged', () => {
+      expect(ExpressionEngine.renameVariables('unit_price *', { unit_price: 'price' })).toBe('unit_price *');
+    });
+  });
+});
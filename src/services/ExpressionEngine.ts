@@ -0,0 +1,598 @@
+import {
+  EXPRESSION_FUNCTIONS,
+  EXPRESSION_NAMESPACES,
+  toNumber,
+  toText,
+  type ExpressionValue,
+} from './ExpressionFunctions';
+
+export type { ExpressionValue } from './ExpressionFunctions';
+
+/**
+ * Error raised while parsing or evaluating an expression.
+ * start/end are character offsets into the expression source.
+ */
+export class ExpressionError extends Error {
+  readonly start: number;
+  readonly end: number;
+
+  constructor(message: string, start: number, end: number = start + 1) {
+    super(message);
+    this.name = 'ExpressionError';
+    this.start = start;
+    this.end = Math.max(end, start + 1);
+  }
+
+  get column(): number {
+    return this.start + 1;
+  }
+}
+
+type TokenType = 'number' | 'string' | 'identifier' | 'operator' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  start: number;
+  end: number;
+}
+
+interface NodePosition {
+  start: number;
+  end: number;
+}
+
+export type ExpressionNode = NodePosition & (
+  | { type: 'literal'; value: ExpressionValue }
+  | { type: 'identifier'; name: string }
+  | { type: 'unary'; operator: string; argument: ExpressionNode }
+  | { type: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'conditional'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode }
+  | { type: 'call'; name: string; args: ExpressionNode[] }
+);
+
+const MAX_EXPRESSION_LENGTH = 500;
+const MAX_NESTING_DEPTH = 50;
+
+// Longest operators first so that the tokenizer matches greedily
+const OPERATORS = [
+  '===', '!==', '==', '!=', '<=', '>=', '&&', '||',
+  '+', '-', '*', '/', '%', '<', '>', '!', '?', ':', '(', ')', ',', '.',
+];
+
+const KEYWORD_LITERALS: Record<string, ExpressionValue> = {
+  true: true,
+  false: false,
+  null: null,
+};
+
+const hasOwn = (object: object, key: string) => Object.prototype.hasOwnProperty.call(object, key);
+
+const isIdentifierStart = (char: string) => /[A-Za-z_$]/.test(char);
+const isIdentifierPart = (char: string) => /[A-Za-z0-9_$]/.test(char);
+const isDigit = (char: string) => char >= '0' && char <= '9';
+
+const describeToken = (token: Token) =>
+  token.type === 'eof' ? 'end of expression' : `"${token.value}"`;
+
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r' };
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < source.length) {
+    const char = source[pos];
+
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
+
+    const start = pos;
+
+    if (isDigit(char) || (char === '.' && isDigit(source[pos + 1] ?? ''))) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(pos));
+      pos += match![0].length;
+      if (pos < source.length && isIdentifierPart(source[pos])) {
+        throw new ExpressionError(`Invalid number "${source.slice(start, pos + 1)}"`, start, pos + 1);
+      }
+      tokens.push({ type: 'number', value: match![0], start, end: pos });
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      pos++;
+      while (pos < source.length && source[pos] !== char) {
+        if (source[pos] === '\\' && pos + 1 < source.length) {
+          const escaped = source[pos + 1];
+          value += ESCAPES[escaped] ?? escaped;
+          pos += 2;
+        } else {
+          value += source[pos++];
+        }
+      }
+      if (pos >= source.length) {
+        throw new ExpressionError('Unterminated string', start, source.length);
+      }
+      pos++;
+      tokens.push({ type: 'string', value, start, end: pos });
+      continue;
+    }
+
+    if (isIdentifierStart(char)) {
+      while (pos < source.length && isIdentifierPart(source[pos])) {
+        pos++;
+      }
+      tokens.push({ type: 'identifier', value: source.slice(start, pos), start, end: pos });
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, pos));
+    if (!operator) {
+      throw new ExpressionError(`Unexpected character "${char}"`, start);
+    }
+    pos += operator.length;
+    tokens.push({ type: 'operator', value: operator, start, end: pos });
+  }
+
+  tokens.push({ type: 'eof', value: '', start: source.length, end: source.length });
+  return tokens;
+};
+
+/**
+ * Recursive descent parser. Precedence from lowest to highest:
+ * ternary, ||, &&, equality, comparison, additive, multiplicative, unary, member/call.
+ */
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+  private depth = 0;
+
+  constructor(source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  parse(): ExpressionNode {
+    if (this.peek().type === 'eof') {
+      throw new ExpressionError('Expression is empty', 0);
+    }
+    const node = this.parseConditional();
+    const next = this.peek();
+    if (next.type !== 'eof') {
+      throw new ExpressionError(`Unexpected ${describeToken(next)}`, next.start, next.end);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private matchOperator(...operators: string[]): Token | null {
+    const token = this.peek();
+    if (token.type === 'operator' && operators.includes(token.value)) {
+      this.index++;
+      return token;
+    }
+    return null;
+  }
+
+  private expectOperator(operator: string): Token {
+    const token = this.peek();
+    if (token.type !== 'operator' || token.value !== operator) {
+      throw new ExpressionError(
+        `Expected "${operator}" but found ${describeToken(token)}`,
+        token.start,
+        token.end
+      );
+    }
+    return this.next();
+  }
+
+  private enter(token: Token): void {
+    if (++this.depth > MAX_NESTING_DEPTH) {
+      throw new ExpressionError('Expression is nested too deeply', token.start, token.end);
+    }
+  }
+
+  private parseConditional(): ExpressionNode {
+    this.enter(this.peek());
+    const test = this.parseBinary(0);
+    let node = test;
+    if (this.matchOperator('?')) {
+      const consequent = this.parseConditional();
+      this.expectOperator(':');
+      const alternate = this.parseConditional();
+      node = { type: 'conditional', test, consequent, alternate, start: test.start, end: alternate.end };
+    }
+    this.depth--;
+    return node;
+  }
+
+  private static readonly BINARY_LEVELS: string[][] = [
+    ['||'],
+    ['&&'],
+    ['==', '!=', '===', '!=='],
+    ['<', '<=', '>', '>='],
+    ['+', '-'],
+    ['*', '/', '%'],
+  ];
+
+  private parseBinary(level: number): ExpressionNode {
+    if (level >= Parser.BINARY_LEVELS.length) {
+      return this.parseUnary();
+    }
+
+    let left = this.parseBinary(level + 1);
+    let operator = this.matchOperator(...Parser.BINARY_LEVELS[level]);
+    while (operator) {
+      const right = this.parseBinary(level + 1);
+      left = { type: 'binary', operator: operator.value, left, right, start: left.start, end: right.end };
+      operator = this.matchOperator(...Parser.BINARY_LEVELS[level]);
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    const operator = this.matchOperator('-', '+', '!');
+    if (operator) {
+      this.enter(operator);
+      const argument = this.parseUnary();
+      this.depth--;
+      return { type: 'unary', operator: operator.value, argument, start: operator.start, end: argument.end };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): ExpressionNode {
+    let node = this.parsePrimary();
+
+    let dot = this.matchOperator('.');
+    while (dot) {
+      const member = this.next();
+      if (member.type !== 'identifier') {
+        throw new ExpressionError(`Expected a function name after "." but found ${describeToken(member)}`, member.start, member.end);
+      }
+
+      if (this.peek().type === 'operator' && this.peek().value === '(') {
+        // value.fn(a, b) is shorthand for fn(value, a, b)
+        const args = this.parseArguments();
+        node = this.createCall(member, [node, ...args], node.start);
+      } else if (member.value === 'length') {
+        node = this.createCall({ ...member, value: 'len' }, [node], node.start);
+      } else {
+        throw new ExpressionError(`Property "${member.value}" is not supported`, member.start, member.end);
+      }
+
+      dot = this.matchOperator('.');
+    }
+
+    return node;
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'literal', value: Number(token.value), start: token.start, end: token.end };
+      case 'string':
+        return { type: 'literal', value: token.value, start: token.start, end: token.end };
+      case 'identifier':
+        return this.parseIdentifier(token);
+      case 'operator':
+        if (token.value === '(') {
+          this.enter(token);
+          const inner = this.parseConditional();
+          const close = this.expectOperator(')');
+          this.depth--;
+          return { ...inner, start: token.start, end: close.end };
+        }
+        break;
+    }
+
+    throw new ExpressionError(`Unexpected ${describeToken(token)}`, token.start, token.end);
+  }
+
+  private parseIdentifier(token: Token): ExpressionNode {
+    if (hasOwn(KEYWORD_LITERALS, token.value)) {
+      return { type: 'literal', value: KEYWORD_LITERALS[token.value], start: token.start, end: token.end };
+    }
+
+    // Namespaced functions such as Math.max(a, b)
+    const namespace = hasOwn(EXPRESSION_NAMESPACES, token.value) ? EXPRESSION_NAMESPACES[token.value] : undefined;
+    if (namespace && this.peek().type === 'operator' && this.peek().value === '.') {
+      this.next();
+      const member = this.next();
+      if (member.type !== 'identifier' || !namespace.includes(member.value)) {
+        throw new ExpressionError(
+          `${token.value}.${member.value} is not an available function`,
+          member.start,
+          member.end
+        );
+      }
+      const args = this.parseArguments();
+      return this.createCall(member, args, token.start);
+    }
+
+    if (this.peek().type === 'operator' && this.peek().value === '(') {
+      const args = this.parseArguments();
+      return this.createCall(token, args, token.start);
+    }
+
+    return { type: 'identifier', name: token.value, start: token.start, end: token.end };
+  }
+
+  private parseArguments(): ExpressionNode[] {
+    const open = this.expectOperator('(');
+    this.enter(open);
+    const args: ExpressionNode[] = [];
+    if (!this.matchOperator(')')) {
+      do {
+        args.push(this.parseConditional());
+      } while (this.matchOperator(','));
+      this.expectOperator(')');
+    }
+    this.depth--;
+    return args;
+  }
+
+  private createCall(nameToken: Token, args: ExpressionNode[], start: number): ExpressionNode {
+    if (!hasOwn(EXPRESSION_FUNCTIONS, nameToken.value)) {
+      throw new ExpressionError(`Unknown function "${nameToken.value}"`, nameToken.start, nameToken.end);
+    }
+    const definition = EXPRESSION_FUNCTIONS[nameToken.value];
+    if (args.length < definition.minArgs || args.length > definition.maxArgs) {
+      const expected = definition.minArgs === definition.maxArgs
+        ? `${definition.minArgs}`
+        : definition.maxArgs === Infinity
+          ? `at least ${definition.minArgs}`
+          : `${definition.minArgs} to ${definition.maxArgs}`;
+      throw new ExpressionError(
+        `${nameToken.value}() expects ${expected} argument${expected === '1' ? '' : 's'} but got ${args.length}`,
+        nameToken.start,
+        nameToken.end
+      );
+    }
+    const end = this.tokens[this.index - 1].end;
+    return { type: 'call', name: nameToken.value, args, start, end };
+  }
+}
+
+const isTruthy = (value: ExpressionValue): boolean => {
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  if (typeof value === 'number') {
+    return !isNaN(value) && value !== 0;
+  }
+  return Boolean(value);
+};
+
+const isEqual = (left: ExpressionValue, right: ExpressionValue): boolean => {
+  if (left instanceof Date || right instanceof Date || typeof left === 'number' || typeof right === 'number') {
+    return toNumber(left) === toNumber(right);
+  }
+  if (Array.isArray(left) || Array.isArray(right)) {
+    return toText(left) === toText(right);
+  }
+  return left === right;
+};
+
+const compare = (operator: string, left: ExpressionValue, right: ExpressionValue): boolean => {
+  const bothText = typeof left === 'string' && typeof right === 'string';
+  const a = bothText ? left : toNumber(left);
+  const b = bothText ? right : toNumber(right);
+  switch (operator) {
+    case '<': return a < b;
+    case '<=': return a <= b;
+    case '>': return a > b;
+    default: return a >= b;
+  }
+};
+
+export class ExpressionEngine {
+  /**
+   * Parse an expression into an AST, throwing an ExpressionError with the offending position
+   */
+  static parse(expression: string): ExpressionNode {
+    if (expression.length > MAX_EXPRESSION_LENGTH) {
+      throw new ExpressionError(
+        `Expression is too long (maximum ${MAX_EXPRESSION_LENGTH} characters)`,
+        MAX_EXPRESSION_LENGTH,
+        expression.length
+      );
+    }
+    return new Parser(expression).parse();
+  }
+
+  /**
+   * Evaluate an expression (or a previously parsed AST) against a set of variables
+   */
+  static evaluate(
+    expression: string | ExpressionNode,
+    variables: Record<string, ExpressionValue>
+  ): ExpressionValue {
+    const node = typeof expression === 'string' ? this.parse(expression) : expression;
+    const result = this.evaluateNode(node, variables);
+    // NaN and Infinity are what incomplete input or division by zero produce; surface them as empty
+    if (typeof result === 'number' && !isFinite(result)) {
+      return null;
+    }
+    return result;
+  }
+
+  /**
+   * Parse an expression and check that it only references the given variable names
+   */
+  static validate(
+    expression: string,
+    variableNames?: string[]
+  ): { isValid: boolean; error?: ExpressionError } {
+    try {
+      const node = this.parse(expression);
+      if (variableNames) {
+        const unknown = this.findIdentifiers(node).find(id => !variableNames.includes(id.name));
+        if (unknown) {
+          throw new ExpressionError(`Unknown variable "${unknown.name}"`, unknown.start, unknown.end);
+        }
+      }
+      return { isValid: true };
+    } catch (error) {
+      if (error instanceof ExpressionError) {
+        return { isValid: false, error };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Rename variables in an expression, leaving everything else as written.
+   * Expressions that do not parse are returned unchanged.
+   */
+  static renameVariables(expression: string, renames: Record<string, string>): string {
+    let node: ExpressionNode;
+    try {
+      node = this.parse(expression);
+    } catch (error) {
+      if (error instanceof ExpressionError) {
+        return expression;
+      }
+      throw error;
+    }
+
+    // Replace from the end so earlier positions stay valid
+    return this.findIdentifiers(node)
+      .filter(id => hasOwn(renames, id.name))
+      .sort((a, b) => b.start - a.start)
+      .reduce(
+        (result, id) => result.slice(0, id.start) + renames[id.name] + result.slice(id.end),
+        expression
+      );
+  }
+
+  /**
+   * Convert a field label into the variable name used to reference it in expressions
+   */
+  static toVariableName(label: string): string {
+    const name = label
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9_$]+/g, '_')
+      .replace(/^_+|_+$/g, '');
+    if (!name) {
+      return '';
+    }
+    return isDigit(name[0]) ? `_${name}` : name;
+  }
+
+  /**
+   * Check whether a string can be used as a variable name as-is
+   */
+  static isValidIdentifier(name: string): boolean {
+    return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) && !hasOwn(KEYWORD_LITERALS, name);
+  }
+
+  private static findIdentifiers(node: ExpressionNode): Array<Extract<ExpressionNode, { type: 'identifier' }>> {
+    switch (node.type) {
+      case 'identifier':
+        return [node];
+      case 'unary':
+        return this.findIdentifiers(node.argument);
+      case 'binary':
+        return [...this.findIdentifiers(node.left), ...this.findIdentifiers(node.right)];
+      case 'conditional':
+        return [
+          ...this.findIdentifiers(node.test),
+          ...this.findIdentifiers(node.consequent),
+          ...this.findIdentifiers(node.alternate),
+        ];
+      case 'call':
+        return node.args.flatMap(arg => this.findIdentifiers(arg));
+      default:
+        return [];
+    }
+  }
+
+  private static evaluateNode(node: ExpressionNode, variables: Record<string, ExpressionValue>): ExpressionValue {
+    switch (node.type) {
+      case 'literal':
+        return node.value;
+
+      case 'identifier':
+        if (!hasOwn(variables, node.name)) {
+          throw new ExpressionError(`Unknown variable "${node.name}"`, node.start, node.end);
+        }
+        return variables[node.name] ?? null;
+
+      case 'unary': {
+        const argument = this.evaluateNode(node.argument, variables);
+        if (node.operator === '!') return !isTruthy(argument);
+        if (node.operator === '-') return -toNumber(argument);
+        return toNumber(argument);
+      }
+
+      case 'conditional':
+        return isTruthy(this.evaluateNode(node.test, variables))
+          ? this.evaluateNode(node.consequent, variables)
+          : this.evaluateNode(node.alternate, variables);
+
+      case 'call': {
+        const args = node.args.map(arg => this.evaluateNode(arg, variables));
+        try {
+          return EXPRESSION_FUNCTIONS[node.name].fn(...args);
+        } catch (error) {
+          if (error instanceof ExpressionError) throw error;
+          const message = error instanceof Error ? error.message : String(error);
+          throw new ExpressionError(`${node.name}() failed: ${message}`, node.start, node.end);
+        }
+      }
+
+      case 'binary':
+        return this.evaluateBinary(node, variables);
+    }
+  }
+
+  private static evaluateBinary(
+    node: Extract<ExpressionNode, { type: 'binary' }>,
+    variables: Record<string, ExpressionValue>
+  ): ExpressionValue {
+    const left = this.evaluateNode(node.left, variables);
+
+    // Logical operators short-circuit and return the deciding operand
+    if (node.operator === '&&') {
+      return isTruthy(left) ? this.evaluateNode(node.right, variables) : left;
+    }
+    if (node.operator === '||') {
+      return isTruthy(left) ? left : this.evaluateNode(node.right, variables);
+    }
+
+    const right = this.evaluateNode(node.right, variables);
+
+    switch (node.operator) {
+      case '+':
+        if (typeof left === 'string' || typeof right === 'string' || Array.isArray(left) || Array.isArray(right)) {
+          return toText(left) + toText(right);
+        }
+        return toNumber(left) + toNumber(right);
+      case '-': return toNumber(left) - toNumber(right);
+      case '*': return toNumber(left) * toNumber(right);
+      case '/': return toNumber(left) / toNumber(right);
+      case '%': return toNumber(left) % toNumber(right);
+      case '==':
+      case '===':
+        return isEqual(left, right);
+      case '!=':
+      case '!==':
+        return !isEqual(left, right);
+      default:
+        return compare(node.operator, left, right);
+    }
+  }
+}
@@ -0,0 +1,118 @@
+import { EXPRESSION_FUNCTIONS } from './ExpressionFunctions';
+
+const { today, age, daysBetween, addDays } = EXPRESSION_FUNCTIONS;
+
+// Zones either side of UTC, including ones with daylight saving time
+const TIMEZONES = ['UTC', 'America/Los_Angeles', 'Europe/London', 'Pacific/Kiritimati', 'Pacific/Pago_Pago'];
+
+describe('date functions', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.useRealTimers();
+  });
+
+  describe.each(TIMEZONES)('in %s', timezone => {
+    beforeEach(() => {
+      vi.stubEnv('TZ', timezone);
+    });
+
+    describe('age', () => {
+      it('counts completed years', () => {
+        expect(age.fn('1990-06-15', '2024-06-15')).toBe(34);
+        expect(age.fn('1990-06-15', '2024-06-14')).toBe(33);
+        expect(age.fn('1990-06-15', '2024-12-31')).toBe(34);
+      });
+
+      it('treats a leap day birthday as not reached until March 1 in other years', () => {
+        expect(age.fn('2000-02-29', '2023-02-28')).toBe(22);
+        expect(age.fn('2000-02-29', '2023-03-01')).toBe(23);
+        expect(age.fn('2000-02-29', '2024-02-29')).toBe(24);
+      });
+
+      it("uses today's local date when no date is given", () => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date(2024, 5, 15, 0, 30));
+        expect(age.fn('1990-06-15')).toBe(34);
+        vi.setSystemTime(new Date(2024, 5, 14, 23, 30));
+        expect(age.fn('1990-06-15')).toBe(33);
+      });
+
+      it('returns null for dates that do not exist', () => {
+        expect(age.fn('2023-02-29', '2024-01-01')).toBeNull();
+        expect(age.fn('not a date', '2024-01-01')).toBeNull();
+        expect(age.fn('1990-06-15', '2024-13-01')).toBeNull();
+      });
+    });
+
+    describe('daysBetween', () => {
+      it('counts calendar days across month and year ends', () => {
+        expect(daysBetween.fn('2024-01-31', '2024-02-01')).toBe(1);
+        expect(daysBetween.fn('2024-02-28', '2024-03-01')).toBe(2);
+        expect(daysBetween.fn('2023-02-28', '2023-03-01')).toBe(1);
+        expect(daysBetween.fn('2023-12-31', '2024-01-01')).toBe(1);
+        expect(daysBetween.fn('2024-01-01', '2025-01-01')).toBe(366);
+      });
+
+      it('counts whole days across daylight saving changes', () => {
+        expect(daysBetween.fn('2024-03-09', '2024-03-11')).toBe(2);
+        expect(daysBetween.fn('2024-03-30', '2024-04-01')).toBe(2);
+        expect(daysBetween.fn('2024-10-26', '2024-10-28')).toBe(2);
+        expect(daysBetween.fn('2024-11-02', '2024-11-04')).toBe(2);
+      });
+
+      it('is negative when the second date is earlier', () => {
+        expect(daysBetween.fn('2024-03-11', '2024-03-09')).toBe(-2);
+      });
+
+      it('reads Date values by their local calendar date', () => {
+        expect(daysBetween.fn(new Date(2024, 2, 9, 23, 59), new Date(2024, 2, 11, 0, 1))).toBe(2);
+      });
+
+      it('returns null for invalid dates', () => {
+        expect(daysBetween.fn('2024-02-30', '2024-03-01')).toBeNull();
+        expect(daysBetween.fn('2024-01-01', '')).toBeNull();
+        expect(daysBetween.fn(new Date(NaN), '2024-01-01')).toBeNull();
+      });
+    });
+
+    describe('addDays', () => {
+      it('rolls over month and year ends', () => {
+        expect(addDays.fn('2024-01-31', 1)).toBe('2024-02-01');
+        expect(addDays.fn('2024-02-28', 1)).toBe('2024-02-29');
+        expect(addDays.fn('2023-02-28', 1)).toBe('2023-03-01');
+        expect(addDays.fn('2024-12-31', 1)).toBe('2025-01-01');
+      });
+
+      it('moves backwards for negative days', () => {
+        expect(addDays.fn('2024-03-01', -1)).toBe('2024-02-29');
+        expect(addDays.fn('2025-01-01', -1)).toBe('2024-12-31');
+        expect(addDays.fn('2024-01-01', -365)).toBe('2023-01-01');
+      });
+
+      it('keeps the calendar date across daylight saving changes', () => {
+        expect(addDays.fn('2024-03-09', 2)).toBe('2024-03-11');
+        expect(addDays.fn('2024-10-26', 2)).toBe('2024-10-28');
+      });
+
+      it('ignores fractions of a day and reads numeric text', () => {
+        expect(addDays.fn('2024-01-01', 1.9)).toBe('2024-01-02');
+        expect(addDays.fn('2024-01-01', '7')).toBe('2024-01-08');
+      });
+
+      it('returns null for invalid input', () => {
+        expect(addDays.fn('2024-04-31', 1)).toBeNull();
+        expect(addDays.fn('2024-01-01', 'soon')).toBeNull();
+      });
+    });
+
+    describe('today', () => {
+      it('is the local calendar date', () => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date(2024, 11, 31, 23, 59));
+        expect(today.fn()).toBe('2024-12-31');
+        vi.setSystemTime(new Date(2025, 0, 1, 0, 1));
+        expect(today.fn()).toBe('2025-01-01');
+      });
+    });
+  });
+});
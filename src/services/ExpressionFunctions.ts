@@ -0,0 +1,258 @@
+export type ExpressionValue = string | number | boolean | null | Date | ExpressionValue[];
+
+export interface ExpressionFunction {
+  minArgs: number;
+  maxArgs: number; // Infinity for variadic functions
+  description: string;
+  fn: (...args: ExpressionValue[]) => ExpressionValue;
+}
+
+/**
+ * Convert a value to a number for arithmetic. Empty values become NaN rather than 0
+ * so that incomplete forms do not produce misleading results.
+ */
+export const toNumber = (value: ExpressionValue): number => {
+  if (value === null || value === '' || Array.isArray(value)) {
+    return NaN;
+  }
+  if (value instanceof Date) {
+    return value.getTime();
+  }
+  if (typeof value === 'boolean') {
+    return value ? 1 : 0;
+  }
+  return Number(value);
+};
+
+export const toText = (value: ExpressionValue): string => {
+  if (value === null) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return value.map(toText).join(', ');
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return String(value);
+};
+
+const numeric = (fn: (...args: number[]) => number): ExpressionFunction['fn'] =>
+  (...args) => fn(...args.map(toNumber));
+
+// Flattens arguments so that checkbox groups can be passed to aggregate functions
+const flattenNumbers = (args: ExpressionValue[]): number[] =>
+  args.flatMap(arg => Array.isArray(arg) ? arg : [arg]).map(toNumber).filter(n => !isNaN(n));
+
+const MATH_FUNCTIONS: Record<string, ExpressionFunction> = {
+  abs: { minArgs: 1, maxArgs: 1, description: 'Absolute value', fn: numeric(Math.abs) },
+  ceil: { minArgs: 1, maxArgs: 1, description: 'Round up to an integer', fn: numeric(Math.ceil) },
+  floor: { minArgs: 1, maxArgs: 1, description: 'Round down to an integer', fn: numeric(Math.floor) },
+  round: {
+    minArgs: 1,
+    maxArgs: 2,
+    description: 'Round to the nearest integer, or to the given number of decimals',
+    fn: numeric((value, digits = 0) => {
+      const factor = Math.pow(10, digits);
+      return Math.round(value * factor) / factor;
+    }),
+  },
+  min: { minArgs: 1, maxArgs: Infinity, description: 'Smallest of the values', fn: (...args) => Math.min(...flattenNumbers(args)) },
+  max: { minArgs: 1, maxArgs: Infinity, description: 'Largest of the values', fn: (...args) => Math.max(...flattenNumbers(args)) },
+  pow: { minArgs: 2, maxArgs: 2, description: 'Base raised to the exponent', fn: numeric(Math.pow) },
+  sqrt: { minArgs: 1, maxArgs: 1, description: 'Square root', fn: numeric(Math.sqrt) },
+  sum: { minArgs: 1, maxArgs: Infinity, description: 'Sum of the values', fn: (...args) => flattenNumbers(args).reduce((a, b) => a + b, 0) },
+  avg: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    description: 'Average of the values',
+    fn: (...args) => {
+      const values = flattenNumbers(args);
+      return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+    },
+  },
+};
+
+const TEXT_FUNCTIONS: Record<string, ExpressionFunction> = {
+  concat: { minArgs: 0, maxArgs: Infinity, description: 'Join values into one text', fn: (...args) => args.map(toText).join('') },
+  toLowerCase: { minArgs: 1, maxArgs: 1, description: 'Text in lower case', fn: value => toText(value).toLowerCase() },
+  toUpperCase: { minArgs: 1, maxArgs: 1, description: 'Text in upper case', fn: value => toText(value).toUpperCase() },
+  trim: { minArgs: 1, maxArgs: 1, description: 'Text without surrounding whitespace', fn: value => toText(value).trim() },
+  substring: {
+    minArgs: 2,
+    maxArgs: 3,
+    description: 'Part of a text between two positions',
+    fn: (value, start, end) => toText(value).substring(toNumber(start), end === undefined ? undefined : toNumber(end)),
+  },
+  len: {
+    minArgs: 1,
+    maxArgs: 1,
+    description: 'Length of a text or number of selected options',
+    fn: value => Array.isArray(value) ? value.length : toText(value).length,
+  },
+  toFixed: {
+    minArgs: 1,
+    maxArgs: 2,
+    description: 'Number formatted with a fixed number of decimals',
+    fn: (value, digits) => {
+      const n = toNumber(value);
+      return isNaN(n) ? null : n.toFixed(digits === undefined ? 0 : toNumber(digits));
+    },
+  },
+};
+
+const CONVERSION_FUNCTIONS: Record<string, ExpressionFunction> = {
+  parseFloat: { minArgs: 1, maxArgs: 1, description: 'Parse a decimal number', fn: value => parseFloat(toText(value)) },
+  parseInt: {
+    minArgs: 1,
+    maxArgs: 2,
+    description: 'Parse an integer',
+    fn: (value, radix) => parseInt(toText(value), radix === undefined ? undefined : toNumber(radix)),
+  },
+  isNaN: { minArgs: 1, maxArgs: 1, description: 'Whether a value is not a number', fn: value => isNaN(toNumber(value)) },
+  number: { minArgs: 1, maxArgs: 1, description: 'Convert to a number', fn: value => toNumber(value) },
+  text: { minArgs: 1, maxArgs: 1, description: 'Convert to text', fn: value => toText(value) },
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+interface CalendarDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+/**
+ * Read a value as a calendar date. Dates are handled as plain year/month/day so that
+ * results do not shift with the user's timezone; date inputs provide YYYY-MM-DD strings.
+ */
+const toCalendarDate = (value: ExpressionValue): CalendarDate | null => {
+  if (value instanceof Date) {
+    return isNaN(value.getTime())
+      ? null
+      : { year: value.getFullYear(), month: value.getMonth() + 1, day: value.getDate() };
+  }
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const date = { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+  // Reject dates such as 2023-02-30 that would silently roll over
+  const check = new Date(Date.UTC(date.year, date.month - 1, date.day));
+  if (check.getUTCMonth() !== date.month - 1 || check.getUTCDate() !== date.day) {
+    return null;
+  }
+  return date;
+};
+
+const toDayNumber = (date: CalendarDate): number =>
+  Date.UTC(date.year, date.month - 1, date.day) / MS_PER_DAY;
+
+const fromDayNumber = (dayNumber: number): CalendarDate => {
+  const date = new Date(dayNumber * MS_PER_DAY);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+};
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+const formatCalendarDate = (date: CalendarDate, pattern = 'YYYY-MM-DD'): string =>
+  pattern.replace(/YYYY|YY|MMMM|MMM|MM|M|DD|D/g, token => {
+    switch (token) {
+      case 'YYYY': return pad(date.year, 4);
+      case 'YY': return pad(date.year % 100);
+      case 'MMMM': return MONTH_NAMES[date.month - 1];
+      case 'MMM': return MONTH_NAMES[date.month - 1].slice(0, 3);
+      case 'MM': return pad(date.month);
+      case 'M': return String(date.month);
+      case 'DD': return pad(date.day);
+      default: return String(date.day);
+    }
+  });
+
+const today = (): CalendarDate => toCalendarDate(new Date())!;
+
+const DATE_FUNCTIONS: Record<string, ExpressionFunction> = {
+  today: { minArgs: 0, maxArgs: 0, description: "Today's date (YYYY-MM-DD)", fn: () => formatCalendarDate(today()) },
+  age: {
+    minArgs: 1,
+    maxArgs: 2,
+    description: 'Completed years since a date, as of today or the given date',
+    fn: (value, asOf) => {
+      const from = toCalendarDate(value);
+      const to = asOf === undefined ? today() : toCalendarDate(asOf);
+      if (!from || !to) return null;
+      const hadBirthday = to.month > from.month || (to.month === from.month && to.day >= from.day);
+      return to.year - from.year - (hadBirthday ? 0 : 1);
+    },
+  },
+  daysBetween: {
+    minArgs: 2,
+    maxArgs: 2,
+    description: 'Number of days from the first date to the second',
+    fn: (a, b) => {
+      const from = toCalendarDate(a);
+      const to = toCalendarDate(b);
+      return from && to ? toDayNumber(to) - toDayNumber(from) : null;
+    },
+  },
+  addDays: {
+    minArgs: 2,
+    maxArgs: 2,
+    description: 'Date moved by a number of days (YYYY-MM-DD)',
+    fn: (value, days) => {
+      const date = toCalendarDate(value);
+      const offset = toNumber(days);
+      if (!date || isNaN(offset)) return null;
+      return formatCalendarDate(fromDayNumber(toDayNumber(date) + Math.trunc(offset)));
+    },
+  },
+  formatDate: {
+    minArgs: 1,
+    maxArgs: 2,
+    description: 'Date as text using a pattern of YYYY, YY, MMMM, MMM, MM, M, DD and D',
+    fn: (value, pattern) => {
+      const date = toCalendarDate(value);
+      return date ? formatCalendarDate(date, pattern === undefined ? undefined : toText(pattern)) : null;
+    },
+  },
+  year: { minArgs: 1, maxArgs: 1, description: 'Year of a date', fn: value => toCalendarDate(value)?.year ?? null },
+  month: { minArgs: 1, maxArgs: 1, description: 'Month of a date (1-12)', fn: value => toCalendarDate(value)?.month ?? null },
+  day: { minArgs: 1, maxArgs: 1, description: 'Day of the month of a date', fn: value => toCalendarDate(value)?.day ?? null },
+};
+
+/**
+ * Whitelisted functions grouped for display in the expression editor
+ */
+export const EXPRESSION_FUNCTION_CATEGORIES: Record<string, Record<string, ExpressionFunction>> = {
+  Math: MATH_FUNCTIONS,
+  Text: TEXT_FUNCTIONS,
+  Date: DATE_FUNCTIONS,
+  Conversion: CONVERSION_FUNCTIONS,
+};
+
+/**
+ * Whitelisted functions available to derived field expressions
+ */
+export const EXPRESSION_FUNCTIONS: Record<string, ExpressionFunction> = {
+  ...MATH_FUNCTIONS,
+  ...TEXT_FUNCTIONS,
+  ...DATE_FUNCTIONS,
+  ...CONVERSION_FUNCTIONS,
+};
+
+/**
+ * Namespaces kept for compatibility with the earlier JavaScript-based expressions (e.g. Math.max(a, b))
+ */
+export const EXPRESSION_NAMESPACES: Record<string, string[]> = {
+  Math: ['abs', 'ceil', 'floor', 'max', 'min', 'round', 'pow', 'sqrt'],
+  String: ['concat', 'toLowerCase', 'toUpperCase', 'trim', 'substring'],
+  Number: ['parseFloat', 'parseInt', 'isNaN'],
+};
@@ -0,0 +1,118 @@
+import type { FormSchema } from '../types';
+import { FORM_BUNDLE_FORMAT, FORM_BUNDLE_VERSION, FormBundleService } from './FormBundleService';
+import { LocalStorageFormRepository } from './LocalStorageFormRepository';
+
+const createForm = (id: string, name = 'Survey'): FormSchema => ({
+  id,
+  name,
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  fields: [{ id: 'name', type: 'text', label: 'Name', required: false }],
+});
+
+const bundleText = (forms: unknown[], version: unknown = FORM_BUNDLE_VERSION) =>
+  JSON.stringify({ format: FORM_BUNDLE_FORMAT, version, exportedAt: '2024-02-01T00:00:00.000Z', forms });
+
+describe('FormBundleService', () => {
+  describe('parseBundle', () => {
+    it('reads an exported bundle back', () => {
+      const form = createForm('form-1');
+      const parsed = FormBundleService.parseBundle(FormBundleService.exportForms([form]).content);
+
+      expect(parsed.version).toBe(FORM_BUNDLE_VERSION);
+      expect(parsed.entries).toHaveLength(1);
+      expect(parsed.entries[0]).toMatchObject({ sourceId: 'form-1', name: 'Survey', errors: [] });
+      expect(parsed.entries[0].form?.createdAt).toEqual(form.createdAt);
+    });
+
+    it('accepts a bare form or a list of forms', () => {
+      const form = createForm('form-1');
+      expect(FormBundleService.parseBundle(JSON.stringify(form)).entries).toHaveLength(1);
+      expect(FormBundleService.parseBundle(JSON.stringify([form, createForm('form-2')])).entries).toHaveLength(2);
+    });
+
+    it('rejects bundles written by a newer version', () => {
+      expect(() => FormBundleService.parseBundle(bundleText([], FORM_BUNDLE_VERSION + 1)))
+        .toThrow(`Unsupported bundle version ${FORM_BUNDLE_VERSION + 1}; this app reads up to version ${FORM_BUNDLE_VERSION}`);
+      expect(() => FormBundleService.parseBundle(bundleText([], 'one'))).toThrow('Unsupported bundle version one');
+    });
+
+    it('rejects files that are not form exports', () => {
+      expect(() => FormBundleService.parseBundle('{"forms": [')).toThrow('The file is not valid JSON');
+      expect(() => FormBundleService.parseBundle('{"hello": "world"}')).toThrow('The file is not a form export');
+      expect(() => FormBundleService.parseBundle(JSON.stringify({ format: FORM_BUNDLE_FORMAT, version: 1 })))
+        .toThrow('The bundle does not contain a form list');
+    });
+
+    it('reports invalid forms per entry', () => {
+      const parsed = FormBundleService.parseBundle(bundleText([createForm('form-1'), { id: 'broken' }, 'nonsense']));
+
+      expect(parsed.entries.map(entry => entry.form === null)).toEqual([false, true, true]);
+      expect(parsed.entries[1].sourceId).toBe('broken');
+      expect(parsed.entries[1].errors.length).toBeGreaterThan(0);
+      expect(parsed.entries[2].name).toBe('Form 3');
+    });
+  });
+
+  describe('importForms', () => {
+    let repository: LocalStorageFormRepository;
+
+    beforeEach(async () => {
+      localStorage.clear();
+      repository = new LocalStorageFormRepository();
+      await repository.saveForm(createForm('form-1', 'Saved'));
+    });
+
+    const importOne = async (strategy: 'skip' | 'overwrite' | 'duplicate') => {
+      const { entries } = FormBundleService.parseBundle(bundleText([createForm('form-1', 'Imported'), createForm('form-2', 'New')]));
+      return FormBundleService.importForms(entries, repository, strategy);
+    };
+
+    it('finds the forms whose ids are already saved', async () => {
+      const { entries } = FormBundleService.parseBundle(bundleText([createForm('form-1'), createForm('form-2')]));
+      expect(FormBundleService.findCollisions(entries, await repository.getForms())).toEqual(['form-1']);
+    });
+
+    it('skips colliding forms', async () => {
+      const results = await importOne('skip');
+
+      expect(results.map(result => result.status)).toEqual(['skipped', 'imported']);
+      expect((await repository.getForm('form-1'))?.name).toBe('Saved');
+      expect(await repository.getForms()).toHaveLength(2);
+    });
+
+    it('overwrites colliding forms', async () => {
+      const results = await importOne('overwrite');
+
+      expect(results.map(result => result.status)).toEqual(['overwritten', 'imported']);
+      expect((await repository.getForm('form-1'))?.name).toBe('Imported');
+      expect(await repository.getForms()).toHaveLength(2);
+    });
+
+    it('imports colliding forms as copies with new ids', async () => {
+      const results = await importOne('duplicate');
+
+      expect(results.map(result => result.status)).toEqual(['duplicated', 'imported']);
+      expect(results[0].formId).not.toBe('form-1');
+      expect((await repository.getForm('form-1'))?.name).toBe('Saved');
+      expect((await repository.getForm(results[0].formId!))?.name).toBe('Imported (imported)');
+      expect(await repository.getForms()).toHaveLength(3);
+    });
+
+    it('treats forms repeated within one bundle as collisions', async () => {
+      const { entries } = FormBundleService.parseBundle(bundleText([createForm('form-2', 'First'), createForm('form-2', 'Second')]));
+      const results = await FormBundleService.importForms(entries, repository, 'duplicate');
+
+      expect(results.map(result => result.status)).toEqual(['imported', 'duplicated']);
+      expect(await repository.getForms()).toHaveLength(3);
+    });
+
+    it('does not save invalid entries', async () => {
+      const { entries } = FormBundleService.parseBundle(bundleText([{ id: 'broken' }]));
+      const [result] = await FormBundleService.importForms(entries, repository, 'overwrite');
+
+      expect(result.status).toBe('invalid');
+      expect(result.errors.length).toBeGreaterThan(0);
+      expect(await repository.getForms()).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,218 @@
+import type { FormSchema } from '../types';
+import type { FormRepository } from './FormRepository';
+import type { ExportFile } from './ResponseExportService';
+import { FormSchemaValidator } from './FormSchemaValidator';
+
+// Identifies files written by this app; bumped when the bundle layout changes
+export const FORM_BUNDLE_FORMAT = 'dynamic-form-builder/forms';
+export const FORM_BUNDLE_VERSION = 1;
+
+export interface FormBundle {
+  format: typeof FORM_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  forms: FormSchema[];
+}
+
+/**
+ * One form read from a bundle. `form` is null when the entry failed validation.
+ */
+export interface FormBundleEntry {
+  index: number;
+  sourceId: string;
+  name: string;
+  form: FormSchema | null;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface ParsedFormBundle {
+  version: number;
+  exportedAt?: string;
+  entries: FormBundleEntry[];
+}
+
+// What to do when an imported form has the same id as a saved form
+export type ImportCollisionStrategy = 'skip' | 'overwrite' | 'duplicate';
+
+export interface FormImportResult {
+  sourceId: string;
+  name: string;
+  status: 'imported' | 'overwritten' | 'duplicated' | 'skipped' | 'invalid' | 'failed';
+  formId?: string; // id the form was saved under
+  errors: string[];
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const isValidDate = (value: unknown): boolean =>
+  (typeof value === 'string' || value instanceof Date) && !isNaN(new Date(value).getTime());
+
+export class FormBundleService {
+  /**
+   * Wrap forms in a versioned bundle
+   */
+  static createBundle(forms: FormSchema[]): FormBundle {
+    return {
+      format: FORM_BUNDLE_FORMAT,
+      version: FORM_BUNDLE_VERSION,
+      exportedAt: new Date().toISOString(),
+      forms,
+    };
+  }
+
+  /**
+   * Export forms as a downloadable JSON bundle
+   */
+  static exportForms(forms: FormSchema[]): ExportFile {
+    const date = new Date().toISOString().slice(0, 10);
+    const baseName = forms.length === 1
+      ? this.slugify(forms[0].name)
+      : `forms-${forms.length}`;
+
+    return {
+      content: JSON.stringify(this.createBundle(forms), null, 2),
+      mimeType: 'application/json',
+      filename: `${baseName}-${date}.json`,
+    };
+  }
+
+  /**
+   * Read a bundle file and validate each form in it. Throws an Error when the file
+   * is not a form bundle at all; problems with individual forms are reported per entry.
+   * A bare form or array of forms is accepted as well as a bundle.
+   */
+  static parseBundle(text: string): ParsedFormBundle {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error('The file is not valid JSON');
+    }
+
+    let rawForms: unknown[];
+    let version = FORM_BUNDLE_VERSION;
+    let exportedAt: string | undefined;
+
+    if (Array.isArray(data)) {
+      rawForms = data;
+    } else if (isObject(data) && data.format === FORM_BUNDLE_FORMAT) {
+      if (typeof data.version !== 'number' || data.version > FORM_BUNDLE_VERSION) {
+        throw new Error(
+          `Unsupported bundle version ${String(data.version)}; this app reads up to version ${FORM_BUNDLE_VERSION}`
+        );
+      }
+      if (!Array.isArray(data.forms)) {
+        throw new Error('The bundle does not contain a form list');
+      }
+      rawForms = data.forms;
+      version = data.version;
+      exportedAt = typeof data.exportedAt === 'string' ? data.exportedAt : undefined;
+    } else if (isObject(data) && 'fields' in data) {
+      rawForms = [data];
+    } else {
+      throw new Error('The file is not a form export');
+    }
+
+    return {
+      version,
+      exportedAt,
+      entries: rawForms.map((raw, index) => {
+        const problems = FormSchemaValidator.validate(raw);
+        const errors = FormSchemaValidator.getErrors(problems).map(problem => problem.message);
+        const record = isObject(raw) ? raw : {};
+        return {
+          index,
+          sourceId: typeof record.id === 'string' ? record.id : '',
+          name: typeof record.name === 'string' && record.name ? record.name : `Form ${index + 1}`,
+          form: errors.length === 0 ? this.reviveForm(record) : null,
+          errors,
+          warnings: FormSchemaValidator.getWarnings(problems).map(problem => problem.message),
+        };
+      }),
+    };
+  }
+
+  /**
+   * Save validated bundle entries, resolving id collisions with existing forms
+   */
+  static async importForms(
+    entries: FormBundleEntry[],
+    repository: FormRepository,
+    strategy: ImportCollisionStrategy
+  ): Promise<FormImportResult[]> {
+    const existingForms = await repository.getForms();
+    const existingIds = new Set(existingForms.map(form => form.id));
+    const results: FormImportResult[] = [];
+
+    for (const entry of entries) {
+      const base = { sourceId: entry.sourceId, name: entry.name };
+
+      if (!entry.form) {
+        results.push({ ...base, status: 'invalid', errors: entry.errors });
+        continue;
+      }
+
+      const collides = existingIds.has(entry.form.id);
+      if (collides && strategy === 'skip') {
+        results.push({ ...base, status: 'skipped', errors: ['A form with this id already exists'] });
+        continue;
+      }
+
+      const form = collides && strategy === 'duplicate'
+        ? { ...entry.form, id: this.createUniqueId(existingIds), name: `${entry.form.name} (imported)` }
+        : entry.form;
+
+      try {
+        await repository.saveForm(form);
+        existingIds.add(form.id);
+        results.push({
+          ...base,
+          status: !collides ? 'imported' : strategy === 'overwrite' ? 'overwritten' : 'duplicated',
+          formId: form.id,
+          errors: [],
+        });
+      } catch (error) {
+        const message = isObject(error) && typeof error.message === 'string' ? error.message : String(error);
+        results.push({ ...base, status: 'failed', errors: [message] });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Ids in the bundle that match saved forms
+   */
+  static findCollisions(entries: FormBundleEntry[], existingForms: FormSchema[]): string[] {
+    const existingIds = new Set(existingForms.map(form => form.id));
+    return entries
+      .filter(entry => entry.form && existingIds.has(entry.form.id))
+      .map(entry => entry.sourceId);
+  }
+
+  private static reviveForm(record: Record<string, unknown>): FormSchema {
+    const form = record as unknown as FormSchema;
+    return {
+      ...form,
+      createdAt: isValidDate(form.createdAt) ? new Date(form.createdAt) : new Date(),
+      ...(form.updatedAt !== undefined && {
+        updatedAt: isValidDate(form.updatedAt) ? new Date(form.updatedAt) : undefined,
+      }),
+      fields: form.fields.map(field => ({ ...field, required: Boolean(field.required) })),
+    };
+  }
+
+  private static createUniqueId(existingIds: Set<string>): string {
+    let id: string;
+    do {
+      id = `form-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    } while (existingIds.has(id));
+    return id;
+  }
+
+  private static slugify(name: string): string {
+    return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'form';
+  }
+}
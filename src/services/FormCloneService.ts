@@ -0,0 +1,139 @@
+import type { ConditionGroup, FormField, FormSchema } from '../types';
+import { ConditionEvaluator } from './ConditionEvaluator';
+import { ExpressionEngine } from './ExpressionEngine';
+
+const COPY_PREFIX = 'Copy of ';
+
+const createId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export class FormCloneService {
+  /**
+   * Deep-copy a form as a new, unsaved form: the form and every field get fresh ids, and
+   * derived field parents, expressions, visibility conditions and cross-field rules point at
+   * the new field ids.
+   * Folder, tags and pages are kept; the copy starts at version 1.
+   */
+  static duplicate(form: FormSchema, name = this.getCopyName(form.name)): FormSchema {
+    const fieldIds = new Map<string, string>();
+    form.fields.forEach(field => {
+      let id = createId('field');
+      while ([...fieldIds.values()].includes(id)) {
+        id = createId('field');
+      }
+      fieldIds.set(field.id, id);
+    });
+
+    const now = new Date();
+    return {
+      ...structuredClone(form),
+      id: createId('form'),
+      name,
+      createdAt: now,
+      updatedAt: now,
+      version: 1,
+      fields: form.fields.map(field => this.cloneField(field, form.fields, fieldIds)),
+      crossFieldRules: form.crossFieldRules?.map(rule => ({
+        ...rule,
+        id: createId('rule'),
+        fieldId: fieldIds.get(rule.fieldId) || rule.fieldId,
+        otherFieldId: fieldIds.get(rule.otherFieldId) || rule.otherFieldId,
+      })),
+    };
+  }
+
+  /**
+   * Name for a copy that does not clash with existing names:
+   * "Copy of Survey", then "Copy of Survey (2)", "Copy of Survey (3)", ...
+   */
+  static getCopyName(name: string, existingNames: string[] = []): string {
+    const taken = new Set(existingNames.map(existing => existing.trim().toLowerCase()));
+    const base = `${COPY_PREFIX}${name.trim()}`;
+
+    let candidate = base;
+    for (let counter = 2; taken.has(candidate.toLowerCase()); counter++) {
+      candidate = `${base} (${counter})`;
+    }
+    return candidate;
+  }
+
+  private static cloneField(field: FormField, fields: FormField[], fieldIds: Map<string, string>): FormField {
+    const clone: FormField = { ...structuredClone(field), id: fieldIds.get(field.id) || field.id };
+
+    if (clone.derivedFrom) {
+      const { parentFields, computationLogic } = clone.derivedFrom;
+      clone.derivedFrom = {
+        parentFields: parentFields.map(parentId => fieldIds.get(parentId) || parentId),
+        computationLogic: this.renameParentVariables(computationLogic, parentFields, fields, fieldIds),
+      };
+    }
+
+    if (clone.visibleWhen) {
+      clone.visibleWhen = this.cloneConditionGroup(clone.visibleWhen, fieldIds);
+    }
+
+    if (clone.validation) {
+      // "afterField" rules and password policies point at another field by id
+      clone.validation = clone.validation.map(rule => {
+        if (rule.type === 'afterField' && typeof rule.value === 'string') {
+          return { ...rule, value: fieldIds.get(rule.value) || rule.value };
+        }
+        const otherId = rule.policy?.notContainingFieldId;
+        if (otherId) {
+          return { ...rule, policy: { ...rule.policy, notContainingFieldId: fieldIds.get(otherId) || otherId } };
+        }
+        return rule;
+      });
+    }
+
+    return clone;
+  }
+
+  /**
+   * Expressions may reference a parent by a variable name built from its id;
+   * rename those so they follow the new id. Label-based names need no change.
+   */
+  private static renameParentVariables(
+    expression: string,
+    parentFields: string[],
+    fields: FormField[],
+    fieldIds: Map<string, string>
+  ): string {
+    const oldNames = this.getIdVariableNames(parentFields);
+    const labelNames = new Set(
+      fields
+        .filter(field => parentFields.includes(field.id))
+        .map(field => ExpressionEngine.toVariableName(field.label))
+    );
+
+    const renames: Record<string, string> = {};
+    parentFields.forEach((parentId, index) => {
+      const newId = fieldIds.get(parentId);
+      const oldName = oldNames[index];
+      // A label that produces the same name takes precedence, so leave it alone
+      if (newId && oldName && !labelNames.has(oldName)) {
+        renames[oldName] = this.getIdVariableNames([newId])[0];
+      }
+    });
+
+    return Object.keys(renames).length > 0
+      ? ExpressionEngine.renameVariables(expression, renames)
+      : expression;
+  }
+
+  private static getIdVariableNames(fieldIds: string[]): string[] {
+    return fieldIds.map(id =>
+      ExpressionEngine.isValidIdentifier(id) ? id : ExpressionEngine.toVariableName(id)
+    );
+  }
+
+  private static cloneConditionGroup(group: ConditionGroup, fieldIds: Map<string, string>): ConditionGroup {
+    return {
+      ...group,
+      conditions: group.conditions.map(node =>
+        ConditionEvaluator.isGroup(node)
+          ? this.cloneConditionGroup(node, fieldIds)
+          : { ...node, fieldId: fieldIds.get(node.fieldId) || node.fieldId }
+      ),
+    };
+  }
+}
@@ -0,0 +1,155 @@
+import type { FormSchema } from '../types';
+
+export const FOLDER_SEPARATOR = '/';
+
+/**
+ * A folder in the tree built from form folder paths
+ */
+export interface FolderNode {
+  name: string;
+  path: string;
+  formCount: number; // forms in this folder and its subfolders
+  children: FolderNode[];
+}
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+export class FormOrganizerService {
+  /**
+   * Tidy a folder path typed by the user: trims each segment and drops empty ones,
+   * so " Clients //Acme/ " becomes "Clients/Acme". Returns '' for no folder.
+   */
+  static normalizeFolderPath(path: string): string {
+    return path
+      .split(FOLDER_SEPARATOR)
+      .map(segment => segment.trim())
+      .filter(Boolean)
+      .join(FOLDER_SEPARATOR);
+  }
+
+  /**
+   * Tidy a tag: trims it and collapses inner whitespace
+   */
+  static normalizeTag(tag: string): string {
+    return tag.trim().replace(/\s+/g, ' ');
+  }
+
+  /**
+   * Whether a form is in the folder or one of its subfolders. '' matches forms without a folder.
+   */
+  static isInFolder(form: FormSchema, folderPath: string): boolean {
+    const folder = form.folder || '';
+    if (!folderPath) {
+      return !folder;
+    }
+    return folder === folderPath || folder.startsWith(folderPath + FOLDER_SEPARATOR);
+  }
+
+  /**
+   * Whether a form has the tag, ignoring case
+   */
+  static hasTag(form: FormSchema, tag: string): boolean {
+    const wanted = tag.toLowerCase();
+    return (form.tags || []).some(formTag => formTag.toLowerCase() === wanted);
+  }
+
+  /**
+   * Build the folder tree from the folders used by the given forms, sorted by name
+   */
+  static buildFolderTree(forms: FormSchema[]): FolderNode[] {
+    const root: FolderNode = { name: '', path: '', formCount: 0, children: [] };
+
+    forms.forEach(form => {
+      const path = this.normalizeFolderPath(form.folder || '');
+      if (!path) return;
+
+      let node = root;
+      path.split(FOLDER_SEPARATOR).forEach(segment => {
+        const childPath = node.path ? `${node.path}${FOLDER_SEPARATOR}${segment}` : segment;
+        let child = node.children.find(candidate => candidate.name === segment);
+        if (!child) {
+          child = { name: segment, path: childPath, formCount: 0, children: [] };
+          node.children.push(child);
+        }
+        child.formCount++;
+        node = child;
+      });
+    });
+
+    const sortTree = (nodes: FolderNode[]): FolderNode[] =>
+      nodes
+        .sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base', numeric: true }))
+        .map(node => ({ ...node, children: sortTree(node.children) }));
+
+    return sortTree(root.children);
+  }
+
+  /**
+   * All folder paths in use, including parent folders, sorted
+   */
+  static getFolderPaths(forms: FormSchema[]): string[] {
+    const paths: string[] = [];
+    const collect = (nodes: FolderNode[]) => nodes.forEach(node => {
+      paths.push(node.path);
+      collect(node.children);
+    });
+    collect(this.buildFolderTree(forms));
+    return paths;
+  }
+
+  /**
+   * Tags used by the given forms with the number of forms using each, most used first
+   */
+  static getTagCounts(forms: FormSchema[]): TagCount[] {
+    const counts = new Map<string, TagCount>();
+    forms.forEach(form => {
+      (form.tags || []).forEach(tag => {
+        const key = tag.toLowerCase();
+        const entry = counts.get(key);
+        if (entry) {
+          entry.count++;
+        } else {
+          counts.set(key, { tag, count: 1 });
+        }
+      });
+    });
+
+    return [...counts.values()].sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+  }
+
+  /**
+   * Copy of the form moved to another folder; '' removes it from any folder
+   */
+  static moveToFolder(form: FormSchema, folderPath: string): FormSchema {
+    const folder = this.normalizeFolderPath(folderPath);
+    const moved: FormSchema = { ...form, folder };
+    if (!folder) {
+      delete moved.folder;
+    }
+    return moved;
+  }
+
+  /**
+   * Copy of the form with the tags added; tags it already has (ignoring case) are skipped
+   */
+  static addTags(form: FormSchema, tags: string[]): FormSchema {
+    const nextTags = [...(form.tags || [])];
+    tags.map(tag => this.normalizeTag(tag)).filter(Boolean).forEach(tag => {
+      if (!nextTags.some(existing => existing.toLowerCase() === tag.toLowerCase())) {
+        nextTags.push(tag);
+      }
+    });
+    return { ...form, tags: nextTags };
+  }
+
+  /**
+   * Copy of the form without the tag
+   */
+  static removeTag(form: FormSchema, tag: string): FormSchema {
+    const wanted = tag.toLowerCase();
+    return { ...form, tags: (form.tags || []).filter(existing => existing.toLowerCase() !== wanted) };
+  }
+}
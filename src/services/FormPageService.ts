@@ -0,0 +1,102 @@
+import type { FormField, FormPage, FormSchema } from '../types';
+
+export interface FormPageGroup {
+  page: FormPage;
+  fields: FormField[];
+}
+
+export class FormPageService {
+  /**
+   * Check whether a schema is split into more than one page
+   */
+  static isMultiPage(schema: FormSchema): boolean {
+    return Boolean(schema.pages && schema.pages.length > 1);
+  }
+
+  /**
+   * Group the fields of a schema by page, in page order.
+   * Fields without a (known) page belong to the first page; forms without pages yield one group.
+   */
+  static groupFieldsByPage(schema: FormSchema): FormPageGroup[] {
+    const pages = schema.pages && schema.pages.length > 0
+      ? schema.pages
+      : [{ id: 'page-default', title: schema.name || 'Page 1' }];
+
+    const pageIds = new Set(pages.map(page => page.id));
+    const groups = pages.map(page => ({ page, fields: [] as FormField[] }));
+
+    schema.fields.forEach(field => {
+      const index = field.pageId && pageIds.has(field.pageId)
+        ? pages.findIndex(page => page.id === field.pageId)
+        : 0;
+      groups[index].fields.push(field);
+    });
+
+    return groups;
+  }
+
+  /**
+   * Get the id of the page a field is shown on
+   */
+  static getFieldPageId(schema: FormSchema, fieldId: string): string | undefined {
+    return this.groupFieldsByPage(schema).find(group =>
+      group.fields.some(field => field.id === fieldId)
+    )?.page.id;
+  }
+
+  /**
+   * Create an empty page with a unique id
+   */
+  static createPage(title: string): FormPage {
+    return {
+      id: `page-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+      title,
+    };
+  }
+
+  /**
+   * Split a single-page schema into pages, assigning every field to the first page
+   */
+  static enablePages(schema: FormSchema): FormSchema {
+    if (schema.pages && schema.pages.length > 0) {
+      return schema;
+    }
+
+    const firstPage = this.createPage('Page 1');
+    return {
+      ...schema,
+      pages: [firstPage],
+      fields: schema.fields.map(field => ({ ...field, pageId: firstPage.id })),
+    };
+  }
+
+  /**
+   * Remove a page, moving its fields to the previous page (or the next one when removing the first).
+   * Removing the second-to-last page turns the schema back into a single-page form.
+   */
+  static removePage(schema: FormSchema, pageId: string): FormSchema {
+    const pages = schema.pages || [];
+    const index = pages.findIndex(page => page.id === pageId);
+    if (index < 0) {
+      return schema;
+    }
+
+    const remainingPages = pages.filter(page => page.id !== pageId);
+    if (remainingPages.length <= 1) {
+      return {
+        ...schema,
+        pages: undefined,
+        fields: schema.fields.map(field => ({ ...field, pageId: undefined })),
+      };
+    }
+
+    const targetPageId = remainingPages[Math.max(0, index - 1)].id;
+    return {
+      ...schema,
+      pages: remainingPages,
+      fields: schema.fields.map(field =>
+        field.pageId === pageId || !field.pageId ? { ...field, pageId: targetPageId } : field
+      ),
+    };
+  }
+}
@@ -0,0 +1,114 @@
+import type { FormSchema } from '../types';
+import { DEFAULT_FORM_QUERY, FormQueryService } from './FormQueryService';
+import type { FormListQuery } from './FormQueryService';
+
+const createForm = (id: string, overrides: Partial<FormSchema> = {}): FormSchema => ({
+  id,
+  name: id,
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  fields: [{ id: 'name', type: 'text', label: 'Name', required: false }],
+  ...overrides,
+});
+
+describe('FormQueryService', () => {
+  describe('applyQuery', () => {
+    const forms = [
+      createForm('Survey 10', { createdAt: new Date('2024-03-01T00:00:00Z'), tags: ['Customers'] }),
+      createForm('Survey 2', {
+        createdAt: new Date('2024-01-01T00:00:00Z'),
+        updatedAt: new Date('2024-04-01T00:00:00Z'),
+        folder: 'Sales/Leads',
+        fields: [
+          { id: 'plan', type: 'select', label: 'Plan', required: true, options: ['Free', 'Pro'] },
+          { id: 'size', type: 'number', label: 'Team size', required: false },
+        ],
+      }),
+      createForm('Feedback', { createdAt: new Date('2024-02-01T00:00:00Z'), folder: 'Sales' }),
+    ];
+    const ids = (query: Partial<FormListQuery>) =>
+      FormQueryService.applyQuery(forms, { ...DEFAULT_FORM_QUERY, ...query }).map(form => form.id);
+
+    it('sorts newest first by default and names in natural order', () => {
+      expect(ids({})).toEqual(['Survey 10', 'Feedback', 'Survey 2']);
+      expect(ids({ sort: 'name', direction: 'asc' })).toEqual(['Feedback', 'Survey 2', 'Survey 10']);
+      expect(ids({ sort: 'updated' })).toEqual(['Survey 2', 'Survey 10', 'Feedback']);
+    });
+
+    it('filters by search, field types, features, folders and tags', () => {
+      expect(ids({ search: ' team ' })).toEqual(['Survey 2']);
+      expect(ids({ search: 'customers' })).toEqual(['Survey 10']);
+      expect(ids({ fieldTypes: ['select', 'number'] })).toEqual(['Survey 2']);
+      expect(ids({ features: ['required'] })).toEqual(['Survey 2']);
+      expect(ids({ folder: 'Sales' })).toEqual(['Feedback', 'Survey 2']);
+      expect(ids({ folder: '' })).toEqual(['Survey 10']);
+      expect(ids({ tags: ['customers'] })).toEqual(['Survey 10']);
+    });
+
+    it('leaves the original list untouched', () => {
+      const original = [...forms];
+      FormQueryService.applyQuery(forms, { ...DEFAULT_FORM_QUERY, sort: 'name' });
+      expect(forms).toEqual(original);
+    });
+  });
+
+  it('clears filters but keeps the sort order', () => {
+    const query: FormListQuery = { ...DEFAULT_FORM_QUERY, search: 'x', tags: ['a'], sort: 'name', direction: 'asc' };
+    expect(FormQueryService.isFiltered(query)).toBe(true);
+
+    const cleared = FormQueryService.clearFilters(query);
+    expect(cleared).toEqual({ ...DEFAULT_FORM_QUERY, sort: 'name', direction: 'asc' });
+    expect(FormQueryService.isFiltered(cleared)).toBe(false);
+  });
+
+  describe('search params', () => {
+    const roundTrip = (query: FormListQuery) =>
+      FormQueryService.fromSearchParams(new URLSearchParams(FormQueryService.toSearchParams(query).toString()));
+
+    it('leaves defaults out of the URL', () => {
+      expect(FormQueryService.toSearchParams(DEFAULT_FORM_QUERY).toString()).toBe('');
+      expect(FormQueryService.fromSearchParams(new URLSearchParams())).toEqual(DEFAULT_FORM_QUERY);
+    });
+
+    it('round-trips every setting', () => {
+      const query: FormListQuery = {
+        search: 'a & b = c?',
+        fieldTypes: ['select', 'date'],
+        features: ['derived', 'required'],
+        folder: 'Sales/Leads',
+        tags: ['Q1, Q2', 'VIP'],
+        sort: 'name',
+        direction: 'asc',
+      };
+
+      expect(FormQueryService.toSearchParams(query).getAll('tag')).toEqual(['Q1, Q2', 'VIP']);
+      expect(roundTrip(query)).toEqual(query);
+    });
+
+    it('keeps the difference between every folder and no folder', () => {
+      expect(roundTrip({ ...DEFAULT_FORM_QUERY, folder: '' }).folder).toBe('');
+      expect(roundTrip({ ...DEFAULT_FORM_QUERY, folder: null }).folder).toBeNull();
+    });
+
+    it('falls back to the defaults for unknown values', () => {
+      const query = FormQueryService.fromSearchParams(
+        new URLSearchParams('types=select,colour&has=derived,nothing&sort=size&dir=up&tag=%20%20&tag=%20A%20%20B%20&folder=%20Sales%20/%20/Leads')
+      );
+
+      expect(query).toEqual({
+        ...DEFAULT_FORM_QUERY,
+        fieldTypes: ['select'],
+        features: ['derived'],
+        folder: 'Sales/Leads',
+        tags: ['A B'],
+      });
+    });
+
+    it('keeps unrelated params and replaces its own', () => {
+      const current = new URLSearchParams('page=2&q=old&tag=old&folder=Old&sort=name');
+      const params = FormQueryService.toSearchParams({ ...DEFAULT_FORM_QUERY, tags: ['new'] }, current);
+
+      expect(params.toString()).toBe('page=2&tag=new');
+      expect(current.toString()).toBe('page=2&q=old&tag=old&folder=Old&sort=name');
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import type { FormField, FormSchema } from '../types';
+import { FIELD_TYPES } from './FormSchemaValidator';
+import { FormOrganizerService } from './FormOrganizerService';
+
+export type FormSortKey = 'created' | 'updated' | 'name' | 'fields';
+
+// Forms must use every selected feature
+export type FormFeatureFilter = 'derived' | 'required';
+
+/**
+ * Search, filter and sort settings for the saved forms list
+ */
+export interface FormListQuery {
+  search: string; // matched against form names, field labels and tags
+  fieldTypes: FormField['type'][]; // forms must contain at least one field of each type
+  features: FormFeatureFilter[];
+  folder: string | null; // null shows every folder, '' only forms without a folder; includes subfolders
+  tags: string[]; // forms must have every tag
+  sort: FormSortKey;
+  direction: 'asc' | 'desc';
+}
+
+export const DEFAULT_FORM_QUERY: FormListQuery = {
+  search: '',
+  fieldTypes: [],
+  features: [],
+  folder: null,
+  tags: [],
+  sort: 'created',
+  direction: 'desc',
+};
+
+const SORT_KEYS: FormSortKey[] = ['created', 'updated', 'name', 'fields'];
+const FEATURE_FILTERS: FormFeatureFilter[] = ['derived', 'required'];
+
+// URL query parameter names
+const PARAMS = {
+  search: 'q',
+  fieldTypes: 'types',
+  features: 'has',
+  folder: 'folder',
+  tags: 'tag',
+  sort: 'sort',
+  direction: 'dir',
+} as const;
+
+const parseList = <T extends string>(value: string | null, allowed: readonly T[]): T[] =>
+  value
+    ? value.split(',').filter((item): item is T => allowed.includes(item as T))
+    : [];
+
+const getTime = (date: Date | undefined): number => (date ? new Date(date).getTime() || 0 : 0);
+
+export class FormQueryService {
+  /**
+   * Apply a query to a list of forms, returning a new filtered and sorted list
+   */
+  static applyQuery(forms: FormSchema[], query: FormListQuery): FormSchema[] {
+    const search = query.search.trim().toLowerCase();
+
+    const matching = forms.filter(form => {
+      if (search && !this.matchesSearch(form, search)) {
+        return false;
+      }
+      if (!query.fieldTypes.every(type => form.fields.some(field => field.type === type))) {
+        return false;
+      }
+      if (query.features.includes('derived') && !form.fields.some(field => field.derivedFrom)) {
+        return false;
+      }
+      if (query.features.includes('required') && !form.fields.some(field => field.required)) {
+        return false;
+      }
+      if (query.folder !== null && !FormOrganizerService.isInFolder(form, query.folder)) {
+        return false;
+      }
+      if (!query.tags.every(tag => FormOrganizerService.hasTag(form, tag))) {
+        return false;
+      }
+      return true;
+    });
+
+    const sign = query.direction === 'asc' ? 1 : -1;
+    return matching.sort((a, b) => sign * this.compare(a, b, query.sort));
+  }
+
+  /**
+   * Whether any search or filter (not sorting) is active
+   */
+  static isFiltered(query: FormListQuery): boolean {
+    return Boolean(query.search.trim()) ||
+      query.fieldTypes.length > 0 ||
+      query.features.length > 0 ||
+      query.folder !== null ||
+      query.tags.length > 0;
+  }
+
+  /**
+   * The same query with every search and filter removed, keeping the sort order
+   */
+  static clearFilters(query: FormListQuery): FormListQuery {
+    return { ...DEFAULT_FORM_QUERY, sort: query.sort, direction: query.direction };
+  }
+
+  /**
+   * Read a query from URL search params; unknown values fall back to the defaults
+   */
+  static fromSearchParams(params: URLSearchParams): FormListQuery {
+    const sort = params.get(PARAMS.sort) as FormSortKey | null;
+    const direction = params.get(PARAMS.direction);
+
+    return {
+      search: params.get(PARAMS.search) || '',
+      fieldTypes: parseList(params.get(PARAMS.fieldTypes), FIELD_TYPES),
+      features: parseList(params.get(PARAMS.features), FEATURE_FILTERS),
+      // An empty "folder=" selects forms without a folder
+      folder: params.has(PARAMS.folder) ? FormOrganizerService.normalizeFolderPath(params.get(PARAMS.folder) || '') : null,
+      tags: params.getAll(PARAMS.tags).map(tag => FormOrganizerService.normalizeTag(tag)).filter(Boolean),
+      sort: sort && SORT_KEYS.includes(sort) ? sort : DEFAULT_FORM_QUERY.sort,
+      direction: direction === 'asc' || direction === 'desc' ? direction : DEFAULT_FORM_QUERY.direction,
+    };
+  }
+
+  /**
+   * Write a query into URL search params, leaving out defaults and keeping unrelated params
+   */
+  static toSearchParams(query: FormListQuery, current?: URLSearchParams): URLSearchParams {
+    const params = new URLSearchParams(current);
+    const set = (key: string, value: string, defaultValue: string) => {
+      if (value && value !== defaultValue) {
+        params.set(key, value);
+      } else {
+        params.delete(key);
+      }
+    };
+
+    set(PARAMS.search, query.search, DEFAULT_FORM_QUERY.search);
+    set(PARAMS.fieldTypes, query.fieldTypes.join(','), '');
+    set(PARAMS.features, query.features.join(','), '');
+    if (query.folder === null) {
+      params.delete(PARAMS.folder);
+    } else {
+      params.set(PARAMS.folder, query.folder);
+    }
+    // One param per tag, since tags may contain commas
+    params.delete(PARAMS.tags);
+    query.tags.forEach(tag => params.append(PARAMS.tags, tag));
+    set(PARAMS.sort, query.sort, DEFAULT_FORM_QUERY.sort);
+    set(PARAMS.direction, query.direction, DEFAULT_FORM_QUERY.direction);
+    return params;
+  }
+
+  private static matchesSearch(form: FormSchema, search: string): boolean {
+    return form.name.toLowerCase().includes(search) ||
+      form.fields.some(field => field.label.toLowerCase().includes(search)) ||
+      (form.tags || []).some(tag => tag.toLowerCase().includes(search));
+  }
+
+  private static compare(a: FormSchema, b: FormSchema, sort: FormSortKey): number {
+    switch (sort) {
+      case 'name':
+        return a.name.localeCompare(b.name, undefined, { sensitivity: 'base', numeric: true });
+      case 'fields':
+        return a.fields.length - b.fields.length;
+      case 'updated':
+        // Forms saved before updatedAt existed count as updated when created
+        return getTime(a.updatedAt || a.createdAt) - getTime(b.updatedAt || b.createdAt);
+      case 'created':
+      default:
+        return getTime(a.createdAt) - getTime(b.createdAt);
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import type { FormSchema, TrashedForm } from '../types';
+import type { RecoveryReport } from './StorageRecoveryService';
+import { LocalStorageFormRepository } from './LocalStorageFormRepository';
+import { IndexedDBFormRepository } from './IndexedDBFormRepository';
+import { SyncedFormRepository } from './FormSyncService';
+
+export type FormRepositoryBackend = 'localStorage' | 'indexedDB';
+
+/**
+ * Persistence of form definitions. Implementations reject with a LocalStorageError-shaped
+ * object so that ErrorHandler can describe failures regardless of the backend.
+ */
+export interface FormRepository {
+  readonly backend: FormRepositoryBackend;
+  getForms(): Promise<FormSchema[]>;
+  getForm(id: string): Promise<FormSchema | null>;
+  saveForm(schema: FormSchema): Promise<void>;
+  deleteForm(id: string): Promise<void>;
+  clearAllForms(): Promise<void>;
+  // Trashed forms are stored with the forms, so they share the same storage limits;
+  // they are keyed by the id of the trash entry
+  getTrashedForms(): Promise<TrashedForm[]>;
+  saveTrashedForm(item: TrashedForm): Promise<void>;
+  deleteTrashedForms(ids: string[]): Promise<void>;
+  // Keep every readable form and set unreadable ones aside, after a corrupted_data error
+  recoverForms(): Promise<RecoveryReport>;
+  // Remove all stored forms, keeping a copy of the previous data aside
+  resetForms(): Promise<void>;
+  // The stored data as text, to download when it cannot be read
+  getRawData(): Promise<string | null>;
+}
+
+export type FormRepositoryPreference = FormRepositoryBackend | 'auto';
+
+/**
+ * Create the repository used by the app. 'auto' prefers IndexedDB and falls back to
+ * localStorage when IndexedDB cannot be opened (e.g. some private browsing modes).
+ * Writes are announced to other open tabs.
+ */
+export const createFormRepository = async (
+  preference: FormRepositoryPreference = 'auto'
+): Promise<FormRepository> => {
+  if (preference === 'localStorage') {
+    return new SyncedFormRepository(new LocalStorageFormRepository());
+  }
+
+  try {
+    return new SyncedFormRepository(await IndexedDBFormRepository.open());
+  } catch (error) {
+    if (preference === 'indexedDB') {
+      throw error;
+    }
+    console.warn('IndexedDB is unavailable, storing forms in localStorage instead:', error);
+    return new SyncedFormRepository(new LocalStorageFormRepository());
+  }
+};
@@ -0,0 +1,127 @@
+import { FormSchemaValidator } from './FormSchemaValidator';
+
+const validForm = () => ({
+  id: 'form-1',
+  name: 'Survey',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  fields: [
+    { id: 'name', type: 'text', label: 'Name', required: true },
+    { id: 'age', type: 'number', label: 'Age', required: false },
+  ] as Record<string, unknown>[],
+});
+
+const codes = (value: unknown) =>
+  FormSchemaValidator.validate(value).map(problem => `${problem.severity}:${problem.code}:${problem.path}`);
+
+describe('FormSchemaValidator', () => {
+  it('accepts a well-formed form', () => {
+    expect(FormSchemaValidator.validate(validForm())).toEqual([]);
+    expect(FormSchemaValidator.isValid(validForm())).toBe(true);
+  });
+
+  it('rejects values that are not forms', () => {
+    expect(codes(null)).toEqual(['error:invalid_form:']);
+    expect(codes([])).toEqual(['error:invalid_form:']);
+    expect(codes({ id: 'form-1', name: 'Survey' })).toContain('error:invalid_fields:fields');
+  });
+
+  it('reports missing ids and names as errors and bad dates as warnings', () => {
+    const form = { ...validForm(), id: ' ', name: 3, createdAt: 'soon', updatedAt: 'later' };
+    expect(codes(form)).toEqual([
+      'error:missing_id:id',
+      'error:missing_name:name',
+      'warning:invalid_date:createdAt',
+      'warning:invalid_date:updatedAt',
+    ]);
+    expect(FormSchemaValidator.isValid(form)).toBe(false);
+  });
+
+  it('reports broken fields with their position and id', () => {
+    const form = validForm();
+    form.fields.push(
+      { id: 'name', type: 'text', label: 'Copy' },
+      { id: 'color', type: 'colour', label: 'Color' },
+      { id: 'choice', type: 'select', label: 'Choice', options: [] },
+      'not a field' as unknown as Record<string, unknown>
+    );
+
+    const problems = FormSchemaValidator.validate(form);
+
+    expect(problems.map(problem => `${problem.code}:${problem.path}`)).toEqual([
+      'duplicate_field_id:fields[2].id',
+      'unknown_field_type:fields[3].type',
+      'missing_options:fields[4].options',
+      'invalid_field:fields[5]',
+    ]);
+    expect(problems[1]).toMatchObject({ fieldId: 'color', message: 'Field "Color" has an unknown type "colour"' });
+    expect(FormSchemaValidator.getWarnings(problems).map(problem => problem.code)).toEqual(['missing_options']);
+  });
+
+  it('warns about rules with unusable values or unknown fields', () => {
+    const form = validForm();
+    form.fields[0].validation = [
+      { type: 'minLength', value: -1, message: 'Too short' },
+      { type: 'pattern', value: '(a+)+', message: 'Wrong format' },
+      { type: 'afterField', value: 'missing', message: 'Too early' },
+      { type: 'shout', message: 'Unknown' },
+      { type: 'notEmpty' },
+    ];
+
+    expect(codes(form)).toEqual([
+      'warning:invalid_rule_value:fields[0].validation[0].value',
+      'warning:invalid_rule_value:fields[0].validation[1].value',
+      'warning:invalid_rule_value:fields[0].validation[2].value',
+      'warning:unknown_rule_type:fields[0].validation[3].type',
+      'warning:invalid_validation:fields[0].validation[4].message',
+    ]);
+  });
+
+  it('checks derived fields, visibility conditions and pages', () => {
+    const form = {
+      ...validForm(),
+      pages: [{ id: 'p1', title: 'One' }, { id: 'p1', title: 'Again' }],
+    };
+    form.fields.push(
+      { id: 'total', type: 'number', label: 'Total', derivedFrom: { parentFields: ['total', 'gone'], computationLogic: 'age' } },
+      { id: 'extra', type: 'text', label: 'Extra', visibleWhen: { fieldId: 'age', operator: 'bigger' }, pageId: 'p9' }
+    );
+
+    expect(codes(form)).toEqual([
+      'error:duplicate_page_id:pages[1].id',
+      'error:invalid_derived_config:fields[2].derivedFrom.parentFields[0]',
+      'warning:unknown_parent_field:fields[2].derivedFrom.parentFields[1]',
+      'error:invalid_condition:fields[3].visibleWhen.operator',
+      'warning:unknown_page:fields[3].pageId',
+    ]);
+  });
+
+  it('accepts references to fields defined later in the form', () => {
+    const form = validForm();
+    form.fields.unshift({
+      id: 'greeting',
+      type: 'text',
+      label: 'Greeting',
+      visibleWhen: { fieldId: 'age', operator: 'isNotEmpty' },
+    });
+
+    expect(FormSchemaValidator.validate(form)).toEqual([]);
+  });
+
+  it('only warns about broken cross-field rules', () => {
+    const form = {
+      ...validForm(),
+      crossFieldRules: [
+        { id: 'r1', fieldId: 'age', operator: 'greaterThan', otherFieldId: 'age', message: '' },
+        { id: 'r2', fieldId: 'age', operator: 'between', otherFieldId: 'gone' },
+      ],
+    };
+
+    expect(codes(form)).toEqual([
+      'warning:invalid_cross_field_rule:crossFieldRules[0].otherFieldId',
+      'warning:invalid_cross_field_rule:crossFieldRules[1].operator',
+      'warning:unknown_rule_field:crossFieldRules[1].otherFieldId',
+      'warning:invalid_cross_field_rule:crossFieldRules[1].message',
+    ]);
+    expect(FormSchemaValidator.isValid(form)).toBe(true);
+  });
+});
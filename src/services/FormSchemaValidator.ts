@@ -0,0 +1,423 @@
+import type { ConditionOperator, CrossFieldOperator, FormField, ValidationRule } from '../types';
+import { PatternRuleService } from './PatternRuleService';
+import { DateRuleService } from './DateRuleService';
+
+export type SchemaProblemCode =
+  | 'invalid_form'
+  | 'missing_id'
+  | 'missing_name'
+  | 'invalid_date'
+  | 'invalid_version'
+  | 'invalid_metadata'
+  | 'invalid_pages'
+  | 'duplicate_page_id'
+  | 'invalid_fields'
+  | 'invalid_field'
+  | 'duplicate_field_id'
+  | 'unknown_field_type'
+  | 'missing_label'
+  | 'invalid_required'
+  | 'missing_options'
+  | 'invalid_options'
+  | 'invalid_validation'
+  | 'unknown_rule_type'
+  | 'invalid_rule_value'
+  | 'invalid_derived_config'
+  | 'unknown_parent_field'
+  | 'invalid_condition'
+  | 'unknown_condition_field'
+  | 'unknown_page'
+  | 'invalid_cross_field_rule'
+  | 'unknown_rule_field';
+
+/**
+ * A problem found in a form definition. Errors make the form unusable;
+ * warnings describe settings that are ignored or behave unexpectedly.
+ */
+export interface SchemaProblem {
+  code: SchemaProblemCode;
+  severity: 'error' | 'warning';
+  path: string; // location in the schema, e.g. "fields[2].options"
+  message: string;
+  fieldId?: string;
+}
+
+export const FIELD_TYPES: FormField['type'][] = ['text', 'number', 'textarea', 'select', 'radio', 'checkbox', 'date'];
+
+const CONDITION_OPERATORS: ConditionOperator[] = [
+  'equals', 'notEquals', 'in', 'notIn',
+  'greaterThan', 'greaterThanOrEqual', 'lessThan', 'lessThanOrEqual',
+  'isEmpty', 'isNotEmpty',
+];
+
+const CROSS_FIELD_OPERATORS: CrossFieldOperator[] = [
+  'equals', 'notEquals', 'greaterThan', 'greaterThanOrEqual', 'lessThan', 'lessThanOrEqual',
+];
+
+const isPositiveInteger = (value: unknown): boolean =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isValidPasswordPolicy = (policy: unknown): boolean => {
+  if (!policy || typeof policy !== 'object' || Array.isArray(policy)) {
+    return false;
+  }
+  const { minLength, bannedPasswords, notContainingFieldId, ...flags } = policy as Record<string, unknown>;
+  return (minLength === undefined || (typeof minLength === 'number' && Number.isInteger(minLength) && minLength >= 0)) &&
+    (bannedPasswords === undefined || (Array.isArray(bannedPasswords) && bannedPasswords.every(item => typeof item === 'string'))) &&
+    (notContainingFieldId === undefined || typeof notContainingFieldId === 'string') &&
+    Object.values(flags).every(flag => flag === undefined || typeof flag === 'boolean');
+};
+
+/**
+ * Check the `value` (and other settings) of each rule type; returns a description of the expected value when it is wrong
+ */
+const RULE_VALUE_CHECKS: Record<ValidationRule['type'], (value: unknown, rule: Record<string, unknown>) => string | null> = {
+  notEmpty: () => null,
+  email: () => null,
+  customPassword: (_, rule) => (rule.policy === undefined || isValidPasswordPolicy(rule.policy) ? null : 'a valid password policy'),
+  minLength: value => (isPositiveInteger(value) ? null : 'a positive whole number'),
+  maxLength: value => (isPositiveInteger(value) ? null : 'a positive whole number'),
+  pattern: (value, rule) => {
+    if (typeof value !== 'string' || (rule.flags !== undefined && typeof rule.flags !== 'string')) {
+      return 'a regular expression';
+    }
+    const problem = PatternRuleService.getPatternProblem(value, rule.flags as string | undefined);
+    return problem ? `a usable regular expression (${problem})` : null;
+  },
+  min: value => (isFiniteNumber(value) ? null : 'a number'),
+  max: value => (isFiniteNumber(value) ? null : 'a number'),
+  integer: () => null,
+  step: value => (isFiniteNumber(value) && value > 0 ? null : 'a positive number'),
+  decimalPlaces: value => (isFiniteNumber(value) && Number.isInteger(value) && value >= 0 ? null : 'a whole number of 0 or more'),
+  positive: () => null,
+  negative: () => null,
+  minDate: value => (DateRuleService.isValidBound(value) ? null : 'a date (YYYY-MM-DD) or a date relative to today such as "today-18y"'),
+  maxDate: value => (DateRuleService.isValidBound(value) ? null : 'a date (YYYY-MM-DD) or a date relative to today such as "today-18y"'),
+  noWeekends: () => null,
+  afterField: value => (typeof value === 'string' && value ? null : 'the id of another field'),
+};
+
+type ReportProblem = (
+  code: SchemaProblemCode,
+  severity: SchemaProblem['severity'],
+  subPath: string,
+  message: string
+) => void;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const isValidDate = (value: unknown): boolean =>
+  (typeof value === 'string' || value instanceof Date) && !isNaN(new Date(value).getTime());
+
+const hasOwn = (target: object, key: string): boolean =>
+  Object.prototype.hasOwnProperty.call(target, key);
+
+export class FormSchemaValidator {
+  /**
+   * Check that a value is a well-formed FormSchema. Returns every problem found, empty when valid.
+   */
+  static validate(value: unknown): SchemaProblem[] {
+    const problems: SchemaProblem[] = [];
+    const add = (problem: SchemaProblem) => problems.push(problem);
+
+    if (!isObject(value)) {
+      add({ code: 'invalid_form', severity: 'error', path: '', message: 'Form is not an object' });
+      return problems;
+    }
+
+    if (typeof value.id !== 'string' || !value.id.trim()) {
+      add({ code: 'missing_id', severity: 'error', path: 'id', message: 'Missing form id' });
+    }
+    if (typeof value.name !== 'string') {
+      add({ code: 'missing_name', severity: 'error', path: 'name', message: 'Missing form name' });
+    }
+    if (!isValidDate(value.createdAt)) {
+      add({ code: 'invalid_date', severity: 'warning', path: 'createdAt', message: 'Missing or invalid creation date' });
+    }
+    if (value.updatedAt !== undefined && !isValidDate(value.updatedAt)) {
+      add({ code: 'invalid_date', severity: 'warning', path: 'updatedAt', message: 'Invalid last-updated date' });
+    }
+    if (value.version !== undefined && !isPositiveInteger(value.version)) {
+      add({ code: 'invalid_version', severity: 'warning', path: 'version', message: 'Version must be a positive whole number' });
+    }
+
+    if (value.folder !== undefined && typeof value.folder !== 'string') {
+      add({ code: 'invalid_metadata', severity: 'warning', path: 'folder', message: 'Folder must be text' });
+    }
+    if (value.tags !== undefined && (!Array.isArray(value.tags) || value.tags.some(tag => typeof tag !== 'string'))) {
+      add({ code: 'invalid_metadata', severity: 'warning', path: 'tags', message: 'Tags must be a list of text values' });
+    }
+
+    const pageIds = this.validatePages(value.pages, add);
+
+    if (!Array.isArray(value.fields)) {
+      add({ code: 'invalid_fields', severity: 'error', path: 'fields', message: 'Missing field list' });
+      return problems;
+    }
+
+    // Collect ids first so references to later fields are not reported as unknown
+    const fieldIds = new Set(
+      value.fields
+        .filter(isObject)
+        .map(field => field.id)
+        .filter((id): id is string => typeof id === 'string' && id !== '')
+    );
+    const seenIds = new Set<string>();
+
+    value.fields.forEach((field, index) => {
+      this.validateField(field, `fields[${index}]`, index, { fieldIds, seenIds, pageIds }, add);
+    });
+
+    this.validateCrossFieldRules(value.crossFieldRules, fieldIds, add);
+
+    return problems;
+  }
+
+  /**
+   * Whether the value has no error-level problems
+   */
+  static isValid(value: unknown): boolean {
+    return !this.validate(value).some(problem => problem.severity === 'error');
+  }
+
+  static getErrors(problems: SchemaProblem[]): SchemaProblem[] {
+    return problems.filter(problem => problem.severity === 'error');
+  }
+
+  static getWarnings(problems: SchemaProblem[]): SchemaProblem[] {
+    return problems.filter(problem => problem.severity === 'warning');
+  }
+
+  /**
+   * Validate the page list and return the ids of the pages it defines, or null when the form has no pages
+   */
+  private static validatePages(pages: unknown, add: (problem: SchemaProblem) => void): Set<string> | null {
+    if (pages === undefined) {
+      return null;
+    }
+    if (!Array.isArray(pages)) {
+      add({ code: 'invalid_pages', severity: 'error', path: 'pages', message: 'Pages must be a list' });
+      return null;
+    }
+
+    const pageIds = new Set<string>();
+    pages.forEach((page, index) => {
+      const path = `pages[${index}]`;
+      if (!isObject(page) || typeof page.id !== 'string' || !page.id || typeof page.title !== 'string') {
+        add({ code: 'invalid_pages', severity: 'error', path, message: `Page ${index + 1} needs an id and a title` });
+        return;
+      }
+      if (pageIds.has(page.id)) {
+        add({ code: 'duplicate_page_id', severity: 'error', path: `${path}.id`, message: `Page ${index + 1} repeats the id "${page.id}"` });
+      }
+      pageIds.add(page.id);
+    });
+    return pageIds;
+  }
+
+  /**
+   * Broken cross-field rules are skipped when validating responses, so they are only warnings
+   */
+  private static validateCrossFieldRules(
+    rules: unknown,
+    fieldIds: Set<string>,
+    add: (problem: SchemaProblem) => void
+  ): void {
+    if (rules === undefined) {
+      return;
+    }
+    if (!Array.isArray(rules)) {
+      add({ code: 'invalid_cross_field_rule', severity: 'warning', path: 'crossFieldRules', message: 'Cross-field rules must be a list' });
+      return;
+    }
+
+    rules.forEach((rule, index) => {
+      const path = `crossFieldRules[${index}]`;
+      const name = `Cross-field rule ${index + 1}`;
+      if (!isObject(rule)) {
+        add({ code: 'invalid_cross_field_rule', severity: 'warning', path, message: `${name} is not an object` });
+        return;
+      }
+
+      const fieldId = typeof rule.fieldId === 'string' ? rule.fieldId : undefined;
+      if (!CROSS_FIELD_OPERATORS.includes(rule.operator as CrossFieldOperator)) {
+        add({ code: 'invalid_cross_field_rule', severity: 'warning', path: `${path}.operator`, message: `${name} has an unknown operator "${String(rule.operator)}"`, fieldId });
+      }
+      (['fieldId', 'otherFieldId'] as const).forEach(key => {
+        if (typeof rule[key] !== 'string' || !fieldIds.has(rule[key])) {
+          add({ code: 'unknown_rule_field', severity: 'warning', path: `${path}.${key}`, message: `${name} refers to a field that does not exist ("${String(rule[key])}")`, fieldId });
+        }
+      });
+      if (rule.fieldId === rule.otherFieldId) {
+        add({ code: 'invalid_cross_field_rule', severity: 'warning', path: `${path}.otherFieldId`, message: `${name} compares a field with itself`, fieldId });
+      }
+      if (typeof rule.message !== 'string') {
+        add({ code: 'invalid_cross_field_rule', severity: 'warning', path: `${path}.message`, message: `${name} has no message`, fieldId });
+      }
+    });
+  }
+
+  private static validateField(
+    field: unknown,
+    path: string,
+    index: number,
+    context: { fieldIds: Set<string>; seenIds: Set<string>; pageIds: Set<string> | null },
+    add: (problem: SchemaProblem) => void
+  ): void {
+    if (!isObject(field)) {
+      add({ code: 'invalid_field', severity: 'error', path, message: `Field ${index + 1} is not an object` });
+      return;
+    }
+
+    const fieldId = typeof field.id === 'string' && field.id ? field.id : undefined;
+    const name = typeof field.label === 'string' && field.label.trim()
+      ? `Field "${field.label}"`
+      : `Field ${index + 1}`;
+    const report: ReportProblem = (code, severity, subPath, message) =>
+      add({ code, severity, path: subPath ? `${path}.${subPath}` : path, message: `${name} ${message}`, fieldId });
+
+    if (!fieldId) {
+      report('missing_id', 'error', 'id', 'has no id');
+    } else if (context.seenIds.has(fieldId)) {
+      report('duplicate_field_id', 'error', 'id', `repeats the id "${fieldId}"`);
+    } else {
+      context.seenIds.add(fieldId);
+    }
+
+    const type = field.type as FormField['type'];
+    if (!FIELD_TYPES.includes(type)) {
+      report('unknown_field_type', 'error', 'type', `has an unknown type "${String(field.type)}"`);
+    }
+    if (typeof field.label !== 'string') {
+      report('missing_label', 'error', 'label', 'has no label');
+    }
+    if (field.required !== undefined && typeof field.required !== 'boolean') {
+      report('invalid_required', 'warning', 'required', 'has a non-boolean "required" setting');
+    }
+
+    if (field.options !== undefined) {
+      if (!Array.isArray(field.options) || field.options.some(option => typeof option !== 'string')) {
+        report('invalid_options', 'error', 'options', 'options must be a list of text values');
+      } else if (new Set(field.options).size !== field.options.length) {
+        report('invalid_options', 'warning', 'options', 'has duplicate options');
+      }
+    }
+    if ((type === 'select' || type === 'radio') && (!Array.isArray(field.options) || field.options.length === 0)) {
+      report('missing_options', 'warning', 'options', 'needs at least one option');
+    }
+
+    this.validateRules(field.validation, fieldId, context.fieldIds, report);
+
+    if (field.derivedFrom !== undefined) {
+      this.validateDerivedConfig(field.derivedFrom, fieldId, context.fieldIds, report);
+    }
+
+    if (field.visibleWhen !== undefined) {
+      this.validateCondition(field.visibleWhen, 'visibleWhen', fieldId, context.fieldIds, report);
+    }
+
+    if (field.pageId !== undefined && context.pageIds && !context.pageIds.has(String(field.pageId))) {
+      report('unknown_page', 'warning', 'pageId', `is on a page that does not exist ("${String(field.pageId)}")`);
+    }
+  }
+
+  private static validateRules(
+    rules: unknown,
+    fieldId: string | undefined,
+    fieldIds: Set<string>,
+    report: ReportProblem
+  ): void {
+    if (rules === undefined) {
+      return;
+    }
+    if (!Array.isArray(rules)) {
+      report('invalid_validation', 'error', 'validation', 'validation rules must be a list');
+      return;
+    }
+
+    rules.forEach((rule, ruleIndex) => {
+      const rulePath = `validation[${ruleIndex}]`;
+      if (!isObject(rule)) {
+        report('invalid_validation', 'error', rulePath, `validation rule ${ruleIndex + 1} is not an object`);
+        return;
+      }
+      const ruleType = String(rule.type);
+      if (!hasOwn(RULE_VALUE_CHECKS, ruleType)) {
+        report('unknown_rule_type', 'warning', `${rulePath}.type`, `has an unknown validation rule "${ruleType}"`);
+        return;
+      }
+      const expected = RULE_VALUE_CHECKS[ruleType as ValidationRule['type']](rule.value, rule);
+      if (expected) {
+        report('invalid_rule_value', 'warning', `${rulePath}.value`, `"${ruleType}" rule value must be ${expected}`);
+      } else if (ruleType === 'afterField' && (rule.value === fieldId || !fieldIds.has(String(rule.value)))) {
+        report('invalid_rule_value', 'warning', `${rulePath}.value`, `"afterField" rule refers to a field that does not exist ("${String(rule.value)}")`);
+      } else if (ruleType === 'customPassword' && isObject(rule.policy) && rule.policy.notContainingFieldId !== undefined) {
+        const otherId = String(rule.policy.notContainingFieldId);
+        if (otherId === fieldId || !fieldIds.has(otherId)) {
+          report('invalid_rule_value', 'warning', `${rulePath}.policy.notContainingFieldId`, `"customPassword" rule refers to a field that does not exist ("${otherId}")`);
+        }
+      }
+      if (typeof rule.message !== 'string') {
+        report('invalid_validation', 'warning', `${rulePath}.message`, `"${ruleType}" rule has no message`);
+      }
+    });
+  }
+
+  private static validateDerivedConfig(
+    config: unknown,
+    fieldId: string | undefined,
+    fieldIds: Set<string>,
+    report: ReportProblem
+  ): void {
+    if (!isObject(config) || !Array.isArray(config.parentFields) || typeof config.computationLogic !== 'string') {
+      report('invalid_derived_config', 'error', 'derivedFrom', 'has an invalid derived field configuration');
+      return;
+    }
+
+    config.parentFields.forEach((parentId, parentIndex) => {
+      const parentPath = `derivedFrom.parentFields[${parentIndex}]`;
+      if (parentId === fieldId) {
+        report('invalid_derived_config', 'error', parentPath, 'is derived from itself');
+      } else if (typeof parentId !== 'string' || !fieldIds.has(parentId)) {
+        report('unknown_parent_field', 'warning', parentPath, `is derived from a field that does not exist ("${String(parentId)}")`);
+      }
+    });
+  }
+
+  private static validateCondition(
+    node: unknown,
+    nodePath: string,
+    fieldId: string | undefined,
+    fieldIds: Set<string>,
+    report: ReportProblem
+  ): void {
+    if (!isObject(node)) {
+      report('invalid_condition', 'error', nodePath, 'has an invalid visibility condition');
+      return;
+    }
+
+    if ('combinator' in node) {
+      if ((node.combinator !== 'and' && node.combinator !== 'or') || !Array.isArray(node.conditions)) {
+        report('invalid_condition', 'error', nodePath, 'has an invalid visibility condition group');
+        return;
+      }
+      node.conditions.forEach((child, childIndex) => {
+        this.validateCondition(child, `${nodePath}.conditions[${childIndex}]`, fieldId, fieldIds, report);
+      });
+      return;
+    }
+
+    if (!CONDITION_OPERATORS.includes(node.operator as ConditionOperator)) {
+      report('invalid_condition', 'error', `${nodePath}.operator`, `has an unknown condition operator "${String(node.operator)}"`);
+    }
+    if (node.fieldId === fieldId) {
+      report('invalid_condition', 'warning', `${nodePath}.fieldId`, 'has a visibility condition on itself');
+    } else if (typeof node.fieldId !== 'string' || !fieldIds.has(node.fieldId)) {
+      report('unknown_condition_field', 'warning', `${nodePath}.fieldId`, `has a visibility condition on a field that does not exist ("${String(node.fieldId)}")`);
+    }
+  }
+}
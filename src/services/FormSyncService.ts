@@ -0,0 +1,169 @@
+import type { FormSchema, TrashedForm } from '../types';
+import type { FormRepository } from './FormRepository';
+import type { RecoveryReport } from './StorageRecoveryService';
+import { LocalStorageService } from './LocalStorageService';
+
+/**
+ * A change to saved forms made in another tab. `formId` is absent when only
+ * "something changed" is known (the storage-event fallback).
+ */
+export interface FormChange {
+  type: 'saved' | 'deleted' | 'cleared' | 'changed';
+  formId?: string;
+  version?: number;
+}
+
+export type FormChangeListener = (change: FormChange) => void;
+
+const CHANNEL_NAME = 'dynamic-form-builder-sync';
+
+export class FormSyncService {
+  private static channel: BroadcastChannel | null = null;
+  private static listeners = new Set<FormChangeListener>();
+  private static storageListener: ((event: StorageEvent) => void) | null = null;
+
+  /**
+   * Check if BroadcastChannel exists in this environment
+   */
+  static isBroadcastAvailable(): boolean {
+    return typeof BroadcastChannel !== 'undefined';
+  }
+
+  /**
+   * Tell other tabs that saved forms changed. Messages are not delivered back to this tab.
+   */
+  static notify(change: FormChange): void {
+    try {
+      this.getChannel()?.postMessage(change);
+    } catch (error) {
+      console.error('Error broadcasting form change:', error);
+    }
+  }
+
+  /**
+   * Listen for changes made in other tabs. Returns a function that removes the listener.
+   * Uses BroadcastChannel where available; otherwise falls back to storage events,
+   * which only fire for the localStorage backend.
+   */
+  static subscribe(listener: FormChangeListener): () => void {
+    this.listeners.add(listener);
+    this.connect();
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        this.disconnect();
+      }
+    };
+  }
+
+  private static getChannel(): BroadcastChannel | null {
+    if (!this.channel && this.isBroadcastAvailable()) {
+      this.channel = new BroadcastChannel(CHANNEL_NAME);
+    }
+    return this.channel;
+  }
+
+  private static emit(change: FormChange): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(change);
+      } catch (error) {
+        console.error('Error handling form change:', error);
+      }
+    });
+  }
+
+  private static connect(): void {
+    const channel = this.getChannel();
+    if (channel) {
+      channel.onmessage = (event: MessageEvent<FormChange>) => this.emit(event.data);
+      return;
+    }
+
+    if (!this.storageListener && typeof window !== 'undefined') {
+      this.storageListener = (event: StorageEvent) => {
+        // key is null when another tab cleared all of localStorage
+        if (event.key === LocalStorageService.STORAGE_KEY || event.key === null) {
+          this.emit({ type: 'changed' });
+        }
+      };
+      window.addEventListener('storage', this.storageListener);
+    }
+  }
+
+  private static disconnect(): void {
+    if (this.channel) {
+      this.channel.onmessage = null;
+    }
+    if (this.storageListener) {
+      window.removeEventListener('storage', this.storageListener);
+      this.storageListener = null;
+    }
+  }
+}
+
+/**
+ * FormRepository wrapper that tells other tabs about every successful write
+ */
+export class SyncedFormRepository implements FormRepository {
+  private repository: FormRepository;
+
+  constructor(repository: FormRepository) {
+    this.repository = repository;
+  }
+
+  get backend() {
+    return this.repository.backend;
+  }
+
+  getForms(): Promise<FormSchema[]> {
+    return this.repository.getForms();
+  }
+
+  getForm(id: string): Promise<FormSchema | null> {
+    return this.repository.getForm(id);
+  }
+
+  async saveForm(schema: FormSchema): Promise<void> {
+    await this.repository.saveForm(schema);
+    FormSyncService.notify({ type: 'saved', formId: schema.id, version: schema.version });
+  }
+
+  async deleteForm(id: string): Promise<void> {
+    await this.repository.deleteForm(id);
+    FormSyncService.notify({ type: 'deleted', formId: id });
+  }
+
+  async clearAllForms(): Promise<void> {
+    await this.repository.clearAllForms();
+    FormSyncService.notify({ type: 'cleared' });
+  }
+
+  getTrashedForms(): Promise<TrashedForm[]> {
+    return this.repository.getTrashedForms();
+  }
+
+  saveTrashedForm(item: TrashedForm): Promise<void> {
+    return this.repository.saveTrashedForm(item);
+  }
+
+  deleteTrashedForms(ids: string[]): Promise<void> {
+    return this.repository.deleteTrashedForms(ids);
+  }
+
+  async recoverForms(): Promise<RecoveryReport> {
+    const report = await this.repository.recoverForms();
+    FormSyncService.notify({ type: 'changed' });
+    return report;
+  }
+
+  async resetForms(): Promise<void> {
+    await this.repository.resetForms();
+    FormSyncService.notify({ type: 'cleared' });
+  }
+
+  getRawData(): Promise<string | null> {
+    return this.repository.getRawData();
+  }
+}
@@ -0,0 +1,130 @@
+import type { FormSchema } from '../types';
+import { FormTrashService, TRASH_RETENTION_DAYS } from './FormTrashService';
+import { LocalStorageFormRepository } from './LocalStorageFormRepository';
+import { SubmissionStorageService } from './SubmissionStorageService';
+import { DraftStorageService } from './DraftStorageService';
+import { TrashStorageService } from './TrashStorageService';
+
+const createForm = (id: string, name = 'Survey'): FormSchema => ({
+  id,
+  name,
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  fields: [{ id: 'name', type: 'text', label: 'Name', required: false }],
+});
+
+describe('FormTrashService', () => {
+  let repository: LocalStorageFormRepository;
+
+  beforeEach(() => {
+    localStorage.clear();
+    repository = new LocalStorageFormRepository();
+  });
+
+  it('moves forms to the trash and restores them', async () => {
+    const form = createForm('form-1');
+    await repository.saveForm(form);
+
+    const [item] = await FormTrashService.trashForms([form], repository);
+    expect(await repository.getForms()).toEqual([]);
+    expect((await FormTrashService.getTrashedForms(repository)).map(trashed => trashed.form.id)).toEqual(['form-1']);
+
+    const restored = await FormTrashService.restoreForms([item.id], repository);
+    expect(restored.map(f => f.id)).toEqual(['form-1']);
+    expect(await FormTrashService.getTrashedForms(repository)).toEqual([]);
+  });
+
+  it('keeps every trashed copy of a form id', async () => {
+    const original = createForm('form-1', 'Original');
+    await repository.saveForm(original);
+    const [first] = await FormTrashService.trashForms([original], repository);
+
+    // e.g. the same form imported again and deleted as well
+    const reimported = createForm('form-1', 'Reimported');
+    await repository.saveForm(reimported);
+    const [second] = await FormTrashService.trashForms([reimported], repository);
+
+    expect(first.id).not.toBe(second.id);
+    expect((await FormTrashService.getTrashedForms(repository)).map(item => item.form.name).sort())
+      .toEqual(['Original', 'Reimported']);
+
+    const restored = await FormTrashService.restoreForms([first.id, second.id], repository);
+    expect(restored.map(form => form.name).sort()).toEqual(['Original', 'Reimported']);
+    expect(new Set(restored.map(form => form.id)).size).toBe(2);
+    expect(await repository.getForms()).toHaveLength(2);
+  });
+
+  it('purges responses and drafts of purged forms', async () => {
+    const form = createForm('form-1');
+    await repository.saveForm(form);
+    SubmissionStorageService.saveSubmission('form-1', { name: 'Ada' });
+    DraftStorageService.saveDraft(form, false);
+
+    const [item] = await FormTrashService.trashForms([form], repository);
+    await FormTrashService.purgeForms([item.id], repository);
+
+    expect(await FormTrashService.getTrashedForms(repository)).toEqual([]);
+    expect(SubmissionStorageService.getSubmissions('form-1')).toEqual([]);
+    expect(DraftStorageService.getDraft('form-1')).toBeNull();
+  });
+
+  it('keeps responses and drafts when a saved form uses the purged id again', async () => {
+    const form = createForm('form-1');
+    await repository.saveForm(form);
+    const [item] = await FormTrashService.trashForms([form], repository);
+
+    // e.g. the same form imported again while the old copy is in the trash
+    const reused = createForm('form-1', 'Imported survey');
+    await repository.saveForm(reused);
+    SubmissionStorageService.saveSubmission('form-1', { name: 'Ada' });
+    DraftStorageService.saveDraft(reused, false);
+
+    await FormTrashService.purgeForms([item.id], repository);
+
+    expect(await FormTrashService.getTrashedForms(repository)).toEqual([]);
+    expect(SubmissionStorageService.getSubmissions('form-1')).toHaveLength(1);
+    expect(DraftStorageService.getDraft('form-1')).not.toBeNull();
+  });
+
+  it('keeps responses while another trash entry has the purged form id', async () => {
+    const form = createForm('form-1');
+    await repository.saveForm(form);
+    SubmissionStorageService.saveSubmission('form-1', { name: 'Ada' });
+    const [first] = await FormTrashService.trashForms([form], repository);
+    await repository.saveForm(form);
+    await FormTrashService.trashForms([form], repository);
+
+    await FormTrashService.purgeForms([first.id], repository);
+
+    expect(await FormTrashService.getTrashedForms(repository)).toHaveLength(1);
+    expect(SubmissionStorageService.getSubmissions('form-1')).toHaveLength(1);
+  });
+
+  it('only purges forms past the retention period', async () => {
+    const forms = [createForm('form-1'), createForm('form-2')];
+    await Promise.all(forms.map(form => repository.saveForm(form)));
+    const [expired] = await FormTrashService.trashForms(forms, repository);
+
+    await repository.saveTrashedForm({
+      ...expired,
+      deletedAt: new Date(expired.deletedAt.getTime() - (TRASH_RETENTION_DAYS + 1) * 24 * 60 * 60 * 1000),
+    });
+
+    expect(await FormTrashService.purgeExpired(repository)).toBe(1);
+    expect((await FormTrashService.getTrashedForms(repository)).map(item => item.form.id)).toEqual(['form-2']);
+  });
+
+  it('reads trash entries stored by form id before they had their own id', async () => {
+    const form = createForm('form-1');
+    localStorage.setItem(TrashStorageService.STORAGE_KEY, JSON.stringify({
+      trash: { 'form-1': { form, deletedAt: '2024-02-01T00:00:00.000Z' } },
+    }));
+
+    const [item] = await FormTrashService.getTrashedForms(repository);
+    expect(item.id).toBe('form-1');
+    expect(item.deletedAt).toEqual(new Date('2024-02-01T00:00:00.000Z'));
+
+    await FormTrashService.restoreForms([item.id], repository);
+    expect((await repository.getForms()).map(restored => restored.id)).toEqual(['form-1']);
+    expect(await FormTrashService.getTrashedForms(repository)).toEqual([]);
+  });
+});
@@ -0,0 +1,120 @@
+import type { FormSchema, TrashedForm } from '../types';
+import type { FormRepository } from './FormRepository';
+import { SubmissionStorageService } from './SubmissionStorageService';
+import { DraftStorageService } from './DraftStorageService';
+import { FormCloneService } from './FormCloneService';
+import { FormSyncService } from './FormSyncService';
+
+// Forms are purged automatically after this many days in the trash
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Soft delete for forms. Deleting moves a form out of the repository into the trash, which the
+ * repository stores alongside the forms, where it can be restored or purged; responses and
+ * drafts are only removed when the form is purged.
+ */
+export class FormTrashService {
+  /**
+   * Retrieve all trashed forms, most recently deleted first
+   */
+  static async getTrashedForms(repository: FormRepository): Promise<TrashedForm[]> {
+    const items = await repository.getTrashedForms();
+    return [...items].sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+  }
+
+  /**
+   * When a trashed form will be purged automatically
+   */
+  static getExpiryDate(item: TrashedForm): Date {
+    return new Date(item.deletedAt.getTime() + TRASH_RETENTION_DAYS * DAY_MS);
+  }
+
+  /**
+   * Move forms to the trash and remove them from the repository, returning the new trash
+   * entries. A form only stays in the trash once it has been deleted, so a failed delete
+   * leaves it where it was.
+   */
+  static async trashForms(forms: FormSchema[], repository: FormRepository): Promise<TrashedForm[]> {
+    const trashed: TrashedForm[] = [];
+    for (const form of forms) {
+      const item: TrashedForm = {
+        id: `trash-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        form,
+        deletedAt: new Date(),
+      };
+      await repository.saveTrashedForm(item);
+
+      try {
+        await repository.deleteForm(form.id);
+      } catch (error) {
+        await repository.deleteTrashedForms([item.id]);
+        throw error;
+      }
+      trashed.push(item);
+    }
+    return trashed;
+  }
+
+  /**
+   * Save trashed forms back to the repository and take them out of the trash, by trash entry id.
+   * A form whose id has been reused in the meantime is restored as a copy with new ids.
+   */
+  static async restoreForms(ids: string[], repository: FormRepository): Promise<FormSchema[]> {
+    const items = (await this.getTrashedForms(repository)).filter(item => ids.includes(item.id));
+    const existingIds = new Set((await repository.getForms()).map(form => form.id));
+    const restored: FormSchema[] = [];
+
+    for (const item of items) {
+      const form = existingIds.has(item.form.id)
+        ? FormCloneService.duplicate(item.form, item.form.name)
+        : item.form;
+      await repository.saveForm(form);
+      await repository.deleteTrashedForms([item.id]);
+      existingIds.add(form.id);
+      restored.push(form);
+    }
+
+    return restored;
+  }
+
+  /**
+   * Permanently delete trash entries together with the responses and drafts of their forms.
+   * Responses and drafts stay while a saved form or another trash entry uses the same form id,
+   * e.g. one imported since.
+   */
+  static async purgeForms(ids: string[], repository: FormRepository): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+
+    const items = await repository.getTrashedForms();
+    const keptIds = new Set([
+      ...(await repository.getForms()).map(form => form.id),
+      ...items.filter(item => !ids.includes(item.id)).map(item => item.form.id),
+    ]);
+    const purgedIds = new Set(items.filter(item => ids.includes(item.id)).map(item => item.form.id));
+
+    await repository.deleteTrashedForms(ids);
+    [...purgedIds]
+      .filter(formId => !keptIds.has(formId))
+      .forEach(formId => {
+        SubmissionStorageService.clearSubmissions(formId);
+        DraftStorageService.deleteDraft(formId);
+      });
+    FormSyncService.notify({ type: 'changed' });
+  }
+
+  /**
+   * Purge forms that have been in the trash longer than TRASH_RETENTION_DAYS.
+   * Returns the number of forms purged.
+   */
+  static async purgeExpired(repository: FormRepository, now: Date = new Date()): Promise<number> {
+    const expiredIds = (await this.getTrashedForms(repository))
+      .filter(item => this.getExpiryDate(item).getTime() <= now.getTime())
+      .map(item => item.id);
+    await this.purgeForms(expiredIds, repository);
+    return expiredIds.length;
+  }
+}
@@ -0,0 +1,445 @@
+import type { FormSchema, TrashedForm } from '../types';
+import type { FormRepository } from './FormRepository';
+import { LocalStorageService, type LocalStorageError } from './LocalStorageService';
+import { FormSchemaValidator } from './FormSchemaValidator';
+import { StorageMigrationService } from './StorageMigrationService';
+import {
+  StorageRecoveryService,
+  MAX_QUARANTINE_RECORDS,
+  type LostFormEntry,
+  type QuarantineRecord,
+  type RecoveryReport,
+} from './StorageRecoveryService';
+import { TrashStorageService } from './TrashStorageService';
+
+const DB_NAME = 'dynamic-form-builder';
+const DB_VERSION = 5;
+const FORMS_STORE = 'forms';
+const META_STORE = 'meta';
+const QUARANTINE_STORE = 'quarantine';
+const TRASH_STORE = 'trash';
+const STORAGE_VERSION_KEY = 'storageVersion';
+// Databases created before the storage version was recorded carry none
+const LEGACY_VERSION = '1.0';
+// Set once forms saved by the localStorage backend have been copied into IndexedDB
+const MIGRATION_MARKER_KEY = 'dynamic-form-builder-indexeddb-migrated';
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+  });
+
+/**
+ * FormRepository backed by IndexedDB, which is not limited to localStorage's ~5MB
+ */
+export class IndexedDBFormRepository implements FormRepository {
+  static readonly QUARANTINE_NAME = `${DB_NAME}/${QUARANTINE_STORE}`;
+  readonly backend = 'indexedDB' as const;
+  private db: IDBDatabase;
+  private migration: Promise<void> | null = null;
+
+  private constructor(db: IDBDatabase) {
+    this.db = db;
+  }
+
+  /**
+   * Check if IndexedDB exists in this environment
+   */
+  static isAvailable(): boolean {
+    try {
+      return typeof indexedDB !== 'undefined' && indexedDB !== null;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Open (and create or upgrade if needed) the database
+   */
+  static async open(): Promise<IndexedDBFormRepository> {
+    if (!this.isAvailable()) {
+      throw IndexedDBFormRepository.toStorageError(new Error('IndexedDB is not available'));
+    }
+
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(FORMS_STORE)) {
+          db.createObjectStore(FORMS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          const meta = db.createObjectStore(META_STORE);
+          // A new database starts out at the current version; an existing one is migrated on load
+          if (event.oldVersion === 0) {
+            meta.put(StorageMigrationService.getCurrentVersion(), STORAGE_VERSION_KEY);
+          }
+        }
+        if (!db.objectStoreNames.contains(QUARANTINE_STORE)) {
+          db.createObjectStore(QUARANTINE_STORE, { autoIncrement: true });
+        }
+        if (!db.objectStoreNames.contains(TRASH_STORE)) {
+          db.createObjectStore(TRASH_STORE, { keyPath: 'id' });
+        } else if (event.oldVersion < 5) {
+          // The trash was keyed by form id before its entries had their own id
+          const entries = request.transaction!.objectStore(TRASH_STORE).getAll();
+          entries.onsuccess = () => {
+            db.deleteObjectStore(TRASH_STORE);
+            const trash = db.createObjectStore(TRASH_STORE, { keyPath: 'id' });
+            (entries.result as TrashedForm[]).forEach(item => trash.put({ ...item, id: item.id || item.form.id }));
+          };
+        }
+      };
+      const db = await new Promise<IDBDatabase>((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+        // Another tab still has the previous version open; rather than wait for it, let the
+        // caller fall back, and close the database should it open after all
+        request.onblocked = () => {
+          request.onsuccess = () => request.result.close();
+          reject(new Error('IndexedDB is not available while another tab uses an older version of the app'));
+        };
+      });
+      // Let a newer version of the app open in another tab upgrade the database
+      db.onversionchange = () => db.close();
+      return new IndexedDBFormRepository(db);
+    } catch (error) {
+      throw IndexedDBFormRepository.toStorageError(error);
+    }
+  }
+
+  /**
+   * Wrap any thrown error into a LocalStorageError
+   */
+  private static toStorageError(error: unknown): LocalStorageError {
+    const original = error instanceof Error || error instanceof DOMException
+      ? error
+      : new Error(String(error));
+    const type: LocalStorageError['type'] = original.name === 'QuotaExceededError'
+      ? 'quota_exceeded'
+      : original.name === 'InvalidStateError'
+        ? 'unavailable'
+        : LocalStorageService.getErrorType(original.message);
+
+    return {
+      type,
+      message: type === 'quota_exceeded' ? 'Storage quota exceeded' : original.message,
+      originalError: original,
+    };
+  }
+
+  private async run<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>,
+    storeName: string = FORMS_STORE
+  ): Promise<T> {
+    try {
+      const transaction = this.db.transaction(storeName, mode);
+      const [result] = await Promise.all([
+        requestToPromise(operation(transaction.objectStore(storeName))),
+        transactionDone(transaction),
+      ]);
+      return result;
+    } catch (error) {
+      throw IndexedDBFormRepository.toStorageError(error);
+    }
+  }
+
+  /**
+   * Upgrade forms stored by an older version and copy over forms and trash of the localStorage
+   * backend, once per session
+   */
+  private ensureMigrated(): Promise<void> {
+    if (!this.migration) {
+      this.migration = this.migrateStoredForms()
+        .then(() => this.migrateFromLocalStorage())
+        .then(() => this.migrateTrashFromLocalStorage())
+        .catch(error => {
+          this.migration = null; // try again on the next load
+          throw error;
+        });
+    }
+    return this.migration;
+  }
+
+  /**
+   * Forms and the new version are written in one transaction, so a failed upgrade leaves the
+   * stored data as it was
+   */
+  private async migrateStoredForms(): Promise<void> {
+    const storedVersion = await this.run(
+      'readonly',
+      store => store.get(STORAGE_VERSION_KEY) as IDBRequest<string | undefined>,
+      META_STORE
+    ) || LEGACY_VERSION;
+    if (!StorageMigrationService.needsMigration(storedVersion)) {
+      return;
+    }
+
+    const forms = await this.run('readonly', store => store.getAll() as IDBRequest<Record<string, unknown>[]>);
+    try {
+      const result = StorageMigrationService.migrate(
+        { forms: Object.fromEntries(forms.map(form => [String(form.id), form])) },
+        storedVersion
+      );
+      const transaction = this.db.transaction([FORMS_STORE, META_STORE], 'readwrite');
+      const formsStore = transaction.objectStore(FORMS_STORE);
+      Object.values(result.data.forms).forEach(form => formsStore.put(form));
+      transaction.objectStore(META_STORE).put(result.version, STORAGE_VERSION_KEY);
+      await transactionDone(transaction);
+    } catch (error) {
+      throw IndexedDBFormRepository.toStorageError(error);
+    }
+  }
+
+  private static isLegacyImportPending(): boolean {
+    return LocalStorageService.isLocalStorageAvailable() && !localStorage.getItem(MIGRATION_MARKER_KEY);
+  }
+
+  /**
+   * Copy forms saved by the localStorage backend into an empty database the first time it is
+   * used, so switching backends does not hide existing forms. Forms that cannot be read are
+   * reported as corrupted data, so they can be recovered instead of being left behind.
+   */
+  private async migrateFromLocalStorage(): Promise<void> {
+    if (!IndexedDBFormRepository.isLegacyImportPending()) {
+      return;
+    }
+
+    if ((await this.run('readonly', store => store.count())) === 0) {
+      let forms: FormSchema[];
+      try {
+        forms = LocalStorageService.getForms();
+      } catch (error) {
+        const reason = (error as LocalStorageError).message;
+        const message = `Corrupted data in localStorage: forms saved before switching to IndexedDB could not be copied (${reason})`;
+        const storageError: LocalStorageError = {
+          type: 'corrupted_data',
+          message,
+          originalError: new Error(message),
+        };
+        throw storageError;
+      }
+      if (forms.length > 0) {
+        await this.saveForms(forms);
+      }
+    }
+    localStorage.setItem(MIGRATION_MARKER_KEY, new Date().toISOString());
+  }
+
+  /**
+   * Move forms trashed while the trash was kept in localStorage into the trash store. A trash
+   * that cannot be moved must not keep the saved forms from loading, so it is left in place.
+   */
+  private async migrateTrashFromLocalStorage(): Promise<void> {
+    if (!LocalStorageService.isLocalStorageAvailable() || !localStorage.getItem(TrashStorageService.STORAGE_KEY)) {
+      return;
+    }
+
+    try {
+      const items = TrashStorageService.getTrashedForms();
+      const transaction = this.db.transaction(TRASH_STORE, 'readwrite');
+      const store = transaction.objectStore(TRASH_STORE);
+      items.forEach(item => store.put(item));
+      await transactionDone(transaction);
+      TrashStorageService.clearTrash();
+    } catch (error) {
+      console.error('Error moving the trash from localStorage:', error);
+    }
+  }
+
+  /**
+   * Fail like a corrupted localStorage blob when stored records are not valid forms
+   */
+  private static assertValidForms(forms: unknown[]): void {
+    const invalidIds = forms
+      .filter(form => !FormSchemaValidator.isValid(form))
+      .map(form => String((form as { id?: unknown }).id));
+    if (invalidIds.length > 0) {
+      throw IndexedDBFormRepository.toStorageError(
+        new Error(`Corrupted data in IndexedDB: invalid form definition (${invalidIds.join(', ')})`)
+      );
+    }
+  }
+
+  async getForms(): Promise<FormSchema[]> {
+    await this.ensureMigrated();
+    const forms = await this.run('readonly', store => store.getAll() as IDBRequest<FormSchema[]>);
+    IndexedDBFormRepository.assertValidForms(forms);
+    return forms.sort((a, b) =>
+      new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    );
+  }
+
+  async getForm(id: string): Promise<FormSchema | null> {
+    await this.ensureMigrated();
+    const form = await this.run('readonly', store => store.get(id) as IDBRequest<FormSchema | undefined>);
+    if (!form) {
+      return null;
+    }
+    IndexedDBFormRepository.assertValidForms([form]);
+    return form;
+  }
+
+  async saveForm(schema: FormSchema): Promise<void> {
+    const [schemaError] = FormSchemaValidator.getErrors(FormSchemaValidator.validate(schema));
+    if (schemaError) {
+      throw IndexedDBFormRepository.toStorageError(new Error(`Invalid form definition: ${schemaError.message}`));
+    }
+    await this.run('readwrite', store => store.put({
+      ...schema,
+      createdAt: schema.createdAt instanceof Date ? schema.createdAt : new Date(schema.createdAt),
+    }));
+  }
+
+  /**
+   * Store several forms in one transaction
+   */
+  async saveForms(schemas: FormSchema[]): Promise<void> {
+    try {
+      const transaction = this.db.transaction(FORMS_STORE, 'readwrite');
+      const store = transaction.objectStore(FORMS_STORE);
+      schemas.forEach(schema => store.put(schema));
+      await transactionDone(transaction);
+    } catch (error) {
+      throw IndexedDBFormRepository.toStorageError(error);
+    }
+  }
+
+  async deleteForm(id: string): Promise<void> {
+    await this.run('readwrite', store => store.delete(id));
+  }
+
+  async clearAllForms(): Promise<void> {
+    await this.run('readwrite', store => store.clear());
+  }
+
+  async getTrashedForms(): Promise<TrashedForm[]> {
+    await this.ensureMigrated();
+    return this.run('readonly', store => store.getAll() as IDBRequest<TrashedForm[]>, TRASH_STORE);
+  }
+
+  async saveTrashedForm(item: TrashedForm): Promise<void> {
+    await this.run('readwrite', store => store.put(item), TRASH_STORE);
+  }
+
+  async deleteTrashedForms(ids: string[]): Promise<void> {
+    try {
+      const transaction = this.db.transaction(TRASH_STORE, 'readwrite');
+      const store = transaction.objectStore(TRASH_STORE);
+      ids.forEach(id => store.delete(id));
+      await transactionDone(transaction);
+    } catch (error) {
+      throw IndexedDBFormRepository.toStorageError(error);
+    }
+  }
+
+  /**
+   * Move records that are not valid forms to the quarantine store. Forms of the localStorage
+   * backend that could not be copied are recovered there first and then copied again.
+   */
+  async recoverForms(): Promise<RecoveryReport> {
+    let legacyReport: RecoveryReport | null = null;
+    if (IndexedDBFormRepository.isLegacyImportPending()) {
+      try {
+        LocalStorageService.getForms();
+      } catch {
+        legacyReport = StorageRecoveryService.recover();
+      }
+    }
+
+    const records = await this.run('readonly', store => store.getAll() as IDBRequest<Record<string, unknown>[]>);
+    const lost: LostFormEntry[] = records.flatMap(record => {
+      const [error] = FormSchemaValidator.getErrors(FormSchemaValidator.validate(record));
+      return error ? [{ key: String(record.id), reason: error.message, raw: JSON.stringify(record) }] : [];
+    });
+    if (lost.length > 0) {
+      await this.quarantine(
+        records,
+        'Recovered from corrupted storage',
+        lost,
+        records.filter(record => lost.some(entry => entry.key === String(record.id))).map(record => record.id as IDBValidKey)
+      );
+    }
+
+    this.migration = null;
+    const forms = await this.getForms();
+    return {
+      recovered: forms.map(({ id, name }) => ({ id, name })),
+      lost: [...(legacyReport?.lost ?? []), ...lost],
+      quarantineKey: legacyReport && lost.length === 0
+        ? legacyReport.quarantineKey
+        : IndexedDBFormRepository.QUARANTINE_NAME,
+    };
+  }
+
+  /**
+   * Remove all forms, keeping a copy of them in the quarantine store. Forms of the localStorage
+   * backend that were never copied over are reset as well.
+   */
+  async resetForms(): Promise<void> {
+    if (IndexedDBFormRepository.isLegacyImportPending()) {
+      StorageRecoveryService.resetStorage();
+      localStorage.setItem(MIGRATION_MARKER_KEY, new Date().toISOString());
+    }
+
+    const records = await this.run('readonly', store => store.getAll() as IDBRequest<Record<string, unknown>[]>);
+    await this.quarantine(records, 'Storage reset by user', [], records.map(record => record.id as IDBValidKey));
+    this.migration = null;
+  }
+
+  /**
+   * All stored records as JSON, including localStorage data still waiting to be copied over
+   */
+  async getRawData(): Promise<string | null> {
+    const records = await this.run('readonly', store => store.getAll() as IDBRequest<Record<string, unknown>[]>);
+    const legacyRaw = IndexedDBFormRepository.isLegacyImportPending() ? StorageRecoveryService.getRawData() : null;
+    if (records.length === 0 && legacyRaw === null) {
+      return null;
+    }
+    return JSON.stringify({
+      forms: Object.fromEntries(records.map(record => [String(record.id), record])),
+      ...(legacyRaw !== null && { localStorageForms: legacyRaw }),
+    }, null, 2);
+  }
+
+  /**
+   * Keep a copy of the given records in the quarantine store and remove some of them from the
+   * forms store, in one transaction. Only the last MAX_QUARANTINE_RECORDS copies are kept.
+   */
+  private async quarantine(
+    records: Record<string, unknown>[],
+    reason: string,
+    lostEntries: LostFormEntry[],
+    removeIds: IDBValidKey[]
+  ): Promise<void> {
+    const record: QuarantineRecord = {
+      quarantinedAt: new Date().toISOString(),
+      reason,
+      originalData: JSON.stringify({ forms: Object.fromEntries(records.map(r => [String(r.id), r])) }),
+      lostEntries,
+    };
+
+    try {
+      const transaction = this.db.transaction([FORMS_STORE, QUARANTINE_STORE], 'readwrite');
+      const quarantineStore = transaction.objectStore(QUARANTINE_STORE);
+      quarantineStore.add(record);
+      // Keys increase, so the oldest records come first
+      const keys = quarantineStore.getAllKeys();
+      keys.onsuccess = () => keys.result.slice(0, -MAX_QUARANTINE_RECORDS).forEach(key => quarantineStore.delete(key));
+      const formsStore = transaction.objectStore(FORMS_STORE);
+      removeIds.forEach(id => formsStore.delete(id));
+      await transactionDone(transaction);
+    } catch (error) {
+      throw IndexedDBFormRepository.toStorageError(error);
+    }
+  }
+}
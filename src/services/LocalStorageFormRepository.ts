@@ -0,0 +1,56 @@
+import type { FormSchema, TrashedForm } from '../types';
+import type { FormRepository } from './FormRepository';
+import { LocalStorageService } from './LocalStorageService';
+import { StorageRecoveryService, type RecoveryReport } from './StorageRecoveryService';
+import { TrashStorageService } from './TrashStorageService';
+
+/**
+ * FormRepository backed by localStorage through LocalStorageService
+ */
+export class LocalStorageFormRepository implements FormRepository {
+  readonly backend = 'localStorage' as const;
+
+  async getForms(): Promise<FormSchema[]> {
+    return LocalStorageService.getForms();
+  }
+
+  async getForm(id: string): Promise<FormSchema | null> {
+    return LocalStorageService.getForm(id);
+  }
+
+  async saveForm(schema: FormSchema): Promise<void> {
+    LocalStorageService.saveForm(schema);
+  }
+
+  async deleteForm(id: string): Promise<void> {
+    LocalStorageService.deleteForm(id);
+  }
+
+  async clearAllForms(): Promise<void> {
+    LocalStorageService.clearAllForms();
+  }
+
+  async getTrashedForms(): Promise<TrashedForm[]> {
+    return TrashStorageService.getTrashedForms();
+  }
+
+  async saveTrashedForm(item: TrashedForm): Promise<void> {
+    TrashStorageService.saveTrashedForm(item);
+  }
+
+  async deleteTrashedForms(ids: string[]): Promise<void> {
+    TrashStorageService.deleteTrashedForms(ids);
+  }
+
+  async recoverForms(): Promise<RecoveryReport> {
+    return StorageRecoveryService.recover();
+  }
+
+  async resetForms(): Promise<void> {
+    StorageRecoveryService.resetStorage();
+  }
+
+  async getRawData(): Promise<string | null> {
+    return StorageRecoveryService.getRawData();
+  }
+}
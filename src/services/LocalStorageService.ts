@@ -1,20 +1,24 @@
 import type { FormSchema } from '../types';
+import { StorageMigrationService, type StoredFormsData } from './StorageMigrationService';
+import { FormSchemaValidator } from './FormSchemaValidator';
 
 export interface LocalStorageError {
-  type: 'unavailable' | 'quota_exceeded' | 'corrupted_data' | 'unknown';
+  type: 'unavailable' | 'quota_exceeded' | 'corrupted_data' | 'migration_failed' | 'invalid_schema' | 'unknown';
   message: string;
   originalError?: Error;
 }
 
 export class LocalStorageService {
-  private static readonly STORAGE_KEY = 'dynamic-form-builder-forms';
-  private static readonly STORAGE_VERSION = '1.0';
-  private static readonly VERSION_KEY = 'dynamic-form-builder-version';
+  static readonly STORAGE_KEY = 'dynamic-form-builder-forms';
+  static readonly VERSION_KEY = 'dynamic-form-builder-version';
+  private static readonly BACKUP_KEY_PREFIX = 'dynamic-form-builder-forms-backup-';
+  // Data written before versions were read back carries this version (or none at all)
+  private static readonly LEGACY_VERSION = '1.0';
 
   /**
    * Check if localStorage is available and functional
    */
-  private static isLocalStorageAvailable(): boolean {
+  static isLocalStorageAvailable(): boolean {
     try {
       if (typeof localStorage === 'undefined') {
         return false;
@@ -42,11 +46,22 @@ export class LocalStorageService {
         return { forms: {} };
       }
 
-      const parsed = JSON.parse(data);
+      let parsed = JSON.parse(data);
       
       // Validate the structure
-      if (!parsed || typeof parsed !== 'object' || !parsed.forms) {
-        throw new Error('Invalid data structure');
+      if (!parsed || typeof parsed !== 'object' || !parsed.forms || typeof parsed.forms !== 'object' || Array.isArray(parsed.forms)) {
+        throw new Error('Corrupted data in localStorage: invalid data structure');
+      }
+
+      const storedVersion = localStorage.getItem(this.VERSION_KEY) || this.LEGACY_VERSION;
+      if (StorageMigrationService.needsMigration(storedVersion)) {
+        parsed = this.migrateStorageData(data, parsed, storedVersion);
+      }
+
+      // Forms that cannot be rendered make the data corrupted; recovery can salvage the others
+      const invalidIds = Object.keys(parsed.forms).filter(id => !FormSchemaValidator.isValid(parsed.forms[id]));
+      if (invalidIds.length > 0) {
+        throw new Error(`Corrupted data in localStorage: invalid form definition (${invalidIds.join(', ')})`);
       }
 
       // Convert date strings back to Date objects
@@ -54,6 +69,9 @@ export class LocalStorageService {
         if (form.createdAt && typeof form.createdAt === 'string') {
           form.createdAt = new Date(form.createdAt);
         }
+        if (form.updatedAt && typeof form.updatedAt === 'string') {
+          form.updatedAt = new Date(form.updatedAt);
+        }
       });
 
       return parsed;
@@ -65,6 +83,35 @@ export class LocalStorageService {
     }
   }
 
+  /**
+   * Upgrade data stored by an older version, keeping the original blob as a backup
+   */
+  private static migrateStorageData(
+    raw: string,
+    parsed: StoredFormsData,
+    storedVersion: string
+  ): StoredFormsData {
+    const backupKey = `${this.BACKUP_KEY_PREFIX}${storedVersion}`;
+
+    try {
+      localStorage.setItem(backupKey, raw);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Storage migration failed: could not back up data before upgrading (${reason})`);
+    }
+
+    let result;
+    try {
+      result = StorageMigrationService.migrate(parsed, storedVersion);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`${reason}. Your previous data is kept in "${backupKey}".`);
+    }
+
+    this.setStorageData(result.data as unknown as { forms: Record<string, FormSchema> });
+    return result.data;
+  }
+
   /**
    * Save data to localStorage with error handling
    */
@@ -72,7 +119,7 @@ export class LocalStorageService {
     try {
       const serialized = JSON.stringify(data);
       localStorage.setItem(this.STORAGE_KEY, serialized);
-      localStorage.setItem(this.VERSION_KEY, this.STORAGE_VERSION);
+      localStorage.setItem(this.VERSION_KEY, StorageMigrationService.getCurrentVersion());
     } catch (error: any) {
       if (error.name === 'QuotaExceededError' || error.code === 22 || error.message.includes('quota exceeded')) {
         throw new Error('Storage quota exceeded');
@@ -89,6 +136,11 @@ export class LocalStorageService {
    */
   static saveForm(schema: FormSchema): void {
     try {
+      const [schemaError] = FormSchemaValidator.getErrors(FormSchemaValidator.validate(schema));
+      if (schemaError) {
+        throw new Error(`Invalid form definition: ${schemaError.message}`);
+      }
+
       const data = this.getStorageData();
       data.forms[schema.id] = {
         ...schema,
@@ -198,10 +250,25 @@ export class LocalStorageService {
     }
   }
 
+  /**
+   * Wrap any thrown error into a LocalStorageError; errors that already are one pass through
+   */
+  static toStorageError(error: unknown): LocalStorageError {
+    if (error && typeof error === 'object' && 'type' in error && 'message' in error && !(error instanceof Error)) {
+      return error as LocalStorageError;
+    }
+    const original = error instanceof Error ? error : new Error(String(error));
+    return {
+      type: this.getErrorType(original.message),
+      message: original.message,
+      originalError: original
+    };
+  }
+
   /**
    * Determine error type from error message
    */
-  private static getErrorType(message: string): LocalStorageError['type'] {
+  static getErrorType(message: string): LocalStorageError['type'] {
     if (message.includes('not available')) {
       return 'unavailable';
     }
@@ -211,6 +278,12 @@ export class LocalStorageService {
     if (message.includes('Corrupted data')) {
       return 'corrupted_data';
     }
+    if (message.includes('migration failed')) {
+      return 'migration_failed';
+    }
+    if (message.includes('Invalid form definition')) {
+      return 'invalid_schema';
+    }
     return 'unknown';
   }
 }
\ No newline at end of file
@@ -0,0 +1,92 @@
+import { LocalStorageService } from './LocalStorageService';
+
+/**
+ * A map of items kept as JSON under one localStorage key, in the shape { [property]: items },
+ * e.g. { drafts: { [formId]: draft } }. Every method throws a LocalStorageError.
+ */
+export class LocalStorageStore<K extends string, T> {
+  readonly storageKey: string;
+  private readonly property: K;
+  private readonly revive: (item: T) => void;
+
+  /**
+   * `revive` restores what JSON cannot hold, like Date objects, on each item read back
+   */
+  constructor(storageKey: string, property: K, revive: (item: T) => void = () => {}) {
+    this.storageKey = storageKey;
+    this.property = property;
+    this.revive = revive;
+  }
+
+  /**
+   * Get all stored items
+   */
+  read(): Record<string, T> {
+    try {
+      if (!LocalStorageService.isLocalStorageAvailable()) {
+        throw new Error('localStorage is not available');
+      }
+
+      const data = localStorage.getItem(this.storageKey);
+      if (!data) {
+        return {};
+      }
+
+      const parsed = JSON.parse(data) as Record<K, Record<string, T>> | null;
+
+      // Validate the structure
+      if (!parsed || typeof parsed !== 'object' || !parsed[this.property]) {
+        throw new Error('Invalid data structure');
+      }
+
+      const items = parsed[this.property];
+      Object.values(items).forEach(item => this.revive(item));
+      return items;
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        throw LocalStorageService.toStorageError(new Error('Corrupted data in localStorage'));
+      }
+      throw LocalStorageService.toStorageError(error);
+    }
+  }
+
+  /**
+   * Replace all stored items
+   */
+  write(items: Record<string, T>): void {
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify({ [this.property]: items }));
+    } catch (error) {
+      if (error instanceof DOMException && (error.name === 'QuotaExceededError' || error.code === 22)) {
+        throw LocalStorageService.toStorageError(new Error('Storage quota exceeded'));
+      }
+      if (!LocalStorageService.isLocalStorageAvailable()) {
+        throw LocalStorageService.toStorageError(new Error('localStorage is not available'));
+      }
+      throw LocalStorageService.toStorageError(error);
+    }
+  }
+
+  /**
+   * Change the stored items in place and save them
+   */
+  update(change: (items: Record<string, T>) => void): void {
+    const items = this.read();
+    change(items);
+    this.write(items);
+  }
+
+  /**
+   * Remove the key and everything stored under it
+   */
+  clear(): void {
+    try {
+      if (!LocalStorageService.isLocalStorageAvailable()) {
+        throw new Error('localStorage is not available');
+      }
+      localStorage.removeItem(this.storageKey);
+    } catch (error) {
+      throw LocalStorageService.toStorageError(error);
+    }
+  }
+}
@@ -0,0 +1,187 @@
+import type { FormField, PasswordPolicy } from '../types';
+
+export type PasswordRequirementId =
+  | 'minLength'
+  | 'uppercase'
+  | 'lowercase'
+  | 'digit'
+  | 'symbol'
+  | 'notCommon'
+  | 'notContainingField';
+
+export interface PasswordRequirement {
+  id: PasswordRequirementId;
+  label: string; // e.g. "At least 8 characters"
+  met: boolean;
+}
+
+export interface PasswordStrength {
+  score: 0 | 1 | 2 | 3 | 4;
+  label: string;
+}
+
+export type ResolvedPasswordPolicy = Required<Omit<PasswordPolicy, 'notContainingFieldId'>> &
+  Pick<PasswordPolicy, 'notContainingFieldId'>;
+
+/**
+ * The policy of customPassword rules without settings, which is what the rule always checked before it was configurable
+ */
+export const DEFAULT_PASSWORD_POLICY: ResolvedPasswordPolicy = {
+  minLength: 8,
+  requireUppercase: true,
+  requireLowercase: true,
+  requireDigit: true,
+  requireSymbol: true,
+  blockCommonPasswords: false,
+  bannedPasswords: [],
+};
+
+// Frequently leaked passwords, including ones that satisfy the usual character requirements
+const COMMON_PASSWORDS = new Set([
+  '123456', '123456789', '12345678', '1234567890', '12345', '1234567', '111111', '000000', '123123',
+  '654321', '666666', '121212', '112233', '987654321', 'password', 'password1', 'password12',
+  'password123', 'password1!', 'p@ssw0rd', 'p@ssword1', 'passw0rd', 'qwerty', 'qwerty123',
+  'qwertyuiop', '1q2w3e4r', '1qaz2wsx', 'zaq12wsx', 'asdfgh', 'asdfghjkl', 'abc123', 'abcd1234',
+  'iloveyou', 'letmein', 'letmein1!', 'welcome', 'welcome1', 'welcome1!', 'welcome123', 'admin',
+  'admin123', 'administrator', 'root', 'login', 'master', 'monkey', 'dragon', 'football',
+  'baseball', 'sunshine', 'princess', 'shadow', 'superman', 'trustno1', 'starwars', 'whatever',
+  'changeme', 'changeme1!', 'secret', 'summer2024!', 'winter2024!', 'spring2024!', 'autumn2024!',
+  'qwerty1!', 'qwerty123!', 'abc123!', 'test1234', 'test123!', 'football1!', 'iloveyou1!',
+]);
+
+const STRENGTH_LABELS = ['Very weak', 'Weak', 'Fair', 'Good', 'Strong'];
+
+// The related field's value is only checked once it is long enough to be meaningful
+const MIN_CONTAINED_VALUE_LENGTH = 3;
+
+const CHARACTER_CLASSES = {
+  uppercase: /\p{Lu}/u,
+  lowercase: /\p{Ll}/u,
+  digit: /\p{N}/u,
+  symbol: /[^\p{L}\p{N}\s]/u,
+};
+
+export class PasswordPolicyService {
+  /**
+   * Fill in the settings a policy leaves out from the default policy
+   */
+  static resolvePolicy(policy: PasswordPolicy = {}): ResolvedPasswordPolicy {
+    return {
+      ...DEFAULT_PASSWORD_POLICY,
+      ...Object.fromEntries(Object.entries(policy).filter(([, value]) => value !== undefined)),
+    };
+  }
+
+  /**
+   * Check a password against each requirement of the policy, in checklist order.
+   * `values` are the other form values and `fields` the form's fields, for the value and
+   * label of the field the password may not contain.
+   */
+  static getRequirements(
+    password: string,
+    policy?: PasswordPolicy,
+    values: Record<string, unknown> = {},
+    fields: FormField[] = []
+  ): PasswordRequirement[] {
+    const resolved = this.resolvePolicy(policy);
+    const requirements: PasswordRequirement[] = [];
+
+    if (resolved.minLength > 0) {
+      requirements.push({
+        id: 'minLength',
+        label: `At least ${resolved.minLength} character${resolved.minLength === 1 ? '' : 's'}`,
+        met: [...password].length >= resolved.minLength,
+      });
+    }
+    if (resolved.requireUppercase) {
+      requirements.push({ id: 'uppercase', label: 'An uppercase letter', met: CHARACTER_CLASSES.uppercase.test(password) });
+    }
+    if (resolved.requireLowercase) {
+      requirements.push({ id: 'lowercase', label: 'A lowercase letter', met: CHARACTER_CLASSES.lowercase.test(password) });
+    }
+    if (resolved.requireDigit) {
+      requirements.push({ id: 'digit', label: 'A number', met: CHARACTER_CLASSES.digit.test(password) });
+    }
+    if (resolved.requireSymbol) {
+      requirements.push({ id: 'symbol', label: 'A symbol (e.g. ! ? # @)', met: CHARACTER_CLASSES.symbol.test(password) });
+    }
+    if (resolved.blockCommonPasswords || resolved.bannedPasswords.length > 0) {
+      requirements.push({ id: 'notCommon', label: 'Not a commonly used password', met: !this.isBanned(password, resolved) });
+    }
+    if (resolved.notContainingFieldId) {
+      const fieldId = resolved.notContainingFieldId;
+      const contained = String(values[fieldId] ?? '').trim().toLowerCase();
+      const fieldLabel = fields.find(field => field.id === fieldId)?.label.trim();
+      requirements.push({
+        id: 'notContainingField',
+        label: `Does not contain ${fieldLabel ? `the ${fieldLabel}` : 'the value of another field'}`,
+        met: contained.length < MIN_CONTAINED_VALUE_LENGTH || !password.toLowerCase().includes(contained),
+      });
+    }
+
+    return requirements;
+  }
+
+  /**
+   * The requirements a password does not meet
+   */
+  static getFailedRequirements(
+    password: string,
+    policy?: PasswordPolicy,
+    values: Record<string, unknown> = {},
+    fields: FormField[] = []
+  ): PasswordRequirement[] {
+    return this.getRequirements(password, policy, values, fields).filter(requirement => !requirement.met);
+  }
+
+  /**
+   * Rate a password from 0 (very weak) to 4 (strong) by its length and variety of characters.
+   * A password that fails its requirements is never rated above weak.
+   */
+  static getStrength(password: string, requirements: PasswordRequirement[] = []): PasswordStrength {
+    const rate = (score: PasswordStrength['score']): PasswordStrength => ({ score, label: STRENGTH_LABELS[score] });
+
+    if (!password || requirements.some(requirement => requirement.id === 'notCommon' && !requirement.met)) {
+      return rate(0);
+    }
+
+    const length = [...password].length;
+    const classes = Object.values(CHARACTER_CLASSES).filter(pattern => pattern.test(password)).length;
+    let score = 0;
+    if (length >= 8) score++;
+    if (length >= 12) score++;
+    if (classes >= 3) score++;
+    if (classes === 4 || length >= 16) score++;
+
+    if (requirements.some(requirement => !requirement.met)) {
+      score = Math.min(score, 1);
+    }
+    return rate(score as PasswordStrength['score']);
+  }
+
+  /**
+   * Describe the character requirements of a policy, e.g.
+   * "at least 8 characters, an uppercase letter, a lowercase letter, a number and a symbol"
+   */
+  static describe(policy?: PasswordPolicy): string {
+    const resolved = this.resolvePolicy(policy);
+    const parts = [
+      resolved.minLength > 0 && `at least ${resolved.minLength} character${resolved.minLength === 1 ? '' : 's'}`,
+      resolved.requireUppercase && 'an uppercase letter',
+      resolved.requireLowercase && 'a lowercase letter',
+      resolved.requireDigit && 'a number',
+      resolved.requireSymbol && 'a symbol',
+    ].filter((part): part is string => Boolean(part));
+
+    if (parts.length === 0) {
+      return 'any characters';
+    }
+    return parts.length === 1 ? parts[0] : `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}`;
+  }
+
+  private static isBanned(password: string, policy: ResolvedPasswordPolicy): boolean {
+    const normalized = password.trim().toLowerCase();
+    return (policy.blockCommonPasswords && COMMON_PASSWORDS.has(normalized)) ||
+      policy.bannedPasswords.some(banned => banned.trim().toLowerCase() === normalized);
+  }
+}
@@ -0,0 +1,71 @@
+import { MAX_PATTERN_VALUE_LENGTH, PatternRuleService } from './PatternRuleService';
+
+describe('PatternRuleService', () => {
+  describe('getPatternProblem', () => {
+    it.each([
+      '(a+)+',
+      '(\\w*\\s?)*',
+      '^(a|aa)+$',
+      '^(a|a)*$',
+      '^\\d*\\d*\\d*\\d*\\d*$',
+      '\\d+\\d+',
+      '.*.*',
+      'a*a?a*',
+      '(\\d*)\\d*',
+      '\\d*(ab)?\\d*',
+      '(ab)*(ab)*',
+      '^.*a.*b.*c.*d$',
+      '.*a.*b.*',
+      '^[a-z0-9]+1[a-z0-9]+2\\w+$',
+      '(a?){28}a{28}',
+      '((ab)?c)+',
+      '(a)\\1',
+      '(?<x>a)\\k<x>',
+    ])('rejects %s', pattern => {
+      expect(PatternRuleService.getPatternProblem(pattern)).not.toBeNull();
+    });
+
+    it.each([
+      '^[A-Z]{2}\\d{4}$',
+      '^\\s*\\d+\\s*$',
+      '^\\d+\\.\\d+$',
+      '^[^@\\s]+@[^@\\s]+\\.[^@\\s]+$',
+      '.*foo.*',
+      '^\\+?\\d{1,3}[- ]?\\d{3,14}$',
+      '^\\d{5}(-\\d{4})?$',
+      '^#?([a-f0-9]{6}|[a-f0-9]{3})$',
+      '^(?:https?://)?\\S+$',
+      '^.*a.*$',
+      '^[^.]+\\.[^.]+\\.[^.]+$',
+      '(ab)+(ab)+',
+    ])('accepts %s', pattern => {
+      expect(PatternRuleService.getPatternProblem(pattern)).toBeNull();
+    });
+
+    it('reports syntax errors and unsupported flags', () => {
+      expect(PatternRuleService.getPatternProblem('([a-z]')).not.toBeNull();
+      expect(PatternRuleService.getPatternProblem('^a$', 'g')).toMatch(/Flag "g" is not supported/);
+    });
+  });
+
+  describe('test', () => {
+    it('matches values against usable patterns only', () => {
+      expect(PatternRuleService.test('AB1234', '^[A-Z]{2}\\d{4}$')).toBe(true);
+      expect(PatternRuleService.test('ab1234', '^[A-Z]{2}\\d{4}$', 'i')).toBe(true);
+      expect(PatternRuleService.test('AB12', '^[A-Z]{2}\\d{4}$')).toBe(false);
+      expect(PatternRuleService.test('aaaa', '^(a|aa)+$')).toBeNull();
+    });
+
+    it('stays fast on the longest values for the patterns it accepts', () => {
+      const start = Date.now();
+      expect(PatternRuleService.test('abc'.repeat(333), '^.*a.*b$')).toBe(false);
+      expect(PatternRuleService.test('a.'.repeat(499), '^[^@\\s]+@[^@\\s]+\\.[^@\\s]+$')).toBe(false);
+      expect(Date.now() - start).toBeLessThan(1000);
+    });
+
+    it('does not test values longer than the limit', () => {
+      expect(PatternRuleService.test('a'.repeat(MAX_PATTERN_VALUE_LENGTH), '^a+$')).toBe(true);
+      expect(PatternRuleService.test('a'.repeat(MAX_PATTERN_VALUE_LENGTH + 1), '^a+$')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,343 @@
+// Flags that change how a pattern matches; g and y are left out because they make test() stateful
+export const PATTERN_FLAGS = ['i', 'm', 's', 'u'] as const;
+
+export type PatternFlag = typeof PATTERN_FLAGS[number];
+
+const MAX_PATTERN_LENGTH = 500;
+
+// Longer values fail pattern rules without being tested. The backtracking check still lets
+// quadratic patterns through, such as .*a.* or (ab)+(ab)+, and this keeps them fast.
+export const MAX_PATTERN_VALUE_LENGTH = 1000;
+
+// Unbounded repetitions that can take over each other's characters, like the two in .*a.*,
+// multiply the ways a value can be split; more than two in a row make matching very slow
+const MAX_OVERLAPPING_REPETITIONS = 2;
+
+/**
+ * A single repeated item of a pattern: a literal character, one of the classes \d, \w and \s,
+ * a bracketed set such as [^@\s], or 'any' for everything else (., groups, other escapes),
+ * which may match anything
+ */
+type Atom =
+  | { kind: 'literal'; char: string }
+  | { kind: 'class'; name: 'd' | 'w' | 's' }
+  | { kind: 'set'; pattern: RegExp }
+  | { kind: 'any' };
+
+/**
+ * An unbounded repetition that can still match characters further on in the pattern
+ */
+interface OpenRepeat {
+  atom: Atom;
+  depth: number; // how many overlapping repetitions lead up to this one, including itself
+  adjacent: boolean; // nothing required separates it from what follows
+}
+
+interface GroupScan {
+  hasQuantifier: boolean; // something inside the group can repeat or be left out
+  hasAlternation: boolean; // the group or a group inside it has more than one branch
+  startRepeats: OpenRepeat[]; // open repetitions when the group (and so each branch) started
+  repeats: OpenRepeat[]; // open repetitions at the current position
+  branchRepeats: OpenRepeat[]; // open repetitions at the end of the finished branches
+}
+
+const CLASS_PATTERNS = { d: /\d/, w: /\w/, s: /\s/ };
+const ESCAPED_CHARACTERS: Record<string, string> = { t: '\t', n: '\n', r: '\r', f: '\f', v: '\v' };
+
+/**
+ * Whether two atoms can match the same character, which lets adjacent repetitions of them
+ * split a value in many ways. Anything not known to be disjoint counts as overlapping.
+ */
+const canOverlap = (a: Atom, b: Atom): boolean => {
+  if (a.kind === 'any' || b.kind === 'any') {
+    return true;
+  }
+  if (a.kind === 'literal' && b.kind === 'literal') {
+    return a.char.toLowerCase() === b.char.toLowerCase();
+  }
+  if (a.kind === 'class' && b.kind === 'class') {
+    return a.name === b.name || (a.name !== 's' && b.name !== 's');
+  }
+  const [literal, other] = a.kind === 'literal' ? [a, b] : [b, a];
+  if (literal.kind !== 'literal') {
+    return true;
+  }
+  if (other.kind === 'class') {
+    return CLASS_PATTERNS[other.name].test(literal.char);
+  }
+  return other.kind === 'set' ? other.pattern.test(literal.char) : true;
+};
+
+/**
+ * Read the bracketed set starting at `index` (the opening bracket). Returns its length and
+ * its atom, which is 'any' when the set cannot be compiled on its own.
+ */
+const readSet = (source: string, index: number, flags: string): { length: number; atom: Atom } => {
+  let end = index + 1;
+  while (end < source.length && source[end] !== ']') {
+    end += source[end] === '\\' ? 2 : 1;
+  }
+  end++;
+  try {
+    const pattern = new RegExp(source.slice(index, end), flags.replace(/[^iu]/g, ''));
+    return { length: end - index, atom: { kind: 'set', pattern } };
+  } catch {
+    return { length: end - index, atom: { kind: 'any' } };
+  }
+};
+
+/**
+ * Read the atom of an escape sequence starting at `index` (the backslash).
+ * Returns null for assertions such as \b, which match no character.
+ */
+const readEscapeAtom = (source: string, index: number): Atom | null => {
+  const next = source[index + 1] ?? '';
+  if (next === 'b' || next === 'B') {
+    return null;
+  }
+  if (next === 'd' || next === 'w' || next === 's') {
+    return { kind: 'class', name: next };
+  }
+  if (ESCAPED_CHARACTERS[next]) {
+    return { kind: 'literal', char: ESCAPED_CHARACTERS[next] };
+  }
+  return /[A-Za-z0-9]/.test(next) ? { kind: 'any' } : { kind: 'literal', char: next };
+};
+
+/**
+ * Length of the escape sequence starting at `index`, including escapes with arguments
+ * such as \x41, \u{1F600} or \p{L}
+ */
+const readEscapeLength = (source: string, index: number): number => {
+  const match = /^\\(x[0-9A-Fa-f]{2}|u\{[0-9A-Fa-f]+\}|u[0-9A-Fa-f]{4}|[pP]\{[^}]*\}|c[A-Za-z]|.)/.exec(source.slice(index));
+  return match ? match[0].length : 1;
+};
+
+/**
+ * Read the quantifier starting at `index`. Returns its length (0 when there is none), the
+ * minimum number of repetitions and whether the maximum is unbounded (*, + and {n,}).
+ * Only quantifiers that allow more than one repetition can cause backtracking.
+ */
+const readQuantifier = (source: string, index: number): { length: number; min: number; repeats: boolean; unbounded: boolean } => {
+  const char = source[index];
+  let result = { length: 0, min: 1, repeats: false, unbounded: false };
+  if (char === '*' || char === '+') {
+    result = { length: 1, min: char === '*' ? 0 : 1, repeats: true, unbounded: true };
+  } else if (char === '?') {
+    result = { length: 1, min: 0, repeats: false, unbounded: false };
+  } else if (char === '{') {
+    const match = /^\{(\d+)(,(\d*))?\}/.exec(source.slice(index));
+    if (match) {
+      const min = Number(match[1]);
+      const max = match[2] === undefined ? min : match[3] === '' ? Infinity : Number(match[3]);
+      result = { length: match[0].length, min, repeats: max > 1, unbounded: max === Infinity };
+    }
+  }
+  // A lazy or possessive-looking suffix does not change what can match
+  if (result.length > 0 && source[index + result.length] === '?') {
+    result.length++;
+  }
+  return result;
+};
+
+const ADJACENT_REPETITION_PROBLEM =
+  'Repetitions next to each other that can match the same characters, such as \\d*\\d* or .*.*, can make matching very slow';
+
+const OVERLAPPING_REPETITIONS_PROBLEM =
+  `More than ${MAX_OVERLAPPING_REPETITIONS} repetitions that can match the same characters, such as .*a.*b.*, can make matching very slow`;
+
+export class PatternRuleService {
+  private static readonly cache = new Map<string, RegExp | null>();
+
+  /**
+   * Describe why a pattern cannot be used, or return null when it is fine. Besides syntax
+   * errors this rejects patterns that can take exponential time on unlucky input
+   * (catastrophic backtracking): repeated groups that contain repetition, optional items or
+   * alternatives, such as (a+)+, (a?){20} or (a|aa)+, adjacent repetitions such as \d*\d*,
+   * more than two unbounded repetitions that can match the same characters, such as .*a.*b.*,
+   * and backreferences.
+   */
+  static getPatternProblem(source: string, flags = ''): string | null {
+    if (!source) {
+      return 'Enter a pattern';
+    }
+    if (source.length > MAX_PATTERN_LENGTH) {
+      return `Pattern is too long (maximum ${MAX_PATTERN_LENGTH} characters)`;
+    }
+
+    const unsupportedFlag = [...flags].find(flag => !PATTERN_FLAGS.includes(flag as PatternFlag));
+    if (unsupportedFlag) {
+      return `Flag "${unsupportedFlag}" is not supported; use ${PATTERN_FLAGS.join(', ')}`;
+    }
+    if (new Set(flags).size !== flags.length) {
+      return 'Each flag can only be used once';
+    }
+
+    try {
+      new RegExp(source, flags);
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Invalid regular expression';
+    }
+
+    return this.findBacktrackingRisk(source, flags);
+  }
+
+  /**
+   * Compile a pattern, or return null when it is invalid or unsafe
+   */
+  static compile(source: string, flags = ''): RegExp | null {
+    const key = `${flags}/${source}`;
+    if (!this.cache.has(key)) {
+      this.cache.set(key, this.getPatternProblem(source, flags) ? null : new RegExp(source, flags));
+    }
+    return this.cache.get(key) || null;
+  }
+
+  /**
+   * Test a value against a pattern. Returns null when the pattern cannot be used.
+   * Values longer than MAX_PATTERN_VALUE_LENGTH do not match.
+   */
+  static test(value: string, source: string, flags = ''): boolean | null {
+    const regex = this.compile(source, flags);
+    if (!regex) {
+      return null;
+    }
+    return value.length <= MAX_PATTERN_VALUE_LENGTH && regex.test(value);
+  }
+
+  /**
+   * Show a pattern the way it would be written in JavaScript, e.g. /^[A-Z]{2}\d{4}$/i
+   */
+  static format(source: string, flags = ''): string {
+    return `/${source}/${flags}`;
+  }
+
+  /**
+   * Scan the pattern for the constructs that cause catastrophic backtracking: repeated groups
+   * that contain quantifiers or alternation, repetitions next to each other that can match the
+   * same characters, chains of more than two such repetitions separated by characters they can
+   * also match, and backreferences. This is a conservative heuristic that rejects some safe
+   * patterns; the quadratic patterns it lets through are kept fast by MAX_PATTERN_VALUE_LENGTH.
+   */
+  private static findBacktrackingRisk(source: string, flags: string): string | null {
+    const newGroup = (repeats: OpenRepeat[]): GroupScan => ({
+      hasQuantifier: false,
+      hasAlternation: false,
+      startRepeats: repeats,
+      repeats,
+      branchRepeats: [],
+    });
+    const groups: GroupScan[] = [newGroup([])];
+    let index = 0;
+
+    /**
+     * Account for an atom and its quantifier in the current branch. Returns a problem when
+     * the atom repeats without bound next to an open repetition it overlaps with, or after
+     * too many repetitions that overlap with each other.
+     */
+    const addAtom = (atom: Atom, quantifier: ReturnType<typeof readQuantifier>): string | null => {
+      const group = groups[groups.length - 1];
+      if (quantifier.length > 0) {
+        group.hasQuantifier = true;
+      }
+      if (quantifier.unbounded) {
+        const overlapping = group.repeats.filter(open => canOverlap(open.atom, atom));
+        if (overlapping.some(open => open.adjacent)) {
+          return ADJACENT_REPETITION_PROBLEM;
+        }
+        const depth = 1 + Math.max(0, ...overlapping.map(open => open.depth));
+        if (depth > MAX_OVERLAPPING_REPETITIONS) {
+          return OVERLAPPING_REPETITIONS_PROBLEM;
+        }
+        const repeat = { atom, depth, adjacent: true };
+        group.repeats = quantifier.min > 0 ? [repeat] : [...group.repeats, repeat];
+      } else if (quantifier.min > 0) {
+        // A required atom separates the repetitions before it from those after it; only the
+        // ones that can match it too stay open past it
+        group.repeats = group.repeats
+          .filter(open => canOverlap(open.atom, atom))
+          .map(open => ({ ...open, adjacent: false }));
+      }
+      return null;
+    };
+
+    while (index < source.length) {
+      const char = source[index];
+      let atom: Atom | null;
+
+      if (char === '\\') {
+        const next = source[index + 1];
+        if (/[1-9]/.test(next) || (next === 'k' && source[index + 2] === '<')) {
+          return 'Backreferences (\\1, \\k<name>) are not allowed because they can make matching very slow';
+        }
+        atom = readEscapeAtom(source, index);
+        index += readEscapeLength(source, index);
+      } else if (char === '[') {
+        const set = readSet(source, index, flags);
+        index += set.length;
+        atom = set.atom;
+      } else if (char === '(') {
+        groups.push(newGroup(groups[groups.length - 1].repeats));
+        index++;
+        // Skip the group prefix: (?: (?= (?! (?<= (?<! (?<name>
+        if (source[index] === '?') {
+          const prefix = /^\?(<[=!]|<[^>]*>|[:=!])/.exec(source.slice(index));
+          index += prefix ? prefix[0].length : 1;
+        }
+        continue;
+      } else if (char === '|') {
+        const group = groups[groups.length - 1];
+        group.hasAlternation = true;
+        group.branchRepeats = [...group.branchRepeats, ...group.repeats];
+        group.repeats = group.startRepeats;
+        index++;
+        continue;
+      } else if (char === ')') {
+        const group = groups.length > 1 ? groups.pop()! : groups[0];
+        index++;
+        const quantifier = readQuantifier(source, index);
+        index += quantifier.length;
+        if (quantifier.repeats && group.hasQuantifier) {
+          return 'Repeated groups that contain repetition or optional items, such as (a+)+, (\\w*\\s?)* or (a?){20}, can make matching very slow';
+        }
+        if (quantifier.repeats && group.hasAlternation) {
+          return 'Repeated groups that contain alternatives, such as (a|aa)+, can make matching very slow';
+        }
+
+        const parent = groups[groups.length - 1];
+        parent.hasQuantifier = parent.hasQuantifier || group.hasQuantifier || quantifier.length > 0;
+        parent.hasAlternation = parent.hasAlternation || group.hasAlternation;
+        // Repetitions inside the group stay open after it, e.g. (\d*)\d*, and so do the ones
+        // before a group that can be skipped
+        const skippable = quantifier.length > 0 && quantifier.min === 0;
+        parent.repeats = [
+          ...new Set([...(skippable ? group.startRepeats : []), ...group.branchRepeats, ...group.repeats]),
+        ];
+        if (quantifier.unbounded) {
+          const problem = addAtom({ kind: 'any' }, quantifier);
+          if (problem) {
+            return problem;
+          }
+        }
+        continue;
+      } else if (char === '^' || char === '$') {
+        index++;
+        continue;
+      } else {
+        atom = char === '.' ? { kind: 'any' } : { kind: 'literal', char };
+        index++;
+      }
+
+      const quantifier = readQuantifier(source, index);
+      index += quantifier.length;
+      if (atom) {
+        const problem = addAtom(atom, quantifier);
+        if (problem) {
+          return problem;
+        }
+      }
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,175 @@
+import type { FormSchema, FormSubmission } from '../types';
+import { ResponseExportService } from './ResponseExportService';
+
+const schema: FormSchema = {
+  id: 'form-1',
+  name: 'Event Signup',
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  version: 2,
+  fields: [
+    { id: 'name', type: 'text', label: 'Name', required: true },
+    { id: 'guests', type: 'number', label: 'Guests', required: false },
+    { id: 'date', type: 'date', label: 'Date', required: false },
+    { id: 'meals', type: 'checkbox', label: 'Meals', required: false, options: ['Lunch', 'Dinner'] },
+    { id: 'terms', type: 'checkbox', label: 'Terms', required: true },
+    {
+      id: 'total',
+      type: 'number',
+      label: 'Total',
+      required: false,
+      derivedFrom: { parentFields: ['guests'], computationLogic: 'guests * 10' },
+    },
+  ],
+};
+
+const submission = (id: string, values: Record<string, unknown>): FormSubmission => ({
+  id,
+  formId: schema.id,
+  values,
+  submittedAt: new Date('2024-05-01T12:00:00Z'),
+  schemaVersion: 2,
+});
+
+const submissions = [
+  submission('r1', {
+    name: 'Ada, "The Countess"',
+    guests: '3',
+    date: '2024-06-01',
+    meals: ['Lunch', 'Dinner'],
+    terms: true,
+    total: 30,
+  }),
+  submission('r2', { name: 'Line one\nline two', guests: '', meals: [], terms: false }),
+];
+
+describe('ResponseExportService', () => {
+  describe('buildTable', () => {
+    it('puts metadata first and one column per field', () => {
+      const table = ResponseExportService.buildTable(schema, submissions);
+      expect(table.headers).toEqual([
+        'Response ID', 'Submitted At', 'Form Version', 'Name', 'Guests', 'Date', 'Meals', 'Terms', 'Total',
+      ]);
+      expect(table.rows[0]).toEqual([
+        'r1', '2024-05-01T12:00:00.000Z', 2, 'Ada, "The Countess"', 3, '2024-06-01', 'Lunch; Dinner', true, 30,
+      ]);
+      expect(table.rows[1]).toEqual([
+        'r2', '2024-05-01T12:00:00.000Z', 2, 'Line one\nline two', null, null, '', false, null,
+      ]);
+    });
+
+    it('splits checkbox groups into one column per option', () => {
+      const table = ResponseExportService.buildTable(schema, submissions, {
+        checkboxGroupMode: 'split',
+        includeMetadata: false,
+        includeDerivedFields: false,
+      });
+      expect(table.headers).toEqual(['Name', 'Guests', 'Date', 'Meals: Lunch', 'Meals: Dinner', 'Terms']);
+      expect(table.rows.map(row => row.slice(3, 5))).toEqual([[true, true], [false, false]]);
+    });
+
+    it('numbers duplicate headers', () => {
+      const duplicated: FormSchema = {
+        ...schema,
+        fields: [schema.fields[0], { ...schema.fields[0], id: 'name2' }],
+      };
+      const table = ResponseExportService.buildTable(duplicated, [], { includeMetadata: false });
+      expect(table.headers).toEqual(['Name', 'Name (2)']);
+    });
+
+    it('skips numbered headers that other fields use as their label', () => {
+      const field = schema.fields[0];
+      const colliding: FormSchema = {
+        ...schema,
+        fields: [
+          { ...field, id: 'a1', label: 'A' },
+          { ...field, id: 'a2', label: 'A' },
+          { ...field, id: 'a3', label: 'A (2)' },
+        ],
+      };
+      const table = ResponseExportService.buildTable(
+        colliding,
+        [submission('r1', { a1: 'one', a2: 'two', a3: 'three' })],
+        { includeMetadata: false }
+      );
+      expect(table.headers).toEqual(['A', 'A (3)', 'A (2)']);
+      expect(JSON.parse(ResponseExportService.toJSON(table))).toEqual([{ A: 'one', 'A (3)': 'two', 'A (2)': 'three' }]);
+    });
+  });
+
+  describe('toCSV', () => {
+    it('quotes fields with commas, quotes and line breaks and ends rows with CRLF', () => {
+      const csv = ResponseExportService.toCSV({
+        headers: ['Name', 'Guests'],
+        rows: [['Ada, "The Countess"', 3], ['Line one\nline two', null]],
+      });
+      expect(csv).toBe('Name,Guests\r\n"Ada, ""The Countess""",3\r\n"Line one\nline two",\r\n');
+    });
+
+    it('keeps text that starts like a formula from running as one', () => {
+      const csv = ResponseExportService.toCSV({
+        headers: ['Answer', 'Guests'],
+        rows: [['=HYPERLINK("http://example.com")', -3], ['+1', 0], ['-1', 1], ['@SUM(A1)', 2], ['\tx', 3], ['a=b', 4]],
+      });
+      expect(csv.split('\r\n')).toEqual([
+        'Answer,Guests',
+        '"\'=HYPERLINK(""http://example.com"")",-3',
+        "'+1,0",
+        "'-1,1",
+        "'@SUM(A1),2",
+        "'\tx,3",
+        'a=b,4',
+        '',
+      ]);
+    });
+  });
+
+  describe('toJSON', () => {
+    it('keys each response by column header', () => {
+      const json = ResponseExportService.toJSON({ headers: ['Name', 'Guests'], rows: [['Ada', 3], ['Bo', null]] });
+      expect(JSON.parse(json)).toEqual([{ Name: 'Ada', Guests: 3 }, { Name: 'Bo', Guests: null }]);
+    });
+  });
+
+  describe('toSpreadsheetXML', () => {
+    it('types cells and escapes markup', () => {
+      const xml = ResponseExportService.toSpreadsheetXML(
+        { headers: ['Name', 'Guests', 'Terms', 'Notes'], rows: [['<Ada & Co>', 3, true, null]] },
+        'Sheet: [2024]'
+      );
+      expect(xml).toContain('<Worksheet ss:Name="Sheet   2024 ">');
+      expect(xml).toContain('<Cell><Data ss:Type="String">&lt;Ada &amp; Co&gt;</Data></Cell>');
+      expect(xml).toContain('<Cell><Data ss:Type="Number">3</Data></Cell>');
+      expect(xml).toContain('<Cell><Data ss:Type="Boolean">1</Data></Cell>');
+      expect(xml).toContain('<Cell/>');
+    });
+  });
+
+  describe('exportResponses', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2024-07-04T09:00:00Z'));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('exports CSV with a byte order mark', () => {
+      const file = ResponseExportService.exportResponses(schema, submissions);
+      expect(file.filename).toBe('event-signup-responses-2024-07-04.csv');
+      expect(file.mimeType).toBe('text/csv;charset=utf-8');
+      expect(file.content.startsWith('\uFEFFResponse ID,Submitted At,')).toBe(true);
+    });
+
+    it('exports JSON and spreadsheet files', () => {
+      const json = ResponseExportService.exportResponses(schema, submissions, { format: 'json' });
+      expect(json.filename).toBe('event-signup-responses-2024-07-04.json');
+      expect(JSON.parse(json.content)).toHaveLength(2);
+
+      const xml = ResponseExportService.exportResponses(schema, submissions, { format: 'xml' });
+      expect(xml.filename).toBe('event-signup-responses-2024-07-04.xml');
+      expect(xml.mimeType).toBe('application/xml');
+      expect(xml.content).toContain('<Worksheet ss:Name="Event Signup">');
+    });
+  });
+});
@@ -0,0 +1,302 @@
+import type { FormField, FormSchema, FormSubmission } from '../types';
+
+// 'xml' is an XML Spreadsheet 2003 document, the spreadsheet format that can be written as plain text
+export type ResponseExportFormat = 'csv' | 'json' | 'xml';
+
+export type ExportCell = string | number | boolean | null;
+
+export interface ResponseExportOptions {
+  format: ResponseExportFormat;
+  checkboxGroupMode: 'joined' | 'split'; // one column with joined options, or one column per option
+  includeDerivedFields: boolean;
+  includeMetadata: boolean; // response id, submission time and form version columns
+  joinSeparator?: string;
+}
+
+export interface ExportTable {
+  headers: string[];
+  rows: ExportCell[][];
+}
+
+export interface ExportFile {
+  content: string;
+  mimeType: string;
+  filename: string;
+}
+
+interface ExportColumn {
+  header: string;
+  getValue: (submission: FormSubmission) => ExportCell;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ResponseExportOptions = {
+  format: 'csv',
+  checkboxGroupMode: 'joined',
+  includeDerivedFields: true,
+  includeMetadata: true,
+  joinSeparator: '; ',
+};
+
+export class ResponseExportService {
+  /**
+   * Flatten submissions into a table with one column per exported field value
+   */
+  static buildTable(
+    schema: FormSchema,
+    submissions: FormSubmission[],
+    options: Partial<ResponseExportOptions> = {}
+  ): ExportTable {
+    const resolved = { ...DEFAULT_EXPORT_OPTIONS, ...options };
+    const columns = this.buildColumns(schema.fields, resolved);
+
+    return {
+      headers: this.makeHeadersUnique(columns.map(column => column.header)),
+      rows: submissions.map(submission => columns.map(column => column.getValue(submission))),
+    };
+  }
+
+  /**
+   * Serialize a table as CSV following RFC 4180 (CRLF line breaks, quoted fields with doubled quotes).
+   * Text that a spreadsheet would run as a formula is prefixed with an apostrophe.
+   */
+  static toCSV(table: ExportTable): string {
+    const lines = [table.headers, ...table.rows].map(row =>
+      row.map(cell => this.escapeCSVField(this.protectFormula(cell))).join(',')
+    );
+    return lines.join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Serialize a table as a JSON array of objects keyed by column header
+   */
+  static toJSON(table: ExportTable): string {
+    const records = table.rows.map(row => {
+      const record: Record<string, ExportCell> = {};
+      table.headers.forEach((header, index) => {
+        record[header] = row[index];
+      });
+      return record;
+    });
+    return JSON.stringify(records, null, 2);
+  }
+
+  /**
+   * Serialize a table as an XML Spreadsheet 2003 document, which Excel and LibreOffice open natively.
+   * It is saved as .xml: Excel warns about files whose extension does not match their format.
+   */
+  static toSpreadsheetXML(table: ExportTable, sheetName = 'Responses'): string {
+    const renderRow = (row: ExportCell[]) =>
+      '   <Row>\n' +
+      row.map(cell => {
+        if (cell === null) {
+          return '    <Cell/>';
+        }
+        const type = typeof cell === 'number' ? 'Number' : typeof cell === 'boolean' ? 'Boolean' : 'String';
+        const value = typeof cell === 'boolean' ? (cell ? '1' : '0') : this.escapeXML(String(cell));
+        return `    <Cell><Data ss:Type="${type}">${value}</Data></Cell>`;
+      }).join('\n') +
+      '\n   </Row>';
+
+    // Worksheet names are limited to 31 characters and may not contain []:*?/\
+    const safeSheetName = this.escapeXML(sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Responses');
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<?mso-application progid="Excel.Sheet"?>',
+      '<Workbook xmlns="urn:schemas-microsoft-com:office:spreadsheet"',
+      ' xmlns:ss="urn:schemas-microsoft-com:office:spreadsheet">',
+      ` <Worksheet ss:Name="${safeSheetName}">`,
+      '  <Table>',
+      [table.headers, ...table.rows].map(renderRow).join('\n'),
+      '  </Table>',
+      ' </Worksheet>',
+      '</Workbook>',
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * Export submissions of a form in the requested format
+   */
+  static exportResponses(
+    schema: FormSchema,
+    submissions: FormSubmission[],
+    options: Partial<ResponseExportOptions> = {}
+  ): ExportFile {
+    const resolved = { ...DEFAULT_EXPORT_OPTIONS, ...options };
+    const table = this.buildTable(schema, submissions, resolved);
+    const baseName = this.getBaseFilename(schema.name);
+
+    switch (resolved.format) {
+      case 'json':
+        return {
+          content: this.toJSON(table),
+          mimeType: 'application/json',
+          filename: `${baseName}.json`,
+        };
+
+      case 'xml':
+        return {
+          content: this.toSpreadsheetXML(table, schema.name),
+          mimeType: 'application/xml',
+          filename: `${baseName}.xml`,
+        };
+
+      case 'csv':
+      default:
+        return {
+          // The byte order mark makes Excel detect UTF-8 instead of the system codepage
+          content: '\uFEFF' + this.toCSV(table),
+          mimeType: 'text/csv;charset=utf-8',
+          filename: `${baseName}.csv`,
+        };
+    }
+  }
+
+  /**
+   * Build the column list for the given fields and options
+   */
+  private static buildColumns(fields: FormField[], options: ResponseExportOptions): ExportColumn[] {
+    const columns: ExportColumn[] = [];
+
+    if (options.includeMetadata) {
+      columns.push(
+        { header: 'Response ID', getValue: submission => submission.id },
+        { header: 'Submitted At', getValue: submission => new Date(submission.submittedAt).toISOString() },
+        { header: 'Form Version', getValue: submission => submission.schemaVersion },
+      );
+    }
+
+    for (const field of fields) {
+      if (field.derivedFrom && !options.includeDerivedFields) {
+        continue;
+      }
+
+      const isCheckboxGroup = field.type === 'checkbox' && field.options && field.options.length > 0;
+
+      if (isCheckboxGroup && options.checkboxGroupMode === 'split') {
+        field.options!.forEach(option => {
+          columns.push({
+            header: `${field.label}: ${option}`,
+            getValue: submission => {
+              const value = submission.values[field.id];
+              return Array.isArray(value) ? value.includes(option) : false;
+            },
+          });
+        });
+        continue;
+      }
+
+      columns.push({
+        header: field.label,
+        getValue: submission => this.formatValue(field, submission.values[field.id], options),
+      });
+    }
+
+    return columns;
+  }
+
+  /**
+   * Convert a raw submitted value into an export cell
+   */
+  private static formatValue(field: FormField, value: unknown, options: ResponseExportOptions): ExportCell {
+    if (value === null || value === undefined || value === '') {
+      return field.type === 'checkbox' && !field.options?.length ? false : null;
+    }
+
+    if (Array.isArray(value)) {
+      return value.map(item => String(item)).join(options.joinSeparator ?? '; ');
+    }
+
+    switch (field.type) {
+      case 'checkbox':
+        return Boolean(value);
+
+      case 'number': {
+        const numeric = typeof value === 'number' ? value : Number(value);
+        return Number.isFinite(numeric) ? numeric : String(value);
+      }
+
+      case 'date':
+        return this.toISODate(value);
+
+      default:
+        if (value instanceof Date) {
+          return value.toISOString();
+        }
+        return typeof value === 'number' || typeof value === 'boolean' ? value : String(value);
+    }
+  }
+
+  /**
+   * Normalize a date value to an ISO 8601 calendar date (YYYY-MM-DD)
+   */
+  private static toISODate(value: unknown): ExportCell {
+    if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      return value; // already what <input type="date"> produces
+    }
+
+    const date = value instanceof Date ? value : new Date(value as string | number);
+    if (isNaN(date.getTime())) {
+      return String(value);
+    }
+    return date.toISOString().slice(0, 10);
+  }
+
+  /**
+   * Disambiguate duplicate headers (two fields may share a label). Numbered names skip those
+   * taken by other headers, so the labels "A", "A" and "A (2)" become "A", "A (3)" and "A (2)".
+   */
+  private static makeHeadersUnique(headers: string[]): string[] {
+    const taken = new Set(headers);
+    const used = new Set<string>();
+    return headers.map(header => {
+      let unique = header;
+      for (let count = 2; used.has(unique); count++) {
+        unique = `${header} (${count})`;
+        if (taken.has(unique) && !used.has(unique)) {
+          unique = header; // leave the name to the header that has it as its label
+        }
+      }
+      used.add(unique);
+      return unique;
+    });
+  }
+
+  private static cellToText(cell: ExportCell): string {
+    if (cell === null) {
+      return '';
+    }
+    return String(cell);
+  }
+
+  /**
+   * Text starting with =, +, -, @, a tab or a carriage return is run as a formula when the
+   * CSV is opened in a spreadsheet; the apostrophe makes it plain text
+   */
+  private static protectFormula(cell: ExportCell): string {
+    const text = this.cellToText(cell);
+    return typeof cell === 'string' && /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+  }
+
+  private static escapeCSVField(text: string): string {
+    if (/[",\r\n]/.test(text)) {
+      return `"${text.replace(/"/g, '""')}"`;
+    }
+    return text;
+  }
+
+  private static escapeXML(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/\r?\n/g, '&#10;');
+  }
+
+  private static getBaseFilename(formName: string): string {
+    const slug = formName.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'form';
+    return `${slug}-responses-${new Date().toISOString().slice(0, 10)}`;
+  }
+}
@@ -0,0 +1,118 @@
+import { LocalStorageService, type LocalStorageError } from './LocalStorageService';
+import { StorageMigrationService, type StorageMigration } from './StorageMigrationService';
+
+const legacyForm = {
+  id: 'form-1',
+  name: 'Survey',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  fields: [{ id: 'name', type: 'text', label: 'Name', required: false }],
+};
+
+// register() changes the shared list of steps; each test starts from the built-in ones
+const registry = StorageMigrationService as unknown as { migrations: StorageMigration[] };
+
+describe('StorageMigrationService', () => {
+  let builtInMigrations: StorageMigration[];
+
+  beforeEach(() => {
+    builtInMigrations = registry.migrations;
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    registry.migrations = builtInMigrations;
+  });
+
+  describe('migrate', () => {
+    it('upgrades legacy forms to the current version', () => {
+      const result = StorageMigrationService.migrate({ forms: { 'form-1': legacyForm } }, '1.0');
+
+      expect(result.version).toBe(StorageMigrationService.getCurrentVersion());
+      expect(result.appliedSteps).toEqual(['1.0 → 1.1: Add version and last-updated date to forms']);
+      expect(result.data.forms['form-1']).toMatchObject({ version: 1, updatedAt: legacyForm.createdAt });
+    });
+
+    it('leaves data at the current version unchanged', () => {
+      const data = { forms: { 'form-1': legacyForm } };
+      const result = StorageMigrationService.migrate(data, StorageMigrationService.getCurrentVersion());
+
+      expect(result.data).toBe(data);
+      expect(result.appliedSteps).toEqual([]);
+    });
+
+    it('runs registered steps in order', () => {
+      StorageMigrationService.register({
+        from: '1.1',
+        to: '1.2',
+        description: 'Rename forms',
+        migrate: data => ({
+          forms: Object.fromEntries(Object.entries(data.forms).map(([id, form]) => [id, { ...form, name: `${form.name}!` }])),
+        }),
+      });
+
+      const result = StorageMigrationService.migrate({ forms: { 'form-1': legacyForm } }, '1.0');
+
+      expect(result.version).toBe('1.2');
+      expect(result.appliedSteps).toHaveLength(2);
+      expect(result.data.forms['form-1']).toMatchObject({ name: 'Survey!', version: 1 });
+    });
+
+    it('rejects steps that do not continue from the current version', () => {
+      expect(() => StorageMigrationService.register({
+        from: '1.0',
+        to: '2.0',
+        description: 'Out of order',
+        migrate: data => data,
+      })).toThrow('Migration must start at version 1.1, got 1.0');
+    });
+
+    it('fails without an upgrade path, e.g. for data written by a newer version', () => {
+      expect(() => StorageMigrationService.migrate({ forms: {} }, '9.0'))
+        .toThrow('Storage migration failed: no upgrade path from version 9.0 to 1.1');
+    });
+
+    it('names the step that failed', () => {
+      StorageMigrationService.register({
+        from: '1.1',
+        to: '1.2',
+        description: 'Broken step',
+        migrate: () => {
+          throw new Error('boom');
+        },
+      });
+
+      expect(() => StorageMigrationService.migrate({ forms: {} }, '1.1'))
+        .toThrow('Storage migration failed at step 1.1 → 1.2 (Broken step): boom');
+    });
+  });
+
+  describe('loading stored forms', () => {
+    it('migrates legacy data on load and keeps a backup of it', () => {
+      const raw = JSON.stringify({ forms: { 'form-1': legacyForm } });
+      localStorage.setItem(LocalStorageService.STORAGE_KEY, raw);
+
+      const [form] = LocalStorageService.getForms();
+
+      expect(form.version).toBe(1);
+      expect(localStorage.getItem(LocalStorageService.VERSION_KEY)).toBe(StorageMigrationService.getCurrentVersion());
+      expect(localStorage.getItem('dynamic-form-builder-forms-backup-1.0')).toBe(raw);
+    });
+
+    it('reports data from a newer version as a failed migration and leaves it in place', () => {
+      const raw = JSON.stringify({ forms: { 'form-1': legacyForm } });
+      localStorage.setItem(LocalStorageService.STORAGE_KEY, raw);
+      localStorage.setItem(LocalStorageService.VERSION_KEY, '9.0');
+
+      let error: LocalStorageError | undefined;
+      try {
+        LocalStorageService.getForms();
+      } catch (thrown) {
+        error = thrown as LocalStorageError;
+      }
+
+      expect(error?.type).toBe('migration_failed');
+      expect(error?.message).toContain('dynamic-form-builder-forms-backup-9.0');
+      expect(localStorage.getItem(LocalStorageService.STORAGE_KEY)).toBe(raw);
+    });
+  });
+});
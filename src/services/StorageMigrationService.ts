@@ -0,0 +1,103 @@
+/**
+ * Shape of the persisted forms blob, before dates are revived
+ */
+export type StoredFormsData = { forms: Record<string, Record<string, unknown>> };
+
+export interface StorageMigration {
+  from: string;
+  to: string;
+  description: string;
+  migrate: (data: StoredFormsData) => StoredFormsData;
+}
+
+export interface MigrationResult {
+  data: StoredFormsData;
+  version: string;
+  appliedSteps: string[];
+}
+
+// Version written by releases that did not read the version back
+const BASE_VERSION = '1.0';
+
+export class StorageMigrationService {
+  /**
+   * Ordered upgrade steps; each step's `from` must equal the previous step's `to`
+   */
+  private static migrations: StorageMigration[] = [
+    {
+      from: '1.0',
+      to: '1.1',
+      description: 'Add version and last-updated date to forms',
+      migrate: data => ({
+        forms: Object.fromEntries(
+          Object.entries(data.forms).map(([id, form]) => [id, {
+            ...form,
+            version: typeof form.version === 'number' ? form.version : 1,
+            updatedAt: form.updatedAt ?? form.createdAt,
+            fields: Array.isArray(form.fields) ? form.fields : [],
+          }])
+        ),
+      }),
+    },
+  ];
+
+  /**
+   * Add an upgrade step. It must continue from the current latest version.
+   */
+  static register(migration: StorageMigration): void {
+    const current = this.getCurrentVersion();
+    if (migration.from !== current) {
+      throw new Error(`Migration must start at version ${current}, got ${migration.from}`);
+    }
+    this.migrations = [...this.migrations, migration];
+  }
+
+  /**
+   * The storage version written by this build
+   */
+  static getCurrentVersion(): string {
+    return this.migrations.length > 0
+      ? this.migrations[this.migrations.length - 1].to
+      : BASE_VERSION;
+  }
+
+  /**
+   * Whether data stored at the given version needs migrating before use
+   */
+  static needsMigration(storedVersion: string): boolean {
+    return storedVersion !== this.getCurrentVersion();
+  }
+
+  /**
+   * Run the upgrade steps from the stored version to the current one.
+   * Throws an Error whose message contains "migration failed" when no path exists or a step fails.
+   */
+  static migrate(data: StoredFormsData, fromVersion: string): MigrationResult {
+    const appliedSteps: string[] = [];
+    let version = fromVersion;
+    let current = data;
+
+    while (version !== this.getCurrentVersion()) {
+      const step = this.migrations.find(migration => migration.from === version);
+      if (!step) {
+        throw new Error(
+          `Storage migration failed: no upgrade path from version ${version} to ${this.getCurrentVersion()}`
+        );
+      }
+
+      try {
+        current = step.migrate(current);
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new Error(
+          `Storage migration failed at step ${step.from} → ${step.to} (${step.description}): ${reason}`
+        );
+      }
+
+      appliedSteps.push(`${step.from} → ${step.to}: ${step.description}`);
+      version = step.to;
+    }
+
+    return { data: current, version, appliedSteps };
+  }
+}
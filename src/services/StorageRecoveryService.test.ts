@@ -0,0 +1,129 @@
+import { LocalStorageService } from './LocalStorageService';
+import { MAX_QUARANTINE_RECORDS, StorageRecoveryService, type QuarantineRecord } from './StorageRecoveryService';
+
+const form = (id: string, name = 'Survey') => ({
+  id,
+  name,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  fields: [{ id: 'name', type: 'text', label: 'Name', required: false }],
+});
+
+const getQuarantine = (): QuarantineRecord[] =>
+  JSON.parse(localStorage.getItem(StorageRecoveryService.QUARANTINE_KEY) || '[]');
+
+describe('StorageRecoveryService', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('analyze', () => {
+    it('salvages the forms before a truncated entry', () => {
+      const intact = JSON.stringify({ forms: { a: form('a', 'First'), b: form('b', 'Second') } });
+      const truncated = intact.slice(0, intact.indexOf('"Second"') + 4);
+
+      const { forms, lost } = StorageRecoveryService.analyze(truncated);
+
+      expect(Object.keys(forms)).toEqual(['a']);
+      expect(lost).toHaveLength(1);
+      expect(lost[0]).toMatchObject({ key: 'b', reason: 'Data is truncated or not valid JSON' });
+    });
+
+    it('keeps reading after an entry that is not a valid form', () => {
+      const raw = JSON.stringify({ forms: { a: { id: 'a', name: 'No fields' }, b: form('b') } });
+
+      const { forms, lost } = StorageRecoveryService.analyze(raw);
+
+      expect(Object.keys(forms)).toEqual(['b']);
+      expect(lost.map(entry => entry.key)).toEqual(['a']);
+    });
+
+    it('reports the rest of the data as lost after a damaged key', () => {
+      const raw = `{"forms":{"a":${JSON.stringify(form('a'))},b:${JSON.stringify(form('b'))}}}`;
+
+      const { forms, lost } = StorageRecoveryService.analyze(raw);
+
+      expect(Object.keys(forms)).toEqual(['a']);
+      expect(lost).toHaveLength(1);
+      expect(lost[0].key).toBe('(unreadable)');
+      expect(lost[0].raw.startsWith('b:')).toBe(true);
+    });
+
+    it('handles braces and escaped quotes inside strings', () => {
+      const tricky = form('a', 'Braces } ] and "quotes" \\');
+      const raw = JSON.stringify({ forms: { a: tricky, b: form('b') } });
+
+      const { forms, lost } = StorageRecoveryService.analyze(raw);
+
+      expect(lost).toEqual([]);
+      expect((forms.a as { name: string }).name).toBe(tricky.name);
+      expect(Object.keys(forms)).toEqual(['a', 'b']);
+    });
+
+    it('reports everything as lost when there is no form list', () => {
+      const { forms, lost } = StorageRecoveryService.analyze('{"something":');
+
+      expect(forms).toEqual({});
+      expect(lost).toEqual([{ key: '(all forms)', reason: 'Form list not found in stored data', raw: '{"something":' }]);
+    });
+
+    it('gives salvaged forms without a valid creation date one', () => {
+      const raw = JSON.stringify({ forms: { a: { ...form('a'), createdAt: 'yesterday' } } });
+
+      const { forms } = StorageRecoveryService.analyze(raw);
+
+      expect(isNaN(new Date((forms.a as { createdAt: string }).createdAt).getTime())).toBe(false);
+    });
+  });
+
+  describe('recover', () => {
+    it('replaces the stored data with the readable forms and quarantines the original', () => {
+      const intact = JSON.stringify({ forms: { a: form('a', 'First'), b: form('b', 'Second') } });
+      const truncated = intact.slice(0, -20);
+      localStorage.setItem(LocalStorageService.STORAGE_KEY, truncated);
+
+      const report = StorageRecoveryService.recover();
+
+      expect(report.recovered).toEqual([{ id: 'a', name: 'First' }]);
+      expect(report.lost.map(entry => entry.key)).toEqual(['b']);
+      expect(LocalStorageService.getForms().map(saved => saved.id)).toEqual(['a']);
+      expect(getQuarantine()[0].originalData).toBe(truncated);
+    });
+  });
+
+  describe('quarantine', () => {
+    it('keeps only the most recent records', () => {
+      for (let i = 0; i < MAX_QUARANTINE_RECORDS + 2; i++) {
+        localStorage.setItem(LocalStorageService.STORAGE_KEY, JSON.stringify({ forms: { [`form-${i}`]: form(`form-${i}`) } }));
+        StorageRecoveryService.resetStorage();
+      }
+
+      const records = getQuarantine();
+      expect(records).toHaveLength(MAX_QUARANTINE_RECORDS);
+      expect(records[records.length - 1].originalData).toContain(`form-${MAX_QUARANTINE_RECORDS + 1}`);
+      expect(records[0].originalData).toContain('form-2');
+    });
+
+    it('keeps only the new record when storage is full', () => {
+      localStorage.setItem(StorageRecoveryService.QUARANTINE_KEY, JSON.stringify([
+        { quarantinedAt: '2024-01-01T00:00:00.000Z', reason: 'Old', originalData: 'x'.repeat(100), lostEntries: [] },
+      ]));
+      localStorage.setItem(LocalStorageService.STORAGE_KEY, '{"forms":{');
+
+      const setItem = Storage.prototype.setItem;
+      const spy = vi.spyOn(Storage.prototype, 'setItem').mockImplementation(function (this: Storage, key: string, value: string) {
+        if (key === StorageRecoveryService.QUARANTINE_KEY && value.includes('"Old"')) {
+          throw new DOMException('Quota exceeded', 'QuotaExceededError');
+        }
+        setItem.call(this, key, value);
+      });
+
+      try {
+        StorageRecoveryService.recover();
+      } finally {
+        spy.mockRestore();
+      }
+
+      expect(getQuarantine().map(record => record.reason)).toEqual(['Recovered from corrupted storage']);
+    });
+  });
+});
@@ -0,0 +1,255 @@
+import { LocalStorageService } from './LocalStorageService';
+import { FormSchemaValidator } from './FormSchemaValidator';
+
+export interface LostFormEntry {
+  key: string;
+  reason: string;
+  raw: string;
+}
+
+export interface RecoveryReport {
+  recovered: Array<{ id: string; name: string }>;
+  lost: LostFormEntry[];
+  quarantineKey: string;
+}
+
+export interface QuarantineRecord {
+  quarantinedAt: string;
+  reason: string;
+  originalData: string;
+  lostEntries: LostFormEntry[];
+}
+
+// Only the most recent quarantined copies are kept, as storage is often nearly full by then
+export const MAX_QUARANTINE_RECORDS = 3;
+
+interface RawEntry {
+  key: string;
+  text: string;
+}
+
+/**
+ * Read a JSON string literal starting at `start` (the opening quote). Returns the index after it.
+ */
+const skipString = (raw: string, start: number): number => {
+  let pos = start + 1;
+  while (pos < raw.length && raw[pos] !== '"') {
+    pos += raw[pos] === '\\' ? 2 : 1;
+  }
+  return pos + 1;
+};
+
+/**
+ * Read a JSON value starting at `start` without parsing it, by matching brackets outside strings.
+ * Stops at the end of input when the value is truncated.
+ */
+const skipValue = (raw: string, start: number): number => {
+  let depth = 0;
+  let pos = start;
+  while (pos < raw.length) {
+    const char = raw[pos];
+    if (char === '"') {
+      pos = skipString(raw, pos);
+      if (depth === 0) return pos;
+      continue;
+    }
+    if (char === '{' || char === '[') depth++;
+    if (char === '}' || char === ']') {
+      if (depth === 0) return pos;
+      depth--;
+      if (depth === 0) return pos + 1;
+    }
+    if (char === ',' && depth === 0) return pos;
+    pos++;
+  }
+  return pos;
+};
+
+/**
+ * Split the body of the stored `forms` object into its key/value texts, tolerating
+ * damage inside individual values
+ */
+const extractFormEntries = (raw: string): RawEntry[] | null => {
+  const match = /"forms"\s*:\s*\{/.exec(raw);
+  if (!match) {
+    return null;
+  }
+
+  const entries: RawEntry[] = [];
+  let pos = match.index + match[0].length;
+
+  while (pos < raw.length) {
+    while (pos < raw.length && /[\s,]/.test(raw[pos])) pos++;
+    if (pos >= raw.length || raw[pos] === '}') break;
+    if (raw[pos] !== '"') {
+      // Unreadable key: keep the rest of the blob as one lost entry
+      entries.push({ key: '(unreadable)', text: raw.slice(pos) });
+      break;
+    }
+
+    const keyEnd = skipString(raw, pos);
+    let key: string;
+    try {
+      key = JSON.parse(raw.slice(pos, keyEnd));
+    } catch {
+      key = raw.slice(pos + 1, keyEnd - 1);
+    }
+
+    pos = keyEnd;
+    while (pos < raw.length && /\s/.test(raw[pos])) pos++;
+    if (raw[pos] !== ':') {
+      entries.push({ key, text: raw.slice(keyEnd) });
+      break;
+    }
+    pos++;
+    while (pos < raw.length && /\s/.test(raw[pos])) pos++;
+
+    const valueEnd = skipValue(raw, pos);
+    entries.push({ key, text: raw.slice(pos, valueEnd) });
+    pos = valueEnd;
+  }
+
+  return entries;
+};
+
+/**
+ * Describe why a parsed entry is not a usable form, or return null if it is
+ */
+const getFormProblem = (value: unknown): string | null => {
+  const [error] = FormSchemaValidator.getErrors(FormSchemaValidator.validate(value));
+  return error ? error.message : null;
+};
+
+export class StorageRecoveryService {
+  static readonly QUARANTINE_KEY = 'dynamic-form-builder-quarantine';
+
+  /**
+   * Get the raw stored forms data exactly as it is in localStorage
+   */
+  static getRawData(): string | null {
+    try {
+      if (!LocalStorageService.isLocalStorageAvailable()) {
+        throw new Error('localStorage is not available');
+      }
+      return localStorage.getItem(LocalStorageService.STORAGE_KEY);
+    } catch (error) {
+      throw LocalStorageService.toStorageError(error);
+    }
+  }
+
+  /**
+   * Work out which forms of a damaged blob can be read, without changing storage
+   */
+  static analyze(raw: string): { forms: Record<string, unknown>; lost: LostFormEntry[] } {
+    const forms: Record<string, unknown> = {};
+    const lost: LostFormEntry[] = [];
+
+    const entries = extractFormEntries(raw);
+    if (!entries) {
+      return { forms, lost: [{ key: '(all forms)', reason: 'Form list not found in stored data', raw }] };
+    }
+
+    entries.forEach(({ key, text }) => {
+      let value: unknown;
+      try {
+        value = JSON.parse(text);
+      } catch {
+        lost.push({ key, reason: 'Data is truncated or not valid JSON', raw: text });
+        return;
+      }
+
+      const problem = getFormProblem(value);
+      if (problem) {
+        lost.push({ key, reason: problem, raw: text });
+        return;
+      }
+
+      const form = value as Record<string, unknown>;
+      if (typeof form.createdAt !== 'string' || isNaN(new Date(form.createdAt).getTime())) {
+        form.createdAt = new Date().toISOString();
+      }
+      forms[form.id as string] = form;
+    });
+
+    return { forms, lost };
+  }
+
+  /**
+   * Salvage every readable form, quarantine the original data and unreadable entries,
+   * and replace the stored data with the salvaged forms
+   */
+  static recover(): RecoveryReport {
+    try {
+      const raw = this.getRawData();
+      if (raw === null) {
+        return { recovered: [], lost: [], quarantineKey: this.QUARANTINE_KEY };
+      }
+
+      const { forms, lost } = this.analyze(raw);
+      this.quarantine(raw, 'Recovered from corrupted storage', lost);
+
+      localStorage.setItem(LocalStorageService.STORAGE_KEY, JSON.stringify({ forms }));
+
+      return {
+        recovered: Object.values(forms).map(form => {
+          const { id, name } = form as { id: string; name: string };
+          return { id, name };
+        }),
+        lost,
+        quarantineKey: this.QUARANTINE_KEY,
+      };
+    } catch (error) {
+      throw LocalStorageService.toStorageError(error);
+    }
+  }
+
+  /**
+   * Remove all stored forms, keeping a quarantined copy of the previous data
+   */
+  static resetStorage(): void {
+    try {
+      const raw = this.getRawData();
+      if (raw !== null) {
+        this.quarantine(raw, 'Storage reset by user', []);
+      }
+      LocalStorageService.clearAllForms();
+    } catch (error) {
+      throw LocalStorageService.toStorageError(error);
+    }
+  }
+
+  /**
+   * Append a record to the quarantine key so nothing is thrown away silently. Only the last
+   * MAX_QUARANTINE_RECORDS records are kept, and only the new one when storage is full.
+   */
+  private static quarantine(originalData: string, reason: string, lostEntries: LostFormEntry[]): void {
+    let records: QuarantineRecord[] = [];
+    try {
+      const existing = localStorage.getItem(this.QUARANTINE_KEY);
+      const parsed = existing ? JSON.parse(existing) : [];
+      records = Array.isArray(parsed) ? parsed : [];
+    } catch {
+      // A damaged quarantine is replaced rather than blocking recovery
+      records = [];
+    }
+
+    const record: QuarantineRecord = { quarantinedAt: new Date().toISOString(), reason, originalData, lostEntries };
+    const isQuotaError = (error: unknown) =>
+      error instanceof DOMException && (error.name === 'QuotaExceededError' || error.code === 22);
+    try {
+      localStorage.setItem(this.QUARANTINE_KEY, JSON.stringify([...records, record].slice(-MAX_QUARANTINE_RECORDS)));
+    } catch (error) {
+      if (!isQuotaError(error)) {
+        throw error;
+      }
+      try {
+        localStorage.setItem(this.QUARANTINE_KEY, JSON.stringify([record]));
+      } catch (retryError) {
+        if (isQuotaError(retryError)) {
+          throw new Error('Storage quota exceeded while quarantining data; download the raw data and reset storage instead');
+        }
+        throw retryError;
+      }
+    }
+  }
+}
@@ -0,0 +1,89 @@
+import type { FormSubmission } from '../types';
+import { LocalStorageStore } from './LocalStorageStore';
+
+export class SubmissionStorageService {
+  // Submissions grouped by form ID
+  private static readonly store = new LocalStorageStore<'submissions', FormSubmission[]>(
+    'dynamic-form-builder-submissions',
+    'submissions',
+    list => list.forEach(submission => {
+      if (typeof submission.submittedAt === 'string') {
+        submission.submittedAt = new Date(submission.submittedAt);
+      }
+    })
+  );
+
+  /**
+   * Record a submitted values map for a form
+   */
+  static saveSubmission(formId: string, values: Record<string, unknown>, schemaVersion = 1): FormSubmission {
+    const submission: FormSubmission = {
+      id: `submission-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      formId,
+      values: { ...values },
+      submittedAt: new Date(),
+      schemaVersion,
+    };
+    this.store.update(submissions => {
+      submissions[formId] = [...(submissions[formId] || []), submission];
+    });
+    return submission;
+  }
+
+  /**
+   * Retrieve all submissions of a form, newest first
+   */
+  static getSubmissions(formId: string): FormSubmission[] {
+    return [...(this.store.read()[formId] || [])].sort((a, b) =>
+      new Date(b.submittedAt).getTime() - new Date(a.submittedAt).getTime()
+    );
+  }
+
+  /**
+   * Get the number of stored submissions per form ID
+   */
+  static getSubmissionCounts(): Record<string, number> {
+    const counts: Record<string, number> = {};
+    Object.entries(this.store.read()).forEach(([formId, list]) => {
+      counts[formId] = list.length;
+    });
+    return counts;
+  }
+
+  /**
+   * Delete the given submissions of a form
+   */
+  static deleteSubmissions(formId: string, submissionIds: string[]): void {
+    const submissions = this.store.read();
+    const existing = submissions[formId];
+    if (!existing) {
+      return;
+    }
+
+    const remaining = existing.filter(submission => !submissionIds.includes(submission.id));
+    if (remaining.length > 0) {
+      submissions[formId] = remaining;
+    } else {
+      delete submissions[formId];
+    }
+    this.store.write(submissions);
+  }
+
+  /**
+   * Delete every submission of a form
+   */
+  static clearSubmissions(formId: string): void {
+    const submissions = this.store.read();
+    if (submissions[formId]) {
+      delete submissions[formId];
+      this.store.write(submissions);
+    }
+  }
+
+  /**
+   * Clear all submissions of all forms from localStorage
+   */
+  static clearAllSubmissions(): void {
+    this.store.clear();
+  }
+}
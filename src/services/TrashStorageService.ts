@@ -0,0 +1,55 @@
+import type { TrashedForm } from '../types';
+import { LocalStorageStore } from './LocalStorageStore';
+
+const STORAGE_KEY = 'dynamic-form-builder-trash';
+
+/**
+ * Trashed forms of the localStorage backend, keyed by the id of the trash entry
+ */
+export class TrashStorageService {
+  static readonly STORAGE_KEY = STORAGE_KEY;
+
+  private static readonly store = new LocalStorageStore<'trash', TrashedForm>(STORAGE_KEY, 'trash', item => {
+    // Entries trashed before they had their own id were keyed by form ID
+    item.id = item.id || item.form.id;
+    item.deletedAt = new Date(item.deletedAt);
+    item.form.createdAt = new Date(item.form.createdAt);
+    if (item.form.updatedAt) {
+      item.form.updatedAt = new Date(item.form.updatedAt);
+    }
+  });
+
+  /**
+   * Retrieve all trashed forms
+   */
+  static getTrashedForms(): TrashedForm[] {
+    return Object.values(this.store.read());
+  }
+
+  /**
+   * Store a trashed form, replacing the entry with the same id
+   */
+  static saveTrashedForm(item: TrashedForm): void {
+    this.store.update(trash => {
+      trash[item.id] = item;
+    });
+  }
+
+  /**
+   * Remove entries from the trash
+   */
+  static deleteTrashedForms(ids: string[]): void {
+    this.store.update(trash => {
+      ids.forEach(id => {
+        delete trash[id];
+      });
+    });
+  }
+
+  /**
+   * Remove the whole trash from localStorage
+   */
+  static clearTrash(): void {
+    this.store.clear();
+  }
+}
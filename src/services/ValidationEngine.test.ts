@@ -0,0 +1,91 @@
+import type { CrossFieldOperator, CrossFieldRule, FormField, FormSchema, ValidationRule } from '../types';
+import { ValidationEngine } from './ValidationEngine';
+
+const createField = (id: string, type: FormField['type']): FormField => ({
+  id,
+  type,
+  label: id,
+  required: false,
+});
+
+const createRule = (operator: CrossFieldOperator): CrossFieldRule => ({
+  id: 'rule-1',
+  fieldId: 'a',
+  operator,
+  otherFieldId: 'b',
+  message: '',
+});
+
+const isMet = (type: FormField['type'], operator: CrossFieldOperator, a: unknown, b: unknown) =>
+  ValidationEngine.isCrossFieldRuleMet(createRule(operator), { a, b }, [createField('a', type), createField('b', type)]);
+
+describe('ValidationEngine.isCrossFieldRuleMet', () => {
+  it('compares text fields as exact text', () => {
+    expect(isMet('text', 'equals', 'Secret!', 'Secret!')).toBe(true);
+    expect(isMet('text', 'equals', '2024-01-01Secret!', '2024-01-01Other?')).toBe(false);
+    expect(isMet('text', 'equals', '0x10', '16')).toBe(false);
+    expect(isMet('text', 'equals', '007', '7')).toBe(false);
+    expect(isMet('textarea', 'equals', '1e1', '10')).toBe(false);
+    expect(isMet('text', 'notEquals', '007', '7')).toBe(true);
+  });
+
+  it('compares text when the field is unknown', () => {
+    expect(ValidationEngine.isCrossFieldRuleMet(createRule('equals'), { a: '007', b: '7' })).toBe(false);
+  });
+
+  it('compares date fields by calendar day', () => {
+    expect(isMet('date', 'equals', '2024-01-01', '2024-01-01T12:00:00')).toBe(true);
+    expect(isMet('date', 'greaterThan', '2024-02-01', '2024-01-31')).toBe(true);
+    expect(isMet('date', 'lessThan', '2024-02-01', '2024-01-31')).toBe(false);
+  });
+
+  it('compares number fields numerically', () => {
+    expect(isMet('number', 'equals', '10', 10)).toBe(true);
+    expect(isMet('number', 'greaterThan', '9', '10')).toBe(false);
+    expect(isMet('number', 'lessThanOrEqual', '9.5', '10')).toBe(true);
+  });
+
+  it('leaves empty fields and values without an order to the fields own rules', () => {
+    expect(isMet('text', 'equals', '', 'x')).toBe(true);
+    expect(isMet('text', 'equals', 'x', '')).toBe(false);
+    expect(isMet('number', 'greaterThan', 'abc', '10')).toBe(true);
+  });
+});
+
+describe('ValidationEngine password policies', () => {
+  const passwordRule: ValidationRule = {
+    type: 'customPassword',
+    message: 'Password must meet the required criteria',
+    policy: { minLength: 0, requireUppercase: false, requireLowercase: false, requireDigit: false, requireSymbol: false, notContainingFieldId: 'email' },
+  };
+  const schema: FormSchema = {
+    id: 'form-1',
+    name: 'Sign up',
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    fields: [
+      { ...createField('email', 'text'), label: 'Email Address' },
+      { ...createField('password', 'text'), label: 'Password', validation: [passwordRule] },
+    ],
+  };
+
+  it('names the field the password may not contain', () => {
+    const result = ValidationEngine.validateForm({ email: 'jane', password: 'jane-secret' }, schema);
+
+    expect(result.fieldErrors.password).toEqual([
+      'Password must meet the required criteria: does not contain the Email Address',
+    ]);
+  });
+
+  it('checks the other field in enhanced error messages', () => {
+    const values = { email: 'jane' };
+    const failing = ValidationEngine.getEnhancedErrorMessage(
+      'customPassword', 'Password', 'jane-secret', undefined, passwordRule.policy, values, schema.fields
+    );
+    const passing = ValidationEngine.getEnhancedErrorMessage(
+      'customPassword', 'Password', 'other-secret', undefined, passwordRule.policy, values, schema.fields
+    );
+
+    expect(failing.suggestion).toBe('Missing: does not contain the email address');
+    expect(passing.severity).toBe('info');
+  });
+});
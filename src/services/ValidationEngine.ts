@@ -1,14 +1,58 @@
-import type { ValidationRule, ValidationResult, FormValidationResult, FormSchema } from '../types';
+import type {
+  ValidationRule,
+  ValidationResult,
+  FormValidationResult,
+  FormSchema,
+  FormField,
+  CrossFieldRule,
+  CrossFieldOperator,
+  PasswordPolicy,
+} from '../types';
+import { ConditionEvaluator } from './ConditionEvaluator';
+import { MAX_PATTERN_VALUE_LENGTH, PatternRuleService } from './PatternRuleService';
+import { DateRuleService } from './DateRuleService';
+import { PasswordPolicyService } from './PasswordPolicyService';
+
+/**
+ * HTML attributes for a number input, matching its numeric validation rules
+ */
+export interface NumberInputAttributes {
+  min?: number;
+  max?: number;
+  step?: number | 'any';
+}
+
+const NUMBER_RULE_TYPES: ValidationRule['type'][] = ['min', 'max', 'integer', 'step', 'decimalPlaces', 'positive', 'negative'];
+const DATE_RULE_TYPES: ValidationRule['type'][] = ['minDate', 'maxDate', 'noWeekends', 'afterField'];
+
+// Tolerance for floating point error when checking steps, e.g. 0.3 / 0.1
+const STEP_EPSILON = 1e-9;
+
+/**
+ * Number of digits after the decimal point, including numbers written in exponent notation
+ */
+const countDecimalPlaces = (value: number): number => {
+  const [mantissa, exponent = '0'] = String(value).toLowerCase().split('e');
+  const fraction = mantissa.split('.')[1] || '';
+  return Math.max(0, fraction.length - Number(exponent));
+};
 
 export class ValidationEngine {
   /**
-   * Validate a single field value against its validation rules
+   * Validate a single field value against its validation rules.
+   * The other form values are needed by rules that compare fields, like "afterField", and the
+   * form's fields by messages that name another field.
    */
-  static validateField(value: any, rules: ValidationRule[] = []): ValidationResult {
+  static validateField(
+    value: any,
+    rules: ValidationRule[] = [],
+    values: Record<string, unknown> = {},
+    fields: FormField[] = []
+  ): ValidationResult {
     const errors: string[] = [];
 
     for (const rule of rules) {
-      const error = this.validateSingleRule(value, rule);
+      const error = this.validateSingleRule(value, rule, rules, values, fields);
       if (error) {
         errors.push(error);
       }
@@ -21,13 +65,19 @@ export class ValidationEngine {
   }
 
   /**
-   * Validate an entire form against its schema
+   * Validate an entire form against its schema, including its cross-field rules.
+   * Fields hidden by their visibility conditions are skipped.
    */
   static validateForm(values: Record<string, any>, schema: FormSchema): FormValidationResult {
     const fieldErrors: Record<string, string[]> = {};
     let isValid = true;
+    const visibleFieldIds = ConditionEvaluator.getVisibleFieldIds(schema, values);
 
     for (const field of schema.fields) {
+      if (!visibleFieldIds.has(field.id)) {
+        continue;
+      }
+
       const fieldValue = values[field.id];
       const rules = field.validation || [];
       
@@ -44,7 +94,7 @@ export class ValidationEngine {
         }
       }
 
-      const result = this.validateField(fieldValue, rules);
+      const result = this.validateField(fieldValue, rules, values, schema.fields);
       
       if (!result.isValid) {
         fieldErrors[field.id] = result.errors;
@@ -52,6 +102,28 @@ export class ValidationEngine {
       }
     }
 
+    // Cross-field rules only apply while both fields are shown
+    for (const rule of schema.crossFieldRules || []) {
+      if (!visibleFieldIds.has(rule.fieldId) || !visibleFieldIds.has(rule.otherFieldId)) {
+        continue;
+      }
+
+      if (!this.isCrossFieldRuleMet(rule, values, schema.fields)) {
+        const [field, other] = [rule.fieldId, rule.otherFieldId].map(id => schema.fields.find(f => f.id === id));
+        const error = (rule.message || '').trim() || this.getCrossFieldRuleMessage(
+          rule.operator,
+          field?.label || rule.fieldId,
+          other?.label || rule.otherFieldId,
+          field?.type === 'date'
+        );
+        const errors = fieldErrors[rule.fieldId] || [];
+        if (!errors.includes(error)) {
+          fieldErrors[rule.fieldId] = [...errors, error];
+        }
+        isValid = false;
+      }
+    }
+
     return {
       isValid,
       fieldErrors
@@ -59,9 +131,131 @@ export class ValidationEngine {
   }
 
   /**
-   * Validate a single value against a single rule
+   * Check a cross-field rule against the form values.
+   * An empty field is left to its required setting, and ordering rules wait until both fields
+   * have values; "equals" fails while the other field is still empty. Values are compared
+   * according to the type of the rule's field, which is text when the field is not given.
+   */
+  static isCrossFieldRuleMet(
+    rule: CrossFieldRule,
+    values: Record<string, unknown>,
+    fields: FormField[] = []
+  ): boolean {
+    const value = values[rule.fieldId];
+    const other = values[rule.otherFieldId];
+    const type = fields.find(f => f.id === rule.fieldId)?.type;
+    const isBlank = (item: unknown) => item === null || item === undefined || item === '';
+
+    if (isBlank(value)) {
+      return true;
+    }
+
+    if (rule.operator === 'equals' || rule.operator === 'notEquals') {
+      const same = !isBlank(other) && this.compareFieldValues(value, other, type) === 0;
+      return same === (rule.operator === 'equals');
+    }
+
+    if (isBlank(other)) {
+      return true;
+    }
+    const comparison = this.compareFieldValues(value, other, type);
+    if (comparison === null) {
+      return true; // Values that cannot be ordered are left to the fields' own rules
+    }
+
+    switch (rule.operator) {
+      case 'greaterThan':
+        return comparison > 0;
+      case 'greaterThanOrEqual':
+        return comparison >= 0;
+      case 'lessThan':
+        return comparison < 0;
+      case 'lessThanOrEqual':
+        return comparison <= 0;
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * Describe a cross-field operator, e.g. "is after" for dates or "is greater than" for numbers
+   */
+  static getCrossFieldOperatorLabel(operator: CrossFieldOperator, isDate = false): string {
+    switch (operator) {
+      case 'equals':
+        return 'matches';
+      case 'notEquals':
+        return 'is different from';
+      case 'greaterThan':
+        return isDate ? 'is after' : 'is greater than';
+      case 'greaterThanOrEqual':
+        return isDate ? 'is on or after' : 'is at least';
+      case 'lessThan':
+        return isDate ? 'is before' : 'is less than';
+      case 'lessThanOrEqual':
+        return isDate ? 'is on or before' : 'is at most';
+      default:
+        return operator;
+    }
+  }
+
+  /**
+   * Default error message for a cross-field rule, e.g. "End Date must be after Start Date"
    */
-  private static validateSingleRule(value: any, rule: ValidationRule): string | null {
+  static getCrossFieldRuleMessage(
+    operator: CrossFieldOperator,
+    fieldLabel: string,
+    otherLabel: string,
+    isDate = false
+  ): string {
+    if (operator === 'equals') {
+      return `${fieldLabel} must match ${otherLabel}`;
+    }
+    const label = this.getCrossFieldOperatorLabel(operator, isDate).replace(/^is /, '');
+    return `${fieldLabel} must be ${label} ${otherLabel}`;
+  }
+
+  /**
+   * Compare two field values by the type of the field: date fields by calendar day, number
+   * fields numerically and any other field as exact text. Returns a negative number, 0 or a
+   * positive number, or null when the values have no order.
+   */
+  private static compareFieldValues(a: unknown, b: unknown, type?: FormField['type']): number | null {
+    if (type === 'date') {
+      const dateA = DateRuleService.toDateString(a);
+      const dateB = DateRuleService.toDateString(b);
+      return dateA && dateB ? dateA.localeCompare(dateB) : null;
+    }
+
+    if (type === 'number') {
+      const numberA = this.toNumber(a);
+      const numberB = this.toNumber(b);
+      return numberA !== null && numberB !== null && !isNaN(numberA) && !isNaN(numberB)
+        ? numberA - numberB
+        : null;
+    }
+
+    return String(a) === String(b) ? 0 : null;
+  }
+
+  /**
+   * Validate a single value against a single rule. The other rules of the field are
+   * passed along for rules that depend on them, like the base of a step.
+   */
+  private static validateSingleRule(
+    value: any,
+    rule: ValidationRule,
+    rules: ValidationRule[] = [],
+    values: Record<string, unknown> = {},
+    fields: FormField[] = []
+  ): string | null {
+    if (NUMBER_RULE_TYPES.includes(rule.type)) {
+      return this.validateNumberRule(value, rule, rules);
+    }
+    if (DATE_RULE_TYPES.includes(rule.type)) {
+      return this.validateDateRule(value, rule, values);
+    }
+
     switch (rule.type) {
       case 'notEmpty':
         return this.validateNotEmpty(value, rule.message);
@@ -76,7 +270,10 @@ export class ValidationEngine {
         return this.validateEmail(value, rule.message);
       
       case 'customPassword':
-        return this.validateCustomPassword(value, rule.message);
+        return this.validateCustomPassword(value, rule, values, fields);
+
+      case 'pattern':
+        return this.validatePattern(value, String(rule.value ?? ''), rule.flags, rule.message);
       
       default:
         return null;
@@ -157,48 +354,174 @@ export class ValidationEngine {
   }
 
   /**
-   * Validate custom password requirements
-   * Password must contain at least 8 characters, one uppercase, one lowercase, one number, and one special character
+   * Validate that a value matches a regular expression. Invalid or unsafe patterns are
+   * skipped rather than failing every value; the builder does not let authors save them.
    */
-  private static validateCustomPassword(value: any, message: string): string | null {
+  private static validatePattern(value: unknown, pattern: string, flags: string | undefined, message: string): string | null {
     if (value === null || value === undefined || value === '') {
       return null; // Let notEmpty handle empty values
     }
 
-    const stringValue = String(value);
-    
-    // Check minimum length
-    if (stringValue.length < 8) {
-      return message;
+    const text = String(value);
+    if (text.length > MAX_PATTERN_VALUE_LENGTH && PatternRuleService.compile(pattern, flags)) {
+      return `Must be at most ${MAX_PATTERN_VALUE_LENGTH} characters`;
     }
+    const matches = PatternRuleService.test(text, pattern, flags);
+    return matches === false ? message : null;
+  }
 
-    // Check for at least one uppercase letter
-    if (!/[A-Z]/.test(stringValue)) {
-      return message;
+  /**
+   * Read a number field value. Empty values are null; anything that is not a finite number is NaN.
+   */
+  static toNumber(value: unknown): number | null {
+    if (value === null || value === undefined || (typeof value === 'string' && value.trim() === '')) {
+      return null;
     }
+    const number = typeof value === 'number' ? value : typeof value === 'string' ? Number(value.trim()) : NaN;
+    return Number.isFinite(number) ? number : NaN;
+  }
 
-    // Check for at least one lowercase letter
-    if (!/[a-z]/.test(stringValue)) {
-      return message;
+  /**
+   * Attributes for a number input so that the browser's spinner and constraints agree with the rules.
+   * A step counts from the minimum, as in the browser; "positive" and "negative" become a minimum or
+   * maximum of one step when a step is known.
+   */
+  static getNumberInputAttributes(rules: ValidationRule[] = []): NumberInputAttributes {
+    const ruleValue = (type: ValidationRule['type']): number | undefined => {
+      const rule = rules.find(r => r.type === type);
+      return rule && typeof rule.value === 'number' && Number.isFinite(rule.value) ? rule.value : undefined;
+    };
+    const hasRule = (type: ValidationRule['type']) => rules.some(r => r.type === type);
+
+    const decimalPlaces = ruleValue('decimalPlaces');
+    const step = ruleValue('step') ??
+      (hasRule('integer') || decimalPlaces === 0 ? 1 : decimalPlaces !== undefined ? Math.pow(10, -decimalPlaces) : undefined);
+
+    return {
+      min: ruleValue('min') ?? (hasRule('positive') ? step : undefined),
+      max: ruleValue('max') ?? (hasRule('negative') && step !== undefined ? -step : undefined),
+      step: step ?? 'any',
+    };
+  }
+
+  /**
+   * Validate a number field rule. Values that are not numbers fail every numeric rule.
+   */
+  private static validateNumberRule(value: unknown, rule: ValidationRule, rules: ValidationRule[]): string | null {
+    const number = this.toNumber(value);
+    if (number === null) {
+      return null; // Let notEmpty handle empty values
+    }
+    if (isNaN(number)) {
+      return rule.message;
     }
 
-    // Check for at least one number
-    if (!/\d/.test(stringValue)) {
-      return message;
+    const limit = typeof rule.value === 'number' ? rule.value : Number(rule.value);
+
+    switch (rule.type) {
+      case 'min':
+        return number < limit ? rule.message : null;
+
+      case 'max':
+        return number > limit ? rule.message : null;
+
+      case 'integer':
+        return Number.isInteger(number) ? null : rule.message;
+
+      case 'positive':
+        return number > 0 ? null : rule.message;
+
+      case 'negative':
+        return number < 0 ? null : rule.message;
+
+      case 'decimalPlaces':
+        return countDecimalPlaces(number) > limit ? rule.message : null;
+
+      case 'step': {
+        if (!(limit > 0)) {
+          return null;
+        }
+        const base = this.getNumberInputAttributes(rules).min ?? 0;
+        const steps = (number - base) / limit;
+        return Math.abs(steps - Math.round(steps)) < STEP_EPSILON ? null : rule.message;
+      }
+
+      default:
+        return null;
     }
+  }
 
-    // Check for at least one special character
-    if (!/[!@#$%^&*()_+\-=\[\]{};':"\\|,.<>\/?]/.test(stringValue)) {
-      return message;
+  /**
+   * Validate a date field rule against the calendar day of the value.
+   * Values that are not dates fail every date rule; unusable bounds are ignored.
+   */
+  private static validateDateRule(value: unknown, rule: ValidationRule, values: Record<string, unknown>): string | null {
+    if (value === null || value === undefined || value === '') {
+      return null; // Let notEmpty handle empty values
+    }
+    const date = DateRuleService.toDateString(value);
+    if (!date) {
+      return rule.message;
     }
 
-    return null;
+    const bound = typeof rule.value === 'string' ? rule.value : '';
+
+    switch (rule.type) {
+      case 'minDate': {
+        const min = DateRuleService.resolveBound(bound);
+        return min && date < min ? rule.message : null;
+      }
+
+      case 'maxDate': {
+        const max = DateRuleService.resolveBound(bound);
+        return max && date > max ? rule.message : null;
+      }
+
+      case 'noWeekends':
+        return DateRuleService.isWeekend(date) ? rule.message : null;
+
+      case 'afterField': {
+        // Nothing to compare with until the other field has a date
+        const other = DateRuleService.toDateString(values[bound]);
+        return other && date <= other ? rule.message : null;
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Validate a password against the rule's policy. The error lists the requirements that
+   * failed, e.g. "Password must meet the required criteria: a number; a symbol (e.g. ! ? # @)".
+   */
+  private static validateCustomPassword(
+    value: unknown,
+    rule: ValidationRule,
+    values: Record<string, unknown>,
+    fields: FormField[]
+  ): string | null {
+    if (value === null || value === undefined || value === '') {
+      return null; // Let notEmpty handle empty values
+    }
+
+    const failed = PasswordPolicyService.getFailedRequirements(String(value), rule.policy, values, fields);
+    if (failed.length === 0) {
+      return null;
+    }
+    const labels = failed.map(requirement => requirement.label.charAt(0).toLowerCase() + requirement.label.slice(1));
+    return `${rule.message}: ${labels.join('; ')}`;
   }
 
   /**
    * Get default error message for a validation rule type
    */
-  static getDefaultErrorMessage(ruleType: ValidationRule['type'], fieldLabel: string, value?: number | string): string {
+  static getDefaultErrorMessage(
+    ruleType: ValidationRule['type'],
+    fieldLabel: string,
+    value?: number | string,
+    policy?: PasswordPolicy
+  ): string {
     switch (ruleType) {
       case 'notEmpty':
         return `${fieldLabel} is required`;
@@ -213,7 +536,43 @@ export class ValidationEngine {
         return `${fieldLabel} must be a valid email address`;
       
       case 'customPassword':
-        return `${fieldLabel} must contain at least 8 characters, one uppercase letter, one lowercase letter, one number, and one special character`;
+        return `${fieldLabel} must contain ${PasswordPolicyService.describe(policy)}`;
+
+      case 'pattern':
+        return `${fieldLabel} is not in the expected format`;
+
+      case 'min':
+        return `${fieldLabel} must be at least ${value}`;
+
+      case 'max':
+        return `${fieldLabel} must be at most ${value}`;
+
+      case 'integer':
+        return `${fieldLabel} must be a whole number`;
+
+      case 'step':
+        return `${fieldLabel} must go up in steps of ${value}`;
+
+      case 'decimalPlaces':
+        return `${fieldLabel} must have no more than ${value} decimal place${value === 1 ? '' : 's'}`;
+
+      case 'positive':
+        return `${fieldLabel} must be greater than 0`;
+
+      case 'negative':
+        return `${fieldLabel} must be less than 0`;
+
+      case 'minDate':
+        return `${fieldLabel} must be on or after ${DateRuleService.describeBound(String(value ?? ''))}`;
+
+      case 'maxDate':
+        return `${fieldLabel} must be on or before ${DateRuleService.describeBound(String(value ?? ''))}`;
+
+      case 'noWeekends':
+        return `${fieldLabel} must be a weekday`;
+
+      case 'afterField':
+        return `${fieldLabel} must be after the other date`;
       
       default:
         return `${fieldLabel} is invalid`;
@@ -223,7 +582,7 @@ export class ValidationEngine {
   /**
    * Get contextual help text for validation rules
    */
-  static getValidationHelpText(ruleType: ValidationRule['type'], value?: number | string): string {
+  static getValidationHelpText(ruleType: ValidationRule['type'], value?: number | string, policy?: PasswordPolicy): string {
     switch (ruleType) {
       case 'notEmpty':
         return 'This field cannot be left empty';
@@ -238,7 +597,43 @@ export class ValidationEngine {
         return 'Use format: example@domain.com';
       
       case 'customPassword':
-        return 'Include: 8+ chars, uppercase, lowercase, number, and special character (!@#$%^&*)';
+        return `Include ${PasswordPolicyService.describe(policy)}`;
+
+      case 'pattern':
+        return 'Enter a value in the expected format';
+
+      case 'min':
+        return `Enter ${value} or more`;
+
+      case 'max':
+        return `Enter ${value} or less`;
+
+      case 'integer':
+        return 'Enter a whole number';
+
+      case 'step':
+        return `Use steps of ${value}`;
+
+      case 'decimalPlaces':
+        return `Use up to ${value} decimal place${value === 1 ? '' : 's'}`;
+
+      case 'positive':
+        return 'Enter a number greater than 0';
+
+      case 'negative':
+        return 'Enter a number less than 0';
+
+      case 'minDate':
+        return `Pick a date on or after ${DateRuleService.describeBound(String(value ?? ''))}`;
+
+      case 'maxDate':
+        return `Pick a date on or before ${DateRuleService.describeBound(String(value ?? ''))}`;
+
+      case 'noWeekends':
+        return 'Pick a day from Monday to Friday';
+
+      case 'afterField':
+        return 'Pick a later date';
       
       default:
         return 'Please check your input';
@@ -246,13 +641,17 @@ export class ValidationEngine {
   }
 
   /**
-   * Get enhanced error message with context and suggestions
+   * Get enhanced error message with context and suggestions. The other form values and the
+   * form's fields are needed by password policies that refer to another field.
    */
   static getEnhancedErrorMessage(
     ruleType: ValidationRule['type'], 
     fieldLabel: string, 
     currentValue: any, 
-    ruleValue?: number | string
+    ruleValue?: number | string,
+    policy?: PasswordPolicy,
+    values: Record<string, unknown> = {},
+    fields: FormField[] = []
   ): { message: string; suggestion: string; severity: 'error' | 'warning' | 'info' } {
     const currentLength = currentValue ? String(currentValue).length : 0;
     
@@ -293,16 +692,10 @@ export class ValidationEngine {
           severity: 'error'
         };
       
-      case 'customPassword':
-        const password = String(currentValue || '');
-        const issues = [];
-        
-        if (password.length < 8) issues.push('at least 8 characters');
-        if (!/[A-Z]/.test(password)) issues.push('one uppercase letter');
-        if (!/[a-z]/.test(password)) issues.push('one lowercase letter');
-        if (!/\d/.test(password)) issues.push('one number');
-        if (!/[!@#$%^&*()_+\-=\[\]{};':"\\|,.<>\/?]/.test(password)) issues.push('one special character');
-        
+      case 'customPassword': {
+        const issues = PasswordPolicyService.getFailedRequirements(String(currentValue || ''), policy, values, fields)
+          .map(requirement => requirement.label.toLowerCase());
+
         return {
           message: `${fieldLabel} must meet security requirements`,
           suggestion: issues.length > 0 
@@ -310,6 +703,14 @@ export class ValidationEngine {
             : 'Password meets all requirements',
           severity: issues.length > 0 ? 'error' : 'info'
         };
+      }
+
+      case 'pattern':
+        return {
+          message: `${fieldLabel} is not in the expected format`,
+          suggestion: 'Check the format described in the field instructions',
+          severity: 'error'
+        };
       
       default:
         return {
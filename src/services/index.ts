@@ -1,6 +1,29 @@
 export * from './LocalStorageService';
+export * from './StorageMigrationService';
+export * from './StorageRecoveryService';
+export * from './FormSchemaValidator';
+export * from './FormRepository';
+export * from './LocalStorageFormRepository';
+export * from './IndexedDBFormRepository';
+export * from './FormSyncService';
+export * from './SubmissionStorageService';
+export * from './DraftStorageService';
+export * from './TrashStorageService';
 export * from './ValidationEngine';
+export * from './PatternRuleService';
+export * from './DateRuleService';
+export * from './PasswordPolicyService';
 export * from './DerivedFieldCalculator';
+export * from './ExpressionEngine';
+export * from './ExpressionFunctions';
+export * from './ConditionEvaluator';
+export * from './FormPageService';
+export * from './ResponseExportService';
+export * from './FormBundleService';
+export * from './FormQueryService';
+export * from './FormOrganizerService';
+export * from './FormCloneService';
+export * from './FormTrashService';
 
 // Explicitly export types that might not be picked up by export *
 export type { LocalStorageError } from './LocalStorageService';
\ No newline at end of file
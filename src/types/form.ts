@@ -1,12 +1,72 @@
 export interface ValidationRule {
-  type: 'notEmpty' | 'minLength' | 'maxLength' | 'email' | 'customPassword';
+  type:
+    | 'notEmpty'
+    | 'minLength'
+    | 'maxLength'
+    | 'email'
+    | 'customPassword'
+    | 'pattern'
+    // number fields
+    | 'min'
+    | 'max'
+    | 'integer'
+    | 'step'
+    | 'decimalPlaces'
+    | 'positive'
+    | 'negative'
+    // date fields
+    | 'minDate'
+    | 'maxDate'
+    | 'noWeekends'
+    | 'afterField';
+  // Regular expression source for pattern rules; for minDate/maxDate a "YYYY-MM-DD" date or a
+  // bound relative to today ("today", "today+7d", "today-18y"); for afterField the other field's id
   value?: number | string;
+  flags?: string; // regular expression flags for pattern rules, e.g. "i"
+  policy?: PasswordPolicy; // for customPassword rules; settings left out use the default policy
   message: string;
 }
 
+/**
+ * Requirements of a customPassword rule
+ */
+export interface PasswordPolicy {
+  minLength?: number;
+  requireUppercase?: boolean;
+  requireLowercase?: boolean;
+  requireDigit?: boolean;
+  requireSymbol?: boolean; // any character that is not a letter, digit or space
+  blockCommonPasswords?: boolean; // reject passwords from the built-in list of common passwords
+  bannedPasswords?: string[]; // further passwords to reject, compared ignoring case
+  notContainingFieldId?: string; // e.g. the username field; the password may not contain its value
+}
+
 export interface DerivedFieldConfig {
   parentFields: string[];
-  computationLogic: string; // JavaScript expression
+  computationLogic: string; // expression in the derived-field language; parents are referenced by label or id
+}
+
+export type ConditionOperator =
+  | 'equals'
+  | 'notEquals'
+  | 'in'
+  | 'notIn'
+  | 'greaterThan'
+  | 'greaterThanOrEqual'
+  | 'lessThan'
+  | 'lessThanOrEqual'
+  | 'isEmpty'
+  | 'isNotEmpty';
+
+export interface FieldCondition {
+  fieldId: string;
+  operator: ConditionOperator;
+  value?: string | number | string[]; // string[] for in/notIn
+}
+
+export interface ConditionGroup {
+  combinator: 'and' | 'or';
+  conditions: (FieldCondition | ConditionGroup)[];
 }
 
 export interface FormField {
@@ -18,13 +78,68 @@ export interface FormField {
   validation?: ValidationRule[];
   options?: string[]; // for select/radio
   derivedFrom?: DerivedFieldConfig;
+  visibleWhen?: ConditionGroup; // field is only shown (and validated/submitted) when this holds
+  pageId?: string; // page of a multi-page form; defaults to the first page
+}
+
+export type CrossFieldOperator =
+  | 'equals'
+  | 'notEquals'
+  | 'greaterThan'
+  | 'greaterThanOrEqual'
+  | 'lessThan'
+  | 'lessThanOrEqual';
+
+/**
+ * A form-level rule comparing two fields, e.g. "Confirm Email equals Email" or
+ * "End Date greaterThan Start Date". Dates compare by day, numbers numerically.
+ */
+export interface CrossFieldRule {
+  id: string;
+  fieldId: string; // the field being checked; errors are shown on it
+  operator: CrossFieldOperator;
+  otherFieldId: string;
+  message: string; // empty to use the default, e.g. "End Date must be after Start Date"
+}
+
+export interface FormPage {
+  id: string;
+  title: string;
+  description?: string;
 }
 
 export interface FormSchema {
   id: string;
   name: string;
   createdAt: Date;
+  updatedAt?: Date;
+  version?: number; // incremented each time the form is saved
   fields: FormField[];
+  pages?: FormPage[]; // ordered steps; forms without pages render as a single page
+  crossFieldRules?: CrossFieldRule[];
+  folder?: string; // slash-separated folder path, e.g. "Clients/Acme"
+  tags?: string[];
+}
+
+export interface FormSubmission {
+  id: string;
+  formId: string;
+  values: Record<string, unknown>;
+  submittedAt: Date;
+  schemaVersion: number; // FormSchema.version the response was submitted against
+}
+
+export interface TrashedForm {
+  id: string; // of the trash entry, as the same form id can be in the trash more than once
+  form: FormSchema;
+  deletedAt: Date; // the form is purged automatically once it has been in the trash too long
+}
+
+export interface FormDraft {
+  formId: string;
+  schema: FormSchema;
+  savedAt: Date;
+  isNewForm: boolean; // true when the draft belongs to a form that has never been saved
 }
 
 export interface FormState {
@@ -0,0 +1,13 @@
+/**
+ * Trigger a browser download of in-memory content
+ */
+export const downloadFile = (content: string, filename: string, mimeType: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -94,6 +94,35 @@ export class ErrorHandler {
           recoverable: true
         };
 
+      case 'migration_failed':
+        return {
+          message: error.message,
+          type: 'storage',
+          severity: 'high',
+          userMessage: 'Saved forms could not be upgraded to the current version',
+          technicalMessage: error.message,
+          suggestions: [
+            'Your previous data has been backed up and was not modified',
+            'Try refreshing the page',
+            'Contact support if the issue persists'
+          ],
+          recoverable: false
+        };
+
+      case 'invalid_schema':
+        return {
+          message: error.message,
+          type: 'storage',
+          severity: 'medium',
+          userMessage: `${error.message}. The form was not saved.`,
+          technicalMessage: error.message,
+          suggestions: [
+            'Edit or remove the field mentioned above',
+            'Try saving again'
+          ],
+          recoverable: true
+        };
+
       default:
         return {
           message: error.message || 'Storage error occurred',
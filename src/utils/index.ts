@@ -1 +1,2 @@
-// Utility functions will be exported from here
\ No newline at end of file
+// Utility functions will be exported from here
+export { downloadFile } from './download';
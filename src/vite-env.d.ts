@@ -38,4 +38,8 @@ declare module "*.pcss" {
 declare module "*.sss" {
   const content: string;
   export default content;
-}
\ No newline at end of file
+}
+interface ImportMetaEnv {
+  // Storage backend for forms: 'auto' (default), 'indexedDB' or 'localStorage'
+  readonly VITE_FORM_STORAGE?: 'auto' | 'indexedDB' | 'localStorage';
+}